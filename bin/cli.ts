@@ -0,0 +1,166 @@
+import { type ParseArgsConfig, parseArgs } from 'node:util';
+import { TypeCompError } from '@/lib/utils/validation';
+
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  usage: 2,
+  invalid: 3,
+  conflict: 4,
+  auth: 5,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+export type OptionSpec = NonNullable<ParseArgsConfig['options']>;
+
+export type OptionValues = Record<
+  string,
+  string | boolean | (string | boolean)[] | undefined
+>;
+
+export interface CommandInput {
+  values: OptionValues;
+
+  positionals: string[];
+
+  rest: string[];
+}
+
+export interface Command {
+  name: string;
+
+  summary: string;
+
+  usage: string;
+
+  options?: OptionSpec;
+
+  optionHelp?: [string, string][];
+
+  passThrough?: boolean;
+
+  run(input: CommandInput): Promise<ExitCode>;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const GLOBAL_OPTIONS: OptionSpec = {
+  help: { type: 'boolean', short: 'h', default: false },
+  verbose: { type: 'boolean', short: 'v', default: false },
+  profile: { type: 'string' },
+  storage: { type: 'string' },
+};
+
+export const GLOBAL_OPTION_HELP: [string, string][] = [
+  ['-h, --help', 'Show help for the command'],
+  ['-v, --verbose', 'Enable verbose logging'],
+  ['--profile <name>', 'Use the tokens of a named login profile'],
+  ['--storage <spec>', 'Storage backend: fs[:dir], memory or sqlite[:path]'],
+];
+
+export function parseCommandArgs(
+  command: Command,
+  args: string[],
+): CommandInput {
+  if (command.passThrough) {
+    const [first, ...rest] = args;
+    if (first === '--help' || first === '-h') {
+      return { values: { help: true }, positionals: [], rest: [] };
+    }
+    return { values: {}, positionals: first ? [first] : [], rest };
+  }
+
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true,
+    });
+    return { values, positionals, rest: [] };
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+export function requirePositional(
+  input: CommandInput,
+  index: number,
+  name: string,
+): string {
+  const value = input.positionals[index];
+  if (!value) throw new UsageError(`Missing <${name}>`);
+  return value;
+}
+
+export function stringOption(
+  input: CommandInput,
+  name: string,
+): string | undefined {
+  const value = input.values[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function booleanOption(input: CommandInput, name: string): boolean {
+  return input.values[name] === true;
+}
+
+function formatRows(rows: [string, string][]): string[] {
+  const width = Math.max(...rows.map(([flag]) => flag.length));
+  return rows.map(
+    ([flag, description]) => `  ${flag.padEnd(width)}  ${description}`,
+  );
+}
+
+export function formatCommandHelp(command: Command): string {
+  const lines = [`Usage: typecomp ${command.usage}`, '', command.summary];
+  if (command.optionHelp && command.optionHelp.length > 0) {
+    lines.push('', 'Options:', ...formatRows(command.optionHelp));
+  }
+  if (!command.passThrough) {
+    lines.push('', 'Global options:', ...formatRows(GLOBAL_OPTION_HELP));
+  }
+  return lines.join('\n');
+}
+
+export function formatMainHelp(commands: Command[]): string {
+  return [
+    'Usage: typecomp <command> [options]',
+    '',
+    'Commands:',
+    ...formatRows(commands.map((c) => [c.name, c.summary])),
+    '',
+    'Run "typecomp help <command>" for command options.',
+    '',
+    'Exit codes: 0 success, 1 failure, 2 usage error, 3 validation failed,',
+    '            4 merge conflict, 5 authentication required',
+  ].join('\n');
+}
+
+export function exitCodeFor(error: unknown): ExitCode {
+  if (error instanceof UsageError) return EXIT_CODES.usage;
+
+  if (error instanceof TypeCompError) {
+    if (error.code === 'WCIF_INTEGRITY') return EXIT_CODES.invalid;
+    if (error.code === 'WCIF_MERGE_CONFLICT') return EXIT_CODES.conflict;
+    if (error.code === 'UNCOMMITTED_CHANGES') return EXIT_CODES.conflict;
+    return EXIT_CODES.failure;
+  }
+
+  const status = (error as { status?: number }).status;
+  const message = (error as Error)?.message ?? '';
+  if (
+    status === 401 ||
+    message.includes('Not logged in') ||
+    message.includes('Failed to refresh token')
+  ) {
+    return EXIT_CODES.auth;
+  }
+
+  return EXIT_CODES.failure;
+}
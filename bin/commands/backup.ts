@@ -0,0 +1,37 @@
+import { mkdir } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { fetchWcif } from '@/engine/auth';
+import {
+  type Command,
+  EXIT_CODES,
+  requirePositional,
+  stringOption,
+} from '../cli';
+
+export const backupCommand: Command = {
+  name: 'backup',
+  summary: 'Save a timestamped copy of the live WCIF',
+  usage: 'backup <competition-id> [--dir <path>]',
+  options: {
+    dir: { type: 'string' },
+  },
+  optionHelp: [
+    ['--dir <path>', 'Backup directory (default: .typecomp/backups)'],
+  ],
+  async run(input) {
+    const competitionId = requirePositional(input, 0, 'competition-id');
+    const wcif = await fetchWcif(competitionId);
+    const backupDir =
+      stringOption(input, 'dir') ??
+      join(resolve(process.cwd(), '.typecomp'), 'backups');
+    await mkdir(backupDir, { recursive: true });
+
+    const backupPath = join(
+      backupDir,
+      `${competitionId}-${new Date().toISOString().replace(/[:.]/g, '-')}.json`,
+    );
+    await Bun.write(backupPath, JSON.stringify(wcif, null, 2));
+    console.log(`✅ Backup saved to ${backupPath}`);
+    return EXIT_CODES.success;
+  },
+};
@@ -0,0 +1,23 @@
+import { cleanWcif } from '@/engine/clean';
+import { loadWcif, saveWcif } from '@/engine/index';
+import { type Command, EXIT_CODES, requirePositional } from '../cli';
+
+export const cleanCommand: Command = {
+  name: 'clean',
+  summary:
+    'Remove assignments, groups and custom extensions from the working copy',
+  usage: 'clean <competition-id>',
+  async run(input) {
+    const competitionId = requirePositional(input, 0, 'competition-id');
+    const competition = await loadWcif(competitionId);
+    cleanWcif(competition);
+    await saveWcif(competition, competitionId, false, { label: 'clean' });
+
+    console.log('✅ WCIF cleaned successfully!');
+    console.log(
+      `   Removed: assignments, groups, tool-created activities, and custom extensions`,
+    );
+    console.log(`   Preserved: original schedule structure`);
+    return EXIT_CODES.success;
+  },
+};
@@ -0,0 +1,61 @@
+import type { Competition } from '@wca/helpers';
+import { fetchWcif } from '@/engine/auth';
+import { describeWcifChanges } from '@/engine/diff';
+import { loadRevision } from '@/engine/history';
+import { loadBaseSnapshot, loadWcif } from '@/engine/index';
+import { TypeCompError } from '@/lib/utils/validation';
+import {
+  type Command,
+  EXIT_CODES,
+  requirePositional,
+  stringOption,
+} from '../cli';
+
+async function loadAgainst(
+  competitionId: string,
+  against: string,
+): Promise<Competition> {
+  if (against === 'remote') return await fetchWcif(competitionId);
+
+  if (against === 'base') {
+    const base = await loadBaseSnapshot(competitionId);
+    if (!base) {
+      throw new TypeCompError(
+        `No base snapshot for ${competitionId}. Run "typecomp fetch ${competitionId}" first.`,
+        'NOT_FOUND',
+        { competitionId },
+      );
+    }
+    return base;
+  }
+
+  return (await loadRevision(competitionId, against)).competition;
+}
+
+export const diffCommand: Command = {
+  name: 'diff',
+  summary: 'Show what changed in the working copy',
+  usage: 'diff <competition-id> [--against base|remote|<revision>]',
+  options: {
+    against: { type: 'string', default: 'base' },
+  },
+  optionHelp: [
+    [
+      '--against <ref>',
+      'Compare with the base snapshot (default), the live WCIF or a history revision',
+    ],
+  ],
+  async run(input) {
+    const competitionId = requirePositional(input, 0, 'competition-id');
+    const against = stringOption(input, 'against') ?? 'base';
+
+    const from = await loadAgainst(competitionId, against);
+    const working = await loadWcif(competitionId);
+
+    console.log(`Comparing ${against} with working copy`);
+    for (const line of describeWcifChanges(from, working)) {
+      console.log(line);
+    }
+    return EXIT_CODES.success;
+  },
+};
@@ -0,0 +1,80 @@
+import { loadWcif } from '@/engine/index';
+import {
+  explainAssignment,
+  formatExplanation,
+  recordedScorerOptions,
+} from '@/lib/api/explain';
+import {
+  defaultGroupScorers,
+  enhancedGroupScorers,
+} from '@/lib/api/presets/scorers';
+import type { Scorer } from '@/lib/types/core';
+import type { Competition } from '@/lib/types/wcif';
+import {
+  booleanOption,
+  type Command,
+  EXIT_CODES,
+  requirePositional,
+  stringOption,
+  UsageError,
+} from '../cli';
+
+function scorerFor(competition: Competition, name: string): Scorer | undefined {
+  switch (name) {
+    case 'default':
+      return defaultGroupScorers();
+    case 'enhanced':
+      return enhancedGroupScorers(competition);
+    case 'none':
+      return undefined;
+    default:
+      throw new UsageError(
+        `Unknown scorers "${name}". Expected default, enhanced or none`,
+      );
+  }
+}
+
+export const explainCommand: Command = {
+  name: 'explain',
+  summary: 'Explain why a competitor is in their group',
+  usage: 'explain <competition-id> <round-id> <person> [--scorers <preset>]',
+  options: {
+    scorers: { type: 'string' },
+    json: { type: 'boolean', default: false },
+  },
+  optionHelp: [
+    [
+      '--scorers <preset>',
+      'Re-evaluate with a preset instead of the scorers the assignment recorded: default, enhanced, none',
+    ],
+    ['--json', 'Print the explanation as JSON'],
+  ],
+  async run(input) {
+    const competitionId = requirePositional(input, 0, 'competition-id');
+    const roundId = requirePositional(input, 1, 'round-id');
+    const person = requirePositional(input, 2, 'person');
+    const competition = await loadWcif(competitionId);
+
+    // rounds assigned before scorers were recorded fall back to the default
+    // preset
+    const preset = stringOption(input, 'scorers');
+    const recorded =
+      preset === undefined ? recordedScorerOptions(competition, roundId) : null;
+    const explanation = explainAssignment(
+      competition,
+      roundId,
+      person,
+      recorded ?? {
+        scorer: scorerFor(competition, preset ?? 'default'),
+        scorerSource: { type: 'preset', preset: preset ?? 'default' },
+      },
+    );
+
+    if (booleanOption(input, 'json')) {
+      console.log(JSON.stringify(explanation, null, 2));
+    } else {
+      console.log(formatExplanation(explanation).join('\n'));
+    }
+    return EXIT_CODES.success;
+  },
+};
@@ -0,0 +1,53 @@
+import { describeWcifChanges, diffWcif } from '@/engine/diff';
+import { recordRevision } from '@/engine/history';
+import { loadBaseSnapshot, loadWcif, loadWorkingCopy } from '@/engine/index';
+import { TypeCompError } from '@/lib/utils/validation';
+import {
+  booleanOption,
+  type Command,
+  EXIT_CODES,
+  requirePositional,
+} from '../cli';
+
+export const fetchCommand: Command = {
+  name: 'fetch',
+  summary: 'Download the live WCIF as the local working copy',
+  usage: 'fetch <competition-id> [--force]',
+  options: {
+    force: { type: 'boolean', default: false },
+  },
+  optionHelp: [['--force', 'Replace a working copy that has unpushed changes']],
+  async run(input) {
+    const competitionId = requirePositional(input, 0, 'competition-id');
+    const working = await loadWorkingCopy(competitionId);
+
+    if (working) {
+      const base = await loadBaseSnapshot(competitionId);
+      const changed = !base || diffWcif(base, working).changedKeys.length > 0;
+
+      if (changed && !booleanOption(input, 'force')) {
+        const summary = base
+          ? describeWcifChanges(base, working)[0]
+          : 'no base snapshot';
+        throw new TypeCompError(
+          `${competitionId} has local changes that were not pushed (${summary}). Use --force to replace them.`,
+          'UNCOMMITTED_CHANGES',
+          { competitionId },
+        );
+      }
+
+      if (changed) {
+        const revision = await recordRevision(working, competitionId, {
+          label: 'before fetch',
+        });
+        console.log(`Saved previous working copy as revision ${revision.id}`);
+      }
+    }
+
+    const competition = await loadWcif(competitionId, { noLocalCache: true });
+    console.log(
+      `✅ Fetched ${competition.id}: ${competition.persons.length} persons, ${competition.events.length} events`,
+    );
+    return EXIT_CODES.success;
+  },
+};
@@ -0,0 +1,83 @@
+import { describeWcifChanges } from '@/engine/diff';
+import { formatRevision, listRevisions, loadRevision } from '@/engine/history';
+import { checkIntegrity, loadWcif, saveWcif } from '@/engine/index';
+import {
+  booleanOption,
+  type Command,
+  EXIT_CODES,
+  requirePositional,
+  UsageError,
+} from '../cli';
+
+export const historyCommand: Command = {
+  name: 'history',
+  summary: 'List, compare and restore recorded WCIF revisions',
+  usage:
+    'history <competition-id> list | diff <revision> [revision] | restore <revision> [--commit]',
+  options: {
+    commit: { type: 'boolean', short: 'c', default: false },
+    'ignore-validation': { type: 'boolean', default: false },
+  },
+  optionHelp: [
+    ['--commit, -c', 'Push the restored revision to WCA'],
+    [
+      '--ignore-validation',
+      'Push even if the integrity check reports problems',
+    ],
+    ['<revision>', 'Number from "list", id prefix, or "latest"'],
+  ],
+  async run(input) {
+    const competitionId = requirePositional(input, 0, 'competition-id');
+    const action = requirePositional(input, 1, 'action');
+
+    if (action === 'list') {
+      const revisions = await listRevisions(competitionId);
+      if (revisions.length === 0) {
+        console.log(`No revisions recorded for ${competitionId}`);
+      }
+      revisions.forEach((revision, i) => {
+        console.log(formatRevision(revision, i + 1));
+      });
+      return EXIT_CODES.success;
+    }
+
+    if (action === 'diff') {
+      const fromRef = requirePositional(input, 2, 'revision');
+      const toRef = input.positionals[3];
+
+      const from = await loadRevision(competitionId, fromRef);
+      const to = toRef
+        ? (await loadRevision(competitionId, toRef)).competition
+        : await loadWcif(competitionId);
+      console.log(
+        `Comparing ${from.revision.id} with ${toRef ?? 'working copy'}`,
+      );
+      for (const line of describeWcifChanges(from.competition, to)) {
+        console.log(line);
+      }
+      return EXIT_CODES.success;
+    }
+
+    if (action === 'restore') {
+      const ref = requirePositional(input, 2, 'revision');
+      const commit = booleanOption(input, 'commit');
+
+      const { revision, competition } = await loadRevision(competitionId, ref);
+      checkIntegrity(
+        competition,
+        commit,
+        booleanOption(input, 'ignore-validation'),
+      );
+      await saveWcif(competition, competitionId, commit, {
+        label: 'restore',
+        seed: revision.seed,
+        restoredFrom: revision.id,
+      });
+      console.log(`✅ Restored ${revision.id} as the working copy`);
+      if (commit) console.log('✅ Restored revision pushed to WCA API');
+      return EXIT_CODES.success;
+    }
+
+    throw new UsageError(`Unknown history action "${action}"`);
+  },
+};
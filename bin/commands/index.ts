@@ -0,0 +1,26 @@
+import type { Command } from '../cli';
+import { backupCommand } from './backup';
+import { cleanCommand } from './clean';
+import { diffCommand } from './diff';
+import { explainCommand } from './explain';
+import { fetchCommand } from './fetch';
+import { historyCommand } from './history';
+import { loginCommand } from './login';
+import { pushCommand } from './push';
+import { reportCommand } from './report';
+import { runCommand } from './run';
+import { validateCommand } from './validate';
+
+export const COMMANDS: Command[] = [
+  loginCommand,
+  fetchCommand,
+  backupCommand,
+  pushCommand,
+  cleanCommand,
+  diffCommand,
+  validateCommand,
+  reportCommand,
+  explainCommand,
+  historyCommand,
+  runCommand,
+];
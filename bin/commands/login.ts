@@ -0,0 +1,53 @@
+import { getProfile, importRefreshToken, login } from '@/engine/auth';
+import {
+  booleanOption,
+  type Command,
+  EXIT_CODES,
+  stringOption,
+  UsageError,
+} from '../cli';
+
+async function readTokenFile(path: string): Promise<string> {
+  const token = (await Bun.file(path).text()).trim();
+  if (!token) {
+    throw new UsageError(`Token file "${path}" is empty`);
+  }
+  return token;
+}
+
+export const loginCommand: Command = {
+  name: 'login',
+  summary: 'Authorize TypeComp with the WCA and save tokens',
+  usage: 'login [--paste | --oob | --import-token <token>]',
+  options: {
+    paste: { type: 'boolean', default: false },
+    oob: { type: 'boolean', default: false },
+    'import-token': { type: 'string' },
+    'import-token-file': { type: 'string' },
+  },
+  optionHelp: [
+    ['--paste', 'Print the authorize URL and paste the redirect URL or code'],
+    ['--oob', 'Use the out-of-band redirect and paste the code'],
+    ['--import-token <token>', 'Save an existing refresh token'],
+    ['--import-token-file <path>', 'Read the refresh token from a file'],
+  ],
+  async run(input) {
+    const tokenFile = stringOption(input, 'import-token-file');
+    const token =
+      stringOption(input, 'import-token') ??
+      (tokenFile ? await readTokenFile(tokenFile) : undefined);
+
+    if (token) {
+      await importRefreshToken(token);
+      console.log(`✅ Refresh token imported for profile "${getProfile()}"`);
+      return EXIT_CODES.success;
+    }
+
+    await login({
+      mode: booleanOption(input, 'paste') ? 'paste' : 'browser',
+      oob: booleanOption(input, 'oob'),
+    });
+    console.log(`✅ Logged in with profile "${getProfile()}"`);
+    return EXIT_CODES.success;
+  },
+};
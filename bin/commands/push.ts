@@ -0,0 +1,50 @@
+import type { Competition } from '@wca/helpers';
+import { fetchWcif, patchWcifWithRetries } from '@/engine/auth';
+import { buildPatchPayload, describeDelta, diffWcif } from '@/engine/diff';
+import { checkIntegrity } from '@/engine/index';
+import {
+  booleanOption,
+  type Command,
+  EXIT_CODES,
+  requirePositional,
+} from '../cli';
+
+export const pushCommand: Command = {
+  name: 'push',
+  summary: 'Push a WCIF file, sending only keys that differ from the live WCIF',
+  usage: 'push <wcif-file> [--ignore-validation]',
+  options: {
+    'ignore-validation': { type: 'boolean', default: false },
+  },
+  optionHelp: [
+    [
+      '--ignore-validation',
+      'Push even if the integrity check reports problems',
+    ],
+  ],
+  async run(input) {
+    const wcifPath = requirePositional(input, 0, 'wcif-file');
+    const wcif = (await Bun.file(wcifPath).json()) as Competition;
+    checkIntegrity(wcif, true, booleanOption(input, 'ignore-validation'));
+
+    const keys = Object.keys(wcif).filter((k) => k !== 'id');
+    const remote = await fetchWcif(wcif.id);
+    const delta = diffWcif(remote, wcif, keys);
+    for (const line of describeDelta(delta)) {
+      console.log(line);
+    }
+
+    if (delta.changedKeys.length === 0) {
+      console.log('✅ Remote WCIF already matches, nothing pushed');
+      return EXIT_CODES.success;
+    }
+
+    await patchWcifWithRetries(
+      wcif.id,
+      buildPatchPayload(wcif, delta),
+      delta.changedKeys,
+    );
+    console.log('✅ WCIF successfully pushed to WCA API');
+    return EXIT_CODES.success;
+  },
+};
@@ -0,0 +1,72 @@
+import type { EventId } from '@wca/helpers';
+import { loadWcif } from '@/engine/index';
+import {
+  deduplicateGroups,
+  getGroupsForRound,
+} from '@/lib/functions/groups-helpers';
+import { validateCompetition } from '@/lib/functions/integrity';
+import type { Competition } from '@/lib/types/wcif';
+import { type Command, EXIT_CODES, requirePositional } from '../cli';
+
+function roundReport(competition: Competition, roundId: string): string {
+  const eventId = (roundId.split('-')[0] ?? '') as EventId;
+  const groups = getGroupsForRound(competition, roundId);
+  const groupIds = new Set(groups.map((g) => g.id));
+
+  const registered = competition.persons.filter(
+    (p) =>
+      p.registration?.status === 'accepted' &&
+      p.registration.eventIds.includes(eventId),
+  ).length;
+
+  const competitors = new Set<number>();
+  const staff = new Map<string, number>();
+  for (const person of competition.persons) {
+    for (const assignment of person.assignments ?? []) {
+      if (!groupIds.has(assignment.activityId)) continue;
+      if (assignment.assignmentCode === 'competitor') {
+        competitors.add(person.registrantId);
+      } else {
+        const code = assignment.assignmentCode.replace(/^staff-/, '');
+        staff.set(code, (staff.get(code) ?? 0) + 1);
+      }
+    }
+  }
+
+  const staffSummary = [...staff.entries()]
+    .map(([code, count]) => `${count} ${code}`)
+    .join(', ');
+  const competitorSummary =
+    roundId.endsWith('-r1') || competitors.size > 0
+      ? `${competitors.size}/${registered} competitors`
+      : `${competitors.size} competitors`;
+
+  return `  ${roundId.padEnd(10)} ${String(deduplicateGroups(groups).length).padStart(2)} groups  ${competitorSummary}${staffSummary ? `  staff: ${staffSummary}` : ''}`;
+}
+
+export const reportCommand: Command = {
+  name: 'report',
+  summary: 'Summarize groups, competitors and staff per round',
+  usage: 'report <competition-id>',
+  async run(input) {
+    const competitionId = requirePositional(input, 0, 'competition-id');
+    const competition = await loadWcif(competitionId);
+
+    console.log(
+      `${competition.name ?? competitionId}: ${competition.persons.length} persons`,
+    );
+    for (const event of competition.events) {
+      for (const round of event.rounds) {
+        console.log(roundReport(competition, round.id));
+      }
+    }
+
+    const findings = validateCompetition(competition);
+    console.log(
+      findings.length === 0
+        ? 'Integrity: OK'
+        : `Integrity: ${findings.length} problem(s), run "typecomp validate ${competitionId}"`,
+    );
+    return EXIT_CODES.success;
+  },
+};
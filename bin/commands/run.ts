@@ -0,0 +1,35 @@
+import { resolve } from 'node:path';
+import { type Command, type ExitCode, requirePositional } from '../cli';
+
+export const runCommand: Command = {
+  name: 'run',
+  summary: 'Run a TypeComp script, passing the remaining arguments through',
+  usage:
+    'run <script> [--commit] [--no-local-cache] [--clean] [--label <text>] [...]',
+  passThrough: true,
+  optionHelp: [
+    ['--commit, -c', 'Push changes to WCA (default: dry run)'],
+    ['--no-local-cache', 'Fetch fresh WCIF instead of using the working copy'],
+    ['--clean', 'Remove assignments, groups and custom extensions first'],
+    ['--label <text>', 'Label the history revision recorded for this run'],
+    [
+      '--ignore-validation',
+      'Commit even if the integrity check reports problems',
+    ],
+    ['--profile <name>', 'Use the tokens of a named login profile'],
+    ['--seed <n>', 'Seed the random tie-breaks so a run can be reproduced'],
+    [
+      '--solver <name>',
+      'Assignment solver: lp, ortools, local, lp+local (default: lp)',
+    ],
+    ['--time-limit <seconds>', 'Wall-clock limit for each solver call'],
+    ['-v, --verbose', 'Enable verbose logging'],
+  ],
+  async run(input) {
+    const script = resolve(requirePositional(input, 0, 'script'));
+    const proc = Bun.spawn([process.execPath, 'run', script, ...input.rest], {
+      stdio: ['inherit', 'inherit', 'inherit'],
+    });
+    return (await proc.exited) as ExitCode;
+  },
+};
@@ -0,0 +1,25 @@
+import { loadWcif } from '@/engine/index';
+import {
+  formatIntegrityFindings,
+  validateCompetition,
+} from '@/lib/functions/integrity';
+import { type Command, EXIT_CODES, requirePositional } from '../cli';
+
+export const validateCommand: Command = {
+  name: 'validate',
+  summary: 'Check the working copy for WCIF integrity problems',
+  usage: 'validate <competition-id>',
+  async run(input) {
+    const competitionId = requirePositional(input, 0, 'competition-id');
+    const competition = await loadWcif(competitionId);
+    const findings = validateCompetition(competition);
+
+    if (findings.length === 0) {
+      console.log(`✅ ${competitionId} passed all integrity checks`);
+      return EXIT_CODES.success;
+    }
+
+    console.log(formatIntegrityFindings(findings, Number.POSITIVE_INFINITY));
+    return EXIT_CODES.invalid;
+  },
+};
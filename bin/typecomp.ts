@@ -0,0 +1,69 @@
+#!/usr/bin/env bun
+import { setProfile } from '@/engine/auth';
+import { createStorage, setDefaultStorage } from '@/engine/storage';
+import {
+  EXIT_CODES,
+  type ExitCode,
+  exitCodeFor,
+  formatCommandHelp,
+  formatMainHelp,
+  parseCommandArgs,
+  stringOption,
+  UsageError,
+} from './cli';
+import { COMMANDS } from './commands';
+
+export async function main(argv: string[]): Promise<ExitCode> {
+  const [name, ...args] = argv;
+
+  if (!name || name === '--help' || name === '-h') {
+    console.log(formatMainHelp(COMMANDS));
+    return name ? EXIT_CODES.success : EXIT_CODES.usage;
+  }
+
+  if (name === 'help') {
+    const target = COMMANDS.find((c) => c.name === args[0]);
+    console.log(target ? formatCommandHelp(target) : formatMainHelp(COMMANDS));
+    return EXIT_CODES.success;
+  }
+
+  const command = COMMANDS.find((c) => c.name === name);
+  if (!command) {
+    console.error(`Unknown command "${name}"\n`);
+    console.error(formatMainHelp(COMMANDS));
+    return EXIT_CODES.usage;
+  }
+
+  try {
+    const input = parseCommandArgs(command, args);
+
+    if (input.values.help === true) {
+      console.log(formatCommandHelp(command));
+      return EXIT_CODES.success;
+    }
+
+    const profile = stringOption(input, 'profile');
+    if (profile) setProfile(profile);
+
+    const storage = stringOption(input, 'storage');
+    if (storage) setDefaultStorage(createStorage(storage));
+
+    return await command.run(input);
+  } catch (error) {
+    const code = exitCodeFor(error);
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}\n`);
+      console.error(formatCommandHelp(command));
+    } else {
+      console.error(
+        '❌ Error:',
+        error instanceof Error ? error.message : error,
+      );
+    }
+    return code;
+  }
+}
+
+if (import.meta.main) {
+  process.exit(await main(process.argv.slice(2)));
+}
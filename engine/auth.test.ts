@@ -0,0 +1,104 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Competition } from '@/lib/types/wcif';
+import { type MockWcaServer, startMockWcaServer } from './mock-server';
+
+const COMPETITION = {
+  formatVersion: '1.0',
+  id: 'MockComp2026',
+  name: 'Mock Comp 2026',
+  shortName: 'Mock Comp 2026',
+  persons: [],
+  events: [],
+  schedule: { startDate: '2026-03-01', numberOfDays: 1, venues: [] },
+  competitorLimit: null,
+  extensions: [],
+} as unknown as Competition;
+
+const PATCH = { extensions: [{ id: 'test', specUrl: '', data: {} }] };
+
+let server: MockWcaServer;
+let auth: typeof import('./auth');
+let cwd: string;
+let dir: string;
+
+// auth keeps its tokens under the working directory, so it is imported from
+// a scratch one
+beforeAll(async () => {
+  server = startMockWcaServer({ competitions: [COMPETITION] });
+  cwd = process.cwd();
+  dir = mkdtempSync(join(tmpdir(), 'typecomp-auth-'));
+  process.chdir(dir);
+  process.env.WCA_API = server.url;
+  process.env.WCA_CLIENT = 'mock';
+  process.env.WCA_SECRET = 'mock';
+  process.env.WCA_REFRESH_TOKEN = 'mock-refresh-token';
+  auth = await import('./auth');
+});
+
+afterAll(() => {
+  server.stop();
+  process.chdir(cwd);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  server.requests.length = 0;
+});
+
+const patchStatuses = (): number[] =>
+  server.requests.filter((r) => r.method === 'PATCH').map((r) => r.status);
+
+const tokenRequests = (): number =>
+  server.requests.filter((r) => r.path === '/oauth/token').length;
+
+describe('patchWcifWithRetries', () => {
+  test('refreshes the access token after a 401', async () => {
+    await auth.patchWcifWithRetries(COMPETITION.id, PATCH, ['extensions']);
+    server.requests.length = 0;
+
+    server.fail('patch', 401);
+    const result = await auth.patchWcifWithRetries(COMPETITION.id, PATCH, [
+      'extensions',
+    ]);
+
+    expect(patchStatuses()).toEqual([401, 200]);
+    expect(tokenRequests()).toBe(1);
+    expect(result.extensions).toEqual(PATCH.extensions);
+  });
+
+  test('retries after a 429', async () => {
+    server.fail('patch', 429);
+    await auth.patchWcifWithRetries(COMPETITION.id, PATCH, ['extensions']);
+
+    expect(patchStatuses()).toEqual([429, 200]);
+  });
+
+  test('retries after a 500', async () => {
+    server.fail('patch', 500);
+    await auth.patchWcifWithRetries(COMPETITION.id, PATCH, ['extensions']);
+
+    expect(patchStatuses()).toEqual([500, 200]);
+    expect(server.competitions.get(COMPETITION.id)?.extensions).toEqual(
+      PATCH.extensions,
+    );
+  });
+
+  test('does not retry other client errors', async () => {
+    server.fail('patch', 422);
+
+    await expect(
+      auth.patchWcifWithRetries(COMPETITION.id, PATCH, ['extensions']),
+    ).rejects.toBeInstanceOf(auth.WcaApiError);
+    expect(patchStatuses()).toEqual([422]);
+  });
+});
@@ -1,6 +1,7 @@
 import { join, resolve } from 'node:path';
 import type { Competition } from '@wca/helpers';
 import {
+  allowInsecureRequests,
   authorizationCodeGrant,
   buildAuthorizationUrl,
   ClientSecretPost,
@@ -8,10 +9,27 @@ import {
   refreshTokenGrant,
   type ServerMetadata,
 } from 'openid-client';
+import { parseCliArgs } from './index';
 
 const TYPECOMP_DIR = resolve(process.cwd(), '.typecomp');
-const TOKEN_FILE = join(TYPECOMP_DIR, 'tokens.json');
-const LOCAL_WCIF_DIR = join(TYPECOMP_DIR, 'local-wcif');
+const OOB_REDIRECT_URI = 'urn:ietf:wg:oauth:2.0:oob';
+const DEFAULT_PROFILE = 'default';
+
+export interface LoginOptions {
+  mode?: 'browser' | 'paste';
+
+  oob?: boolean;
+}
+
+export class WcaApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = 'WcaApiError';
+  }
+}
 
 interface TokenData {
   refreshToken?: string;
@@ -20,6 +38,7 @@ interface TokenData {
 }
 
 let tokenData: TokenData = {};
+let profile: string | null = null;
 let config: Configuration | null = null;
 let env: {
   WCA_API: string;
@@ -30,20 +49,75 @@ let env: {
   HOST: string;
 } | null = null;
 
+export function getProfile(): string {
+  if (!profile) {
+    profile =
+      parseCliArgs().profile || process.env.TYPECOMP_PROFILE || DEFAULT_PROFILE;
+  }
+  return profile;
+}
+
+export function setProfile(name: string): void {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(
+      `Invalid profile name "${name}". Use letters, numbers, ".", "-" or "_".`,
+    );
+  }
+  profile = name;
+  tokenData = {};
+}
+
+function getTokenFile(): string {
+  const name = getProfile();
+  return name === DEFAULT_PROFILE
+    ? join(TYPECOMP_DIR, 'tokens.json')
+    : join(TYPECOMP_DIR, 'profiles', `${name}.json`);
+}
+
+function loginHint(): string {
+  const name = getProfile();
+  return name === DEFAULT_PROFILE
+    ? 'bun run login'
+    : `bun run login --profile ${name}`;
+}
+
+async function importedRefreshToken(): Promise<string | undefined> {
+  if (process.env.WCA_REFRESH_TOKEN) return process.env.WCA_REFRESH_TOKEN;
+
+  const path = process.env.WCA_REFRESH_TOKEN_FILE;
+  if (path) {
+    const file = Bun.file(path);
+    if (await file.exists()) return (await file.text()).trim() || undefined;
+  }
+
+  return undefined;
+}
+
 async function loadTokens(): Promise<TokenData> {
   try {
-    const file = Bun.file(TOKEN_FILE);
+    const file = Bun.file(getTokenFile());
     if (await file.exists()) {
       tokenData = JSON.parse(await file.text()) as TokenData;
     }
   } catch {
     tokenData = {};
   }
+
+  if (!tokenData.refreshToken) {
+    const imported = await importedRefreshToken();
+    if (imported) tokenData = { refreshToken: imported };
+  }
+
   return tokenData;
 }
 
 async function saveTokens(): Promise<void> {
-  await Bun.write(TOKEN_FILE, JSON.stringify(tokenData, null, 2));
+  await Bun.write(getTokenFile(), JSON.stringify(tokenData, null, 2));
+}
+
+export async function importRefreshToken(refreshToken: string): Promise<void> {
+  tokenData = { refreshToken: refreshToken.trim() };
+  await saveTokens();
 }
 
 function init(): void {
@@ -74,6 +148,7 @@ function init(): void {
     ClientSecretPost(env.WCA_SECRET),
   );
   config.timeout = 600;
+  if (env.WCA_API.startsWith('http:')) allowInsecureRequests(config);
 }
 
 function updateTokens(tokenSet: {
@@ -98,19 +173,58 @@ async function fetchApi(
     },
   });
   if (!res.ok)
-    throw new Error(
+    throw new WcaApiError(
       `WCA API error: ${res.status} ${res.statusText} - ${await res.text()}`,
+      res.status,
     );
   return (await res.json()) as Competition;
 }
 
-export async function login(): Promise<void> {
+async function pasteLogin(
+  currentConfig: Configuration,
+  currentEnv: NonNullable<typeof env>,
+  oob: boolean,
+): Promise<void> {
+  const redirectUri = oob
+    ? OOB_REDIRECT_URI
+    : `${currentEnv.SCHEME}://${currentEnv.HOST}:${currentEnv.PORT}/auth/oauth_response`;
+  const authUrl = buildAuthorizationUrl(currentConfig, {
+    redirect_uri: redirectUri,
+    scope: 'public manage_competitions',
+  });
+
+  console.log('Open this URL in any browser and authorize TypeComp:');
+  console.log(authUrl.href);
+  console.log(
+    oob
+      ? 'Then paste the authorization code shown by the WCA.'
+      : 'The browser will fail to load the redirect page; paste its full URL (or just the code).',
+  );
+
+  const input = prompt('Code or URL:')?.trim();
+  if (!input) throw new Error('No authorization code provided');
+
+  const callbackUrl = /^https?:\/\//.test(input)
+    ? new URL(input)
+    : new URL(`${redirectUri}?code=${encodeURIComponent(input)}`);
+
+  const tokenSet = await authorizationCodeGrant(currentConfig, callbackUrl);
+  updateTokens(tokenSet);
+  await saveTokens();
+}
+
+export async function login(options: LoginOptions = {}): Promise<void> {
   init();
   await loadTokens();
   if (!env || !config) throw new Error('Initialization failed');
   const currentEnv = env;
   const currentConfig = config;
 
+  if (options.mode === 'paste' || options.oob) {
+    await pasteLogin(currentConfig, currentEnv, options.oob ?? false);
+    return;
+  }
+
   return new Promise((resolve, reject) => {
     const port = parseInt(currentEnv.PORT, 10);
     const server = Bun.serve({
@@ -157,16 +271,17 @@ export async function login(): Promise<void> {
   });
 }
 
-async function getAccessToken(): Promise<string> {
+async function getAccessToken(forceRefresh = false): Promise<string> {
   init();
   await loadTokens();
   if (!config) throw new Error('Initialization failed');
 
   if (!tokenData.refreshToken)
-    throw new Error('Not logged in. Run "bun run login" first.');
+    throw new Error(`Not logged in. Run "${loginHint()}" first.`);
 
   const now = Date.now();
   if (
+    !forceRefresh &&
     tokenData.expiresAt &&
     now < tokenData.expiresAt - 5 * 60 * 1000 &&
     tokenData.accessToken
@@ -183,51 +298,49 @@ async function getAccessToken(): Promise<string> {
     return tokenData.accessToken;
   } catch (error) {
     throw new Error(
-      `Failed to refresh token: ${error}. Please run "bun run login" again.`,
+      `Failed to refresh token: ${error}. Please run "${loginHint()}" again.`,
     );
   }
 }
 
-export async function getWcif(
-  competitionId: string,
-  noCache = false,
-): Promise<Competition> {
+export async function fetchWcif(competitionId: string): Promise<Competition> {
   init();
   if (!env) throw new Error('Initialization failed');
-  const localPath = join(LOCAL_WCIF_DIR, `${competitionId}.json`);
-  const localFile = Bun.file(localPath);
 
-  if (!noCache && (await localFile.exists())) {
-    return await localFile.json();
-  }
-
-  const accessToken = await getAccessToken();
-  let url = `${env.WCA_API}/api/v0/competitions/${competitionId}/wcif`;
+  const url = `${env.WCA_API}/api/v0/competitions/${competitionId}/wcif`;
+  let accessToken = await getAccessToken();
 
   try {
-    const wcif = await fetchApi(url, accessToken);
-    await Bun.write(localPath, JSON.stringify(wcif, null, 2));
-    return wcif;
+    return await fetchApi(url, accessToken);
   } catch (error: unknown) {
-    const err = error as Error;
-    if (err.message?.includes('403') || err.message?.includes('401')) {
-      url = `${env.WCA_API}/api/v0/competitions/${competitionId}/wcif/public`;
-      const wcif = await fetchApi(url, accessToken);
-      await Bun.write(localPath, JSON.stringify(wcif, null, 2));
-      return wcif;
+    if (!(error instanceof WcaApiError)) throw error;
+    if (error.status === 401) {
+      accessToken = await getAccessToken(true);
+      try {
+        return await fetchApi(url, accessToken);
+      } catch (retryError: unknown) {
+        if (
+          !(retryError instanceof WcaApiError) ||
+          (retryError.status !== 401 && retryError.status !== 403)
+        )
+          throw retryError;
+      }
+    } else if (error.status !== 403) {
+      throw error;
     }
-    throw error;
+    return await fetchApi(`${url}/public`, accessToken);
   }
 }
 
 async function patchWcif(
   competitionId: string,
-  wcif: Competition,
+  wcif: Partial<Competition>,
   keys: string[],
+  forceRefresh = false,
 ): Promise<Competition> {
   init();
   if (!env) throw new Error('Initialization failed');
-  const accessToken = await getAccessToken();
+  const accessToken = await getAccessToken(forceRefresh);
   const wcifRecord = wcif as unknown as Record<string, unknown>;
   const toPatch: Partial<Competition> = {};
   for (const key of keys)
@@ -247,36 +360,37 @@ async function patchWcif(
   );
 
   if (!res.ok)
-    throw new Error(
+    throw new WcaApiError(
       `Failed to patch WCIF: ${res.status} ${res.statusText} - ${await res.text()}`,
+      res.status,
     );
 
-  const updated = (await res.json()) as Competition;
-  const updatedRecord = updated as unknown as Record<string, unknown>;
-  if (updatedRecord.persons || updatedRecord.schedule || updatedRecord.events) {
-    await Bun.write(
-      join(LOCAL_WCIF_DIR, `${competitionId}.json`),
-      JSON.stringify(updated, null, 2),
-    );
-  }
-  return updated;
+  return (await res.json()) as Competition;
 }
 
 export async function patchWcifWithRetries(
   competitionId: string,
-  wcif: Competition,
+  wcif: Partial<Competition>,
   keys: string[],
 ): Promise<Competition> {
+  let forceRefresh = false;
   for (let i = 0; i < 10; i++) {
     try {
-      return await patchWcif(competitionId, wcif, keys);
+      return await patchWcif(competitionId, wcif, keys, forceRefresh);
     } catch (error: unknown) {
       if (i === 9) throw error;
       const err = error as Error & { code?: string };
+      const status = error instanceof WcaApiError ? error.status : 0;
+      if (status === 401 && !forceRefresh) {
+        forceRefresh = true;
+        continue;
+      }
+      forceRefresh = false;
       const shouldRetry =
         err.code === 'ECONNRESET' ||
         err.message?.includes('ECONNRESET') ||
-        err.message?.includes('429') ||
+        status === 429 ||
+        status >= 500 ||
         err.message?.includes('rate limit');
       if (!shouldRetry) throw error;
       await new Promise((resolve) =>
@@ -1,12 +1,14 @@
 import {
   GROUPIFIER_EXTENSION_PREFIX,
   PERSON_EXTENSION_PREFIX,
+  TYPECOMP_EXTENSION_PREFIX,
 } from '@/lib/functions/extensions';
 import type { Competition } from '@/lib/types/wcif';
 
 const CUSTOM_EXTENSION_PREFIXES = [
   GROUPIFIER_EXTENSION_PREFIX,
   PERSON_EXTENSION_PREFIX,
+  TYPECOMP_EXTENSION_PREFIX,
 ] as const;
 
 function removeCustomExtensions(entity: {
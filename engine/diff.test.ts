@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'bun:test';
+import type { Competition, Person } from '@/lib/types/wcif';
+import { buildPatchPayload, describeDelta, diffWcif } from './diff';
+
+function person(registrantId: number): Person {
+  return {
+    registrantId,
+    name: `Person ${registrantId}`,
+    assignments: [],
+    extensions: [],
+  } as unknown as Person;
+}
+
+function competition(): Competition {
+  return {
+    id: 'Diff2026',
+    name: 'Diff 2026',
+    persons: [person(1), person(2), person(3)],
+    events: [{ id: '333', rounds: [] }],
+    schedule: { startDate: '2026-03-01', numberOfDays: 1, venues: [] },
+    extensions: [],
+  } as unknown as Competition;
+}
+
+describe('diffWcif', () => {
+  test('reports nothing for an unchanged WCIF', () => {
+    const delta = diffWcif(competition(), competition());
+
+    expect(delta.changedKeys).toEqual([]);
+    expect(delta.unchangedPersonCount).toBe(3);
+    expect(describeDelta(delta)[0]).toBe('Nothing to push');
+  });
+
+  test('ignores key order and undefined fields', () => {
+    const current = competition();
+    current.schedule = {
+      venues: [],
+      numberOfDays: 1,
+      startDate: '2026-03-01',
+      extra: undefined,
+    } as unknown as Competition['schedule'];
+
+    expect(diffWcif(competition(), current).changedKeys).toEqual([]);
+  });
+});
+
+describe('buildPatchPayload', () => {
+  test('sends only the changed keys and persons', () => {
+    const current = competition();
+    current.persons[1]?.assignments?.push({
+      activityId: 1,
+      assignmentCode: 'competitor',
+      stationNumber: null,
+    });
+    current.extensions = [{ id: 'test', specUrl: '', data: {} }];
+
+    const delta = diffWcif(competition(), current);
+    const payload = buildPatchPayload(current, delta);
+
+    expect(delta.changedKeys).toEqual(['persons', 'extensions']);
+    expect(Object.keys(payload)).toEqual(['persons', 'extensions']);
+    expect(payload.persons?.map((p) => p.registrantId)).toEqual([2]);
+    expect(describeDelta(delta)).toEqual([
+      'Pushing: persons (1 of 3 changed), extensions',
+      'Omitted (unchanged): schedule, events, 2 unchanged persons',
+    ]);
+  });
+
+  test('refuses to push when persons were removed', () => {
+    const current = competition();
+    current.persons = current.persons.filter((p) => p.registrantId !== 3);
+
+    const delta = diffWcif(competition(), current);
+
+    expect(delta.removedPersonIds).toEqual([3]);
+    expect(() => buildPatchPayload(current, delta)).toThrow(
+      expect.objectContaining({ code: 'PERSONS_REMOVED' }),
+    );
+  });
+});
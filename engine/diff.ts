@@ -0,0 +1,197 @@
+import type { Competition, Person } from '@/lib/types/wcif';
+import { TypeCompError } from '@/lib/utils/validation';
+
+export const PATCHABLE_WCIF_KEYS = [
+  'persons',
+  'schedule',
+  'events',
+  'extensions',
+] as const;
+
+export interface WcifDelta {
+  changedKeys: string[];
+
+  unchangedKeys: string[];
+
+  changedPersons: Person[];
+
+  unchangedPersonCount: number;
+
+  // in the base but not in the current WCIF; a PATCH cannot remove persons
+  removedPersonIds: number[];
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function isSameWcifValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function diffPersons(
+  base: Person[],
+  current: Person[],
+): { changed: Person[]; unchanged: number; removed: number[] } {
+  const baseById = new Map<number, string>();
+  for (const person of base) {
+    baseById.set(person.registrantId, stableStringify(person));
+  }
+
+  const changed: Person[] = [];
+  let unchanged = 0;
+
+  for (const person of current) {
+    if (baseById.get(person.registrantId) === stableStringify(person)) {
+      unchanged++;
+    } else {
+      changed.push(person);
+    }
+    baseById.delete(person.registrantId);
+  }
+
+  return { changed, unchanged, removed: [...baseById.keys()] };
+}
+
+export function diffWcif(
+  base: Competition,
+  current: Competition,
+  keys: readonly string[] = PATCHABLE_WCIF_KEYS,
+): WcifDelta {
+  const baseRecord = base as unknown as Record<string, unknown>;
+  const currentRecord = current as unknown as Record<string, unknown>;
+
+  const delta: WcifDelta = {
+    changedKeys: [],
+    unchangedKeys: [],
+    changedPersons: [],
+    unchangedPersonCount: 0,
+    removedPersonIds: [],
+  };
+
+  for (const key of keys) {
+    if (!(key in currentRecord)) continue;
+
+    if (key === 'persons') {
+      const { changed, unchanged, removed } = diffPersons(
+        base.persons ?? [],
+        current.persons ?? [],
+      );
+      delta.changedPersons = changed;
+      delta.unchangedPersonCount = unchanged;
+      delta.removedPersonIds = removed;
+      if (changed.length > 0 || removed.length > 0) {
+        delta.changedKeys.push(key);
+      } else {
+        delta.unchangedKeys.push(key);
+      }
+      continue;
+    }
+
+    if (isSameWcifValue(baseRecord[key], currentRecord[key])) {
+      delta.unchangedKeys.push(key);
+    } else {
+      delta.changedKeys.push(key);
+    }
+  }
+
+  return delta;
+}
+
+export function buildPatchPayload(
+  current: Competition,
+  delta: WcifDelta,
+): Partial<Competition> {
+  // the WCA API only updates the persons it is sent, so a removed person
+  // would silently stay on the remote
+  if (delta.removedPersonIds.length > 0) {
+    throw new TypeCompError(
+      `Cannot push: ${delta.removedPersonIds.length} persons were removed from the WCIF (registrantIds ${delta.removedPersonIds.join(', ')})`,
+      'PERSONS_REMOVED',
+      { removedPersonIds: delta.removedPersonIds },
+    );
+  }
+
+  const currentRecord = current as unknown as Record<string, unknown>;
+  const payload: Record<string, unknown> = {};
+
+  for (const key of delta.changedKeys) {
+    payload[key] =
+      key === 'persons' ? delta.changedPersons : currentRecord[key];
+  }
+
+  return payload as Partial<Competition>;
+}
+
+export function describeDelta(delta: WcifDelta): string[] {
+  const pushed = delta.changedKeys.map((key) =>
+    key === 'persons'
+      ? `persons (${delta.changedPersons.length} of ${delta.changedPersons.length + delta.unchangedPersonCount} changed${delta.removedPersonIds.length > 0 ? `, ${delta.removedPersonIds.length} removed` : ''})`
+      : key,
+  );
+
+  const omitted = [...delta.unchangedKeys];
+  if (delta.changedKeys.includes('persons') && delta.unchangedPersonCount > 0) {
+    omitted.push(`${delta.unchangedPersonCount} unchanged persons`);
+  }
+
+  const lines: string[] = [];
+  lines.push(
+    pushed.length > 0 ? `Pushing: ${pushed.join(', ')}` : 'Nothing to push',
+  );
+  if (omitted.length > 0) {
+    lines.push(`Omitted (unchanged): ${omitted.join(', ')}`);
+  }
+  return lines;
+}
+
+export function describeWcifChanges(
+  from: Competition,
+  to: Competition,
+): string[] {
+  const delta = diffWcif(from, to);
+  const lines = describeDelta(delta).map((line) =>
+    line
+      .replace(/^Pushing:/, 'Changed:')
+      .replace(/^Nothing to push/, 'No changes')
+      .replace(/^Omitted \(unchanged\):/, 'Unchanged:'),
+  );
+
+  const assignmentKey = (a: {
+    activityId: number;
+    assignmentCode: string;
+    stationNumber?: number | null;
+  }): string => `${a.activityId}:${a.assignmentCode}:${a.stationNumber}`;
+
+  const before = new Map(from.persons.map((p) => [p.registrantId, p]));
+  for (const person of delta.changedPersons) {
+    const previous = new Set(
+      (before.get(person.registrantId)?.assignments ?? []).map(assignmentKey),
+    );
+    const current = new Set((person.assignments ?? []).map(assignmentKey));
+    const added = [...current].filter((a) => !previous.has(a)).length;
+    const removed = [...previous].filter((a) => !current.has(a)).length;
+    lines.push(
+      `  ${person.name} (${person.registrantId}): +${added} -${removed} assignments`,
+    );
+  }
+  for (const registrantId of delta.removedPersonIds) {
+    const person = before.get(registrantId);
+    lines.push(`  ${person?.name ?? 'Unknown'} (${registrantId}): removed`);
+  }
+
+  return lines;
+}
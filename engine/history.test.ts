@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import type { Competition } from '@/lib/types/wcif';
+import {
+  formatRevision,
+  listRevisions,
+  loadRevision,
+  markRevisionCommitted,
+  recordRevision,
+  resolveRevision,
+} from './history';
+import { loadWorkingCopy, saveWcif } from './index';
+import { MemoryStorage } from './storage';
+
+const ID = 'History2026';
+
+function competition(name: string): Competition {
+  return {
+    id: ID,
+    name,
+    persons: [],
+    events: [],
+    schedule: { startDate: '2026-03-01', numberOfDays: 1, venues: [] },
+    extensions: [],
+  } as unknown as Competition;
+}
+
+// revisions are ordered by timestamp, so each one is recorded a minute later
+async function recordAll(
+  storage: MemoryStorage,
+  names: string[],
+): Promise<void> {
+  for (const [i, name] of names.entries()) {
+    setSystemTime(new Date(Date.UTC(2026, 2, 1, 10, i)));
+    await recordRevision(competition(name), ID, { label: name }, storage);
+  }
+}
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('revision history', () => {
+  test('lists revisions in the order they were recorded', async () => {
+    const storage = new MemoryStorage();
+    await recordAll(storage, ['groups', 'staff']);
+
+    const revisions = await listRevisions(ID, storage);
+
+    expect(revisions.map((r) => r.id)).toEqual([
+      '2026-03-01T10-00-00-000Z-groups',
+      '2026-03-01T10-01-00-000Z-staff',
+    ]);
+    expect(formatRevision(revisions[1] as (typeof revisions)[number], 2)).toBe(
+      `2. 2026-03-01T10-01-00-000Z-staff script=${revisions[1]?.script} "staff"`,
+    );
+  });
+
+  test('resolves latest, list numbers and id prefixes', async () => {
+    const storage = new MemoryStorage();
+    await recordAll(storage, ['groups', 'staff']);
+
+    expect((await resolveRevision(ID, 'latest', storage)).label).toBe('staff');
+    expect((await resolveRevision(ID, '1', storage)).label).toBe('groups');
+    expect((await resolveRevision(ID, '2026-03-01T10-01', storage)).label).toBe(
+      'staff',
+    );
+    for (const ref of ['2026', 'missing']) {
+      await expect(resolveRevision(ID, ref, storage)).rejects.toMatchObject({
+        code: 'REVISION_NOT_FOUND',
+      });
+    }
+  });
+
+  test('marks a revision committed, or records the merged WCIF that was pushed', async () => {
+    const storage = new MemoryStorage();
+    await recordAll(storage, ['groups']);
+    const revision = await resolveRevision(ID, 'latest', storage);
+
+    const committed = await markRevisionCommitted(
+      revision,
+      competition('groups'),
+      storage,
+    );
+    expect(committed).toMatchObject({ id: revision.id, committed: true });
+
+    setSystemTime(new Date(Date.UTC(2026, 2, 1, 11)));
+    const merged = await markRevisionCommitted(
+      revision,
+      competition('merged'),
+      storage,
+    );
+    expect(merged).toMatchObject({ label: 'groups (merged)', committed: true });
+    expect((await loadRevision(ID, 'latest', storage)).competition.name).toBe(
+      'merged',
+    );
+  });
+
+  test('restores an earlier revision as the working copy', async () => {
+    const storage = new MemoryStorage();
+    await recordAll(storage, ['groups', 'staff']);
+
+    const { revision, competition: restored } = await loadRevision(
+      ID,
+      '1',
+      storage,
+    );
+    setSystemTime(new Date(Date.UTC(2026, 2, 1, 11)));
+    await saveWcif(
+      restored,
+      ID,
+      false,
+      { label: 'restore', restoredFrom: revision.id },
+      storage,
+    );
+
+    expect((await loadWorkingCopy(ID, storage))?.name).toBe('groups');
+    expect(await resolveRevision(ID, 'latest', storage)).toMatchObject({
+      label: 'restore',
+      restoredFrom: revision.id,
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { relative } from 'node:path';
+import type { Competition } from '@/lib/types/wcif';
+import { TypeCompError } from '@/lib/utils/validation';
+import { isSameWcifValue } from './diff';
+import { getDefaultStorage, type StorageBackend } from './storage';
+
+export interface RevisionInfo {
+  label?: string;
+
+  script?: string;
+
+  options?: Record<string, unknown>;
+
+  seed?: number | string;
+
+  committed?: boolean;
+
+  restoredFrom?: string;
+}
+
+export interface Revision extends RevisionInfo {
+  id: string;
+
+  competitionId: string;
+
+  timestamp: string;
+}
+
+function getHistoryKey(competitionId: string, revisionId: string): string {
+  return `history/${competitionId}/${revisionId}`;
+}
+
+function slugify(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 40);
+}
+
+export function currentScriptName(): string | undefined {
+  const script = process.argv[1];
+  return script ? relative(process.cwd(), script) : undefined;
+}
+
+export async function recordRevision(
+  competition: Competition,
+  competitionId: string,
+  info: RevisionInfo = {},
+  storage: StorageBackend = getDefaultStorage(),
+): Promise<Revision> {
+  const timestamp = new Date().toISOString();
+  const slug = info.label ? slugify(info.label) : '';
+  const id = `${timestamp.replace(/[:.]/g, '-')}${slug ? `-${slug}` : ''}`;
+
+  const revision: Revision = {
+    id,
+    competitionId,
+    timestamp,
+    script: currentScriptName(),
+    ...info,
+  };
+
+  await storage.save(getHistoryKey(competitionId, id), competition);
+  await storage.save(`${getHistoryKey(competitionId, id)}.meta`, revision);
+
+  return revision;
+}
+
+export async function listRevisions(
+  competitionId: string,
+  storage: StorageBackend = getDefaultStorage(),
+): Promise<Revision[]> {
+  const keys = await storage.list(`history/${competitionId}/`);
+
+  const revisions: Revision[] = [];
+  for (const key of keys) {
+    if (!key.endsWith('.meta')) continue;
+    const revision = await storage.load<Revision>(key);
+    if (revision) revisions.push(revision);
+  }
+
+  return revisions.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+export async function resolveRevision(
+  competitionId: string,
+  ref: string,
+  storage: StorageBackend = getDefaultStorage(),
+): Promise<Revision> {
+  const revisions = await listRevisions(competitionId, storage);
+
+  if (ref === 'latest' && revisions.length > 0) {
+    return revisions[revisions.length - 1] as Revision;
+  }
+
+  if (/^\d+$/.test(ref)) {
+    const byIndex = revisions[Number(ref) - 1];
+    if (byIndex) return byIndex;
+  }
+
+  const matches = revisions.filter((r) => r.id.startsWith(ref));
+  if (matches.length === 1) return matches[0] as Revision;
+
+  throw new TypeCompError(
+    matches.length === 0
+      ? `No revision "${ref}" found for ${competitionId}`
+      : `Revision "${ref}" is ambiguous (${matches.length} matches)`,
+    'REVISION_NOT_FOUND',
+    { competitionId, ref },
+  );
+}
+
+export async function loadRevision(
+  competitionId: string,
+  ref: string,
+  storage: StorageBackend = getDefaultStorage(),
+): Promise<{ revision: Revision; competition: Competition }> {
+  const revision = await resolveRevision(competitionId, ref, storage);
+  const competition = await storage.load<Competition>(
+    getHistoryKey(competitionId, revision.id),
+  );
+
+  if (!competition) {
+    throw new TypeCompError(
+      `Revision "${revision.id}" has no stored WCIF`,
+      'REVISION_NOT_FOUND',
+      { competitionId, ref },
+    );
+  }
+
+  return { revision, competition };
+}
+
+export function formatRevision(revision: Revision, index: number): string {
+  const parts = [`${index}.`, revision.id];
+  if (revision.committed) parts.push('[committed]');
+  if (revision.script) parts.push(`script=${revision.script}`);
+  if (revision.seed !== undefined) parts.push(`seed=${revision.seed}`);
+  if (revision.restoredFrom) parts.push(`from=${revision.restoredFrom}`);
+  if (revision.label) parts.push(`"${revision.label}"`);
+  return parts.join(' ');
+}
+
+export async function markRevisionCommitted(
+  revision: Revision,
+  pushed: Competition,
+  storage: StorageBackend = getDefaultStorage(),
+): Promise<Revision> {
+  const key = getHistoryKey(revision.competitionId, revision.id);
+  const saved = await storage.load<Competition>(key);
+
+  if (!isSameWcifValue(saved, pushed)) {
+    return await recordRevision(
+      pushed,
+      revision.competitionId,
+      {
+        label: revision.label ? `${revision.label} (merged)` : 'merged',
+        script: revision.script,
+        options: revision.options,
+        seed: revision.seed,
+        committed: true,
+      },
+      storage,
+    );
+  }
+
+  const committed: Revision = { ...revision, committed: true };
+  await storage.save(`${key}.meta`, committed);
+  return committed;
+}
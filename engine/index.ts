@@ -1,7 +1,43 @@
-import { join, resolve } from 'node:path';
 import { parseArgs } from 'node:util';
+import {
+  formatIntegrityFindings,
+  type IntegrityFinding,
+  validateCompetition,
+} from '@/lib/functions/integrity';
+import {
+  createSolver,
+  parseSolverName,
+  parseTimeLimit,
+  type Solver,
+  type SolverName,
+} from '@/lib/solvers/solver';
 import type { Competition } from '@/lib/types/wcif';
-import { createMutationTracker, type MutationTracker } from './mutations';
+import {
+  createRandom,
+  generateSeed,
+  parseSeed,
+  type RandomSource,
+} from '@/lib/utils/random';
+import { TypeCompError } from '@/lib/utils/validation';
+import {
+  buildPatchPayload,
+  describeDelta,
+  diffWcif,
+  PATCHABLE_WCIF_KEYS,
+} from './diff';
+import {
+  markRevisionCommitted,
+  type Revision,
+  type RevisionInfo,
+  recordRevision,
+} from './history';
+import { formatMergeConflicts, mergeWcif } from './merge';
+import {
+  createMutationTracker,
+  type MutationTracker,
+  summarizeMutations,
+} from './mutations';
+import { getDefaultStorage, type StorageBackend } from './storage';
 
 export interface TypeCompOptions {
   dryRun: boolean;
@@ -13,9 +49,22 @@ export interface TypeCompOptions {
   verbose: boolean;
 
   clean: boolean;
+
+  label?: string;
+
+  ignoreValidation: boolean;
+
+  profile?: string;
+
+  seed?: number;
+
+  solver?: SolverName;
+
+  // seconds per solver call
+  timeLimit?: number;
 }
 
-function parseCliArgs(): TypeCompOptions {
+export function parseCliArgs(): TypeCompOptions {
   const { values } = parseArgs({
     args: process.argv.slice(2),
     options: {
@@ -23,6 +72,12 @@ function parseCliArgs(): TypeCompOptions {
       'no-local-cache': { type: 'boolean', default: false },
       verbose: { type: 'boolean', short: 'v', default: false },
       clean: { type: 'boolean', default: false },
+      label: { type: 'string' },
+      'ignore-validation': { type: 'boolean', default: false },
+      profile: { type: 'string' },
+      seed: { type: 'string' },
+      solver: { type: 'string' },
+      'time-limit': { type: 'string' },
     },
     strict: false,
     allowPositionals: true,
@@ -32,6 +87,20 @@ function parseCliArgs(): TypeCompOptions {
   const noLocalCache = values['no-local-cache'] === true;
   const verbose = values.verbose === true;
   const clean = values.clean === true;
+  const label = typeof values.label === 'string' ? values.label : undefined;
+  const ignoreValidation = values['ignore-validation'] === true;
+  const profile =
+    typeof values.profile === 'string' ? values.profile : undefined;
+  const seed =
+    typeof values.seed === 'string' ? parseSeed(values.seed) : undefined;
+  const solver =
+    typeof values.solver === 'string'
+      ? parseSolverName(values.solver)
+      : undefined;
+  const timeLimit =
+    typeof values['time-limit'] === 'string'
+      ? parseTimeLimit(values['time-limit'])
+      : undefined;
 
   return {
     dryRun: !commit,
@@ -39,12 +108,20 @@ function parseCliArgs(): TypeCompOptions {
     commit,
     verbose,
     clean,
+    label,
+    ignoreValidation,
+    profile,
+    seed,
+    solver,
+    timeLimit,
   };
 }
 
 export interface ExecutionContext {
   competition: Competition;
 
+  base: Competition | null;
+
   dryRun: boolean;
 
   mutations: MutationTracker;
@@ -53,104 +130,342 @@ export interface ExecutionContext {
 
   options: TypeCompOptions;
 
+  seed: number;
+
+  random: RandomSource;
+
+  solver: Solver;
+
+  save: (label?: string) => Promise<void>;
+
   finish: () => Promise<void>;
 }
 
-const TYPECOMP_DIR = resolve(process.cwd(), '.typecomp');
-const LOCAL_WCIF_DIR = join(TYPECOMP_DIR, 'local-wcif');
+export interface PersistenceHooks {
+  load?: (
+    competitionId: string,
+    options: TypeCompOptions,
+  ) => Promise<{ competition: Competition; base: Competition | null }>;
+
+  save?: (
+    competition: Competition,
+    competitionId: string,
+    revision: RevisionInfo,
+  ) => Promise<void>;
+
+  commit?: (
+    competition: Competition,
+    competitionId: string,
+    base: Competition | null,
+    options: Pick<TypeCompOptions, 'ignoreValidation'>,
+  ) => Promise<Competition>;
+
+  describe?: (competitionId: string) => string;
+}
+
+export interface ContextOptions extends Partial<TypeCompOptions> {
+  persistence?: PersistenceHooks;
+
+  storage?: StorageBackend;
+
+  base?: Competition | null;
+}
+
+function getLocalWcifKey(competitionId: string): string {
+  return `local-wcif/${competitionId}`;
+}
 
-function getLocalWcifPath(competitionId: string): string {
-  return join(LOCAL_WCIF_DIR, `${competitionId}.json`);
+function getBaseWcifKey(competitionId: string): string {
+  return `local-wcif/${competitionId}.base`;
 }
 
-async function loadWcifFromFile(
+async function loadWorkingWcif(
   competitionId: string,
+  storage: StorageBackend,
 ): Promise<Competition | null> {
-  const localPath = getLocalWcifPath(competitionId);
-  const file = Bun.file(localPath);
+  return await storage.load<Competition>(getLocalWcifKey(competitionId));
+}
 
-  if (await file.exists()) {
-    return await file.json();
-  }
+async function loadBaseWcif(
+  competitionId: string,
+  storage: StorageBackend,
+): Promise<Competition | null> {
+  return await storage.load<Competition>(getBaseWcifKey(competitionId));
+}
 
-  return null;
+async function saveWorkingWcif(
+  competition: Competition,
+  competitionId: string,
+  storage: StorageBackend,
+): Promise<void> {
+  await storage.save(getLocalWcifKey(competitionId), competition);
 }
 
-async function saveWcifToFile(
+async function saveBaseWcif(
   competition: Competition,
   competitionId: string,
+  storage: StorageBackend,
 ): Promise<void> {
-  const localPath = getLocalWcifPath(competitionId);
+  await storage.save(getBaseWcifKey(competitionId), competition);
+}
 
-  await Bun.write(localPath, JSON.stringify(competition, null, 2));
+async function fetchAndCacheWcif(
+  competitionId: string,
+  storage: StorageBackend,
+): Promise<Competition> {
+  const { fetchWcif } = await import('./auth');
+  const competition = await fetchWcif(competitionId);
+
+  await saveWorkingWcif(competition, competitionId, storage);
+  await saveBaseWcif(competition, competitionId, storage);
+
+  return competition;
 }
 
 async function saveWcifToAPI(
   competition: Competition,
   competitionId: string,
-): Promise<void> {
-  const { patchWcifWithRetries } = await import('./auth');
-  const keys = ['persons', 'schedule', 'events', 'extensions'];
+  base: Competition | null,
+  storage: StorageBackend,
+  ignoreValidation: boolean,
+): Promise<Competition> {
+  const { fetchWcif, patchWcifWithRetries } = await import('./auth');
+
+  if (!base) {
+    console.log('No base snapshot found - pushing full WCIF');
+    await patchWcifWithRetries(competitionId, competition, [
+      ...PATCHABLE_WCIF_KEYS,
+    ]);
+    await saveBaseWcif(competition, competitionId, storage);
+    return competition;
+  }
+
+  const remote = await fetchWcif(competitionId);
+  let toPush = competition;
+
+  const drift = diffWcif(base, remote);
+  if (drift.changedKeys.length > 0) {
+    console.log(
+      `Remote WCIF changed since it was fetched (${drift.changedKeys.join(', ')}) - merging`,
+    );
+    const { merged, conflicts } = mergeWcif(base, competition, remote);
+    if (conflicts.length > 0) {
+      throw new TypeCompError(
+        formatMergeConflicts(conflicts),
+        'WCIF_MERGE_CONFLICT',
+        { conflicts },
+      );
+    }
+    // the merge can combine valid local and remote edits into an invalid WCIF
+    checkIntegrity(merged, true, ignoreValidation);
+    toPush = merged;
+  }
+
+  const delta = diffWcif(remote, toPush);
+  for (const line of describeDelta(delta)) {
+    console.log(line);
+  }
+
+  if (delta.changedKeys.length > 0) {
+    await patchWcifWithRetries(
+      competitionId,
+      buildPatchPayload(toPush, delta),
+      delta.changedKeys,
+    );
+  }
 
-  await patchWcifWithRetries(competitionId, competition, keys);
+  await saveBaseWcif(toPush, competitionId, storage);
+  return toPush;
 }
 
-export async function createContext(
-  competitionId: string,
-  options?: Partial<TypeCompOptions>,
-): Promise<ExecutionContext> {
-  const cliOptions = parseCliArgs();
-  const mergedOptions: TypeCompOptions = { ...cliOptions, ...options };
+export function checkIntegrity(
+  competition: Competition,
+  commit: boolean,
+  ignoreValidation: boolean,
+): IntegrityFinding[] {
+  const findings = validateCompetition(competition);
+  if (findings.length === 0) return findings;
+
+  const report = formatIntegrityFindings(findings);
+  if (commit && !ignoreValidation) {
+    throw new TypeCompError(
+      `${report}\nRefusing to commit. Fix the problems or pass --ignore-validation.`,
+      'WCIF_INTEGRITY',
+      { findings },
+    );
+  }
 
-  let competition: Competition;
+  console.warn(report);
+  return findings;
+}
 
-  if (!mergedOptions.noLocalCache) {
-    const localWcif = await loadWcifFromFile(competitionId);
+function printMutationSummary(mutations: MutationTracker): void {
+  const lines = summarizeMutations(mutations);
 
-    if (localWcif) {
-      if (mergedOptions.verbose) {
-        console.log(
-          `Loaded WCIF from local cache: ${getLocalWcifPath(competitionId)}`,
+  if (lines.length === 0) {
+    console.log('No changes recorded');
+    return;
+  }
+
+  console.log('Changes:');
+  for (const line of lines) {
+    console.log(`  ${line}`);
+  }
+}
+
+export function createStoragePersistence(
+  storage: StorageBackend = getDefaultStorage(),
+): PersistenceHooks {
+  let lastRevision: Revision | null = null;
+
+  return {
+    load: async (competitionId, options) => {
+      const localWcif = options.noLocalCache
+        ? null
+        : await loadWorkingWcif(competitionId, storage);
+
+      if (localWcif) {
+        if (options.verbose) {
+          console.log(
+            `Loaded WCIF from local cache: ${storage.location(getLocalWcifKey(competitionId))}`,
+          );
+        }
+        return {
+          competition: localWcif,
+          base: await loadBaseWcif(competitionId, storage),
+        };
+      }
+
+      const competition = await fetchAndCacheWcif(competitionId, storage);
+      return { competition, base: structuredClone(competition) };
+    },
+
+    save: async (competition, competitionId, revision) => {
+      const release = await storage.lock(getLocalWcifKey(competitionId));
+      try {
+        await saveWorkingWcif(competition, competitionId, storage);
+        lastRevision = await recordRevision(
+          competition,
+          competitionId,
+          revision,
+          storage,
         );
+      } finally {
+        await release();
       }
-      competition = localWcif;
-    } else {
-      const { getWcif } = await import('./auth');
+    },
 
-      competition = await getWcif(competitionId, false);
-    }
-  } else {
-    const { getWcif } = await import('./auth');
+    commit: async (competition, competitionId, base, options) => {
+      const release = await storage.lock(getLocalWcifKey(competitionId));
+      try {
+        const pushed = await saveWcifToAPI(
+          competition,
+          competitionId,
+          base,
+          storage,
+          options.ignoreValidation,
+        );
+        if (pushed !== competition) {
+          await saveWorkingWcif(pushed, competitionId, storage);
+        }
+        if (lastRevision) {
+          lastRevision = await markRevisionCommitted(
+            lastRevision,
+            pushed,
+            storage,
+          );
+        }
+        return pushed;
+      } finally {
+        await release();
+      }
+    },
 
-    competition = await getWcif(competitionId, true);
-  }
+    describe: (competitionId) =>
+      storage.location(getLocalWcifKey(competitionId)),
+  };
+}
 
-  if (mergedOptions.clean) {
+async function buildContext(
+  competition: Competition,
+  base: Competition | null,
+  competitionId: string,
+  options: TypeCompOptions,
+  persistence: PersistenceHooks,
+): Promise<ExecutionContext> {
+  if (options.clean) {
     const { cleanWcif } = await import('./clean');
     cleanWcif(competition);
-    if (mergedOptions.verbose) {
+    if (options.verbose) {
       console.log(
         '🧹 Cleaned WCIF: removed assignments, groups, and custom extensions',
       );
     }
   }
 
+  const seed = options.seed ?? generateSeed();
+
   const ctx: ExecutionContext = {
     competition,
-    dryRun: mergedOptions.dryRun,
+    base,
+    dryRun: options.dryRun,
     mutations: createMutationTracker(),
     competitionId,
-    options: mergedOptions,
+    options,
+    seed,
+    random: createRandom(seed),
+    solver: createSolver(options.solver, {
+      timeLimit: options.timeLimit,
+      seed,
+    }),
+    save: async (label?: string): Promise<void> => {
+      await persistence.save?.(ctx.competition, competitionId, {
+        label: label ?? ctx.options.label,
+        options: { ...ctx.options },
+        seed: ctx.seed,
+      });
+    },
     finish: async (): Promise<void> => {
-      await saveWcifToFile(ctx.competition, competitionId);
+      printMutationSummary(ctx.mutations);
+      console.log(`Seed: ${ctx.seed} (rerun with --seed ${ctx.seed})`);
+
+      // saved before validating so a refused commit still leaves the working
+      // copy on disk to inspect; the push itself is checked again after any
+      // merge with the remote
+      await ctx.save();
+
+      checkIntegrity(
+        ctx.competition,
+        ctx.options.commit,
+        ctx.options.ignoreValidation,
+      );
 
       if (ctx.options.commit) {
+        if (!persistence.commit) {
+          throw new TypeCompError(
+            `Cannot commit ${competitionId}: no commit hook configured`,
+            'NO_COMMIT_HOOK',
+            { competitionId },
+          );
+        }
         console.log('Committing WCIF to WCA API...');
-        await saveWcifToAPI(ctx.competition, competitionId);
+        ctx.competition = await persistence.commit(
+          ctx.competition,
+          competitionId,
+          ctx.base,
+          ctx.options,
+        );
+        ctx.base = structuredClone(ctx.competition);
         console.log('✅ WCIF committed to WCA API');
       } else {
-        console.log('Dry run - WCIF saved locally only');
-        console.log(`  Local file: ${getLocalWcifPath(competitionId)}`);
+        if (persistence.save) {
+          console.log('Dry run - WCIF saved locally only');
+        } else {
+          console.log('Dry run - WCIF kept in memory only');
+        }
+        if (persistence.describe) {
+          console.log(`  Local file: ${persistence.describe(competitionId)}`);
+        }
         console.log('  Run with --commit to push to WCA');
       }
     },
@@ -159,31 +474,130 @@ export async function createContext(
   return ctx;
 }
 
+function splitContextOptions(options: ContextOptions | undefined): {
+  typeCompOptions: Partial<TypeCompOptions>;
+  persistence?: PersistenceHooks;
+  storage?: StorageBackend;
+  base?: Competition | null;
+} {
+  const { persistence, storage, base, ...typeCompOptions } = options ?? {};
+  return { typeCompOptions, persistence, storage, base };
+}
+
+export async function createContext(
+  competitionId: string,
+  options?: ContextOptions,
+): Promise<ExecutionContext> {
+  const { typeCompOptions, storage, ...rest } = splitContextOptions(options);
+  const persistence = rest.persistence ?? createStoragePersistence(storage);
+  const mergedOptions: TypeCompOptions = {
+    ...parseCliArgs(),
+    ...typeCompOptions,
+  };
+
+  if (mergedOptions.profile) {
+    const { setProfile } = await import('./auth');
+    setProfile(mergedOptions.profile);
+  }
+
+  if (!persistence.load) {
+    throw new TypeCompError(
+      `Cannot load ${competitionId}: no load hook configured`,
+      'NO_LOAD_HOOK',
+      { competitionId },
+    );
+  }
+
+  const { competition, base } = await persistence.load(
+    competitionId,
+    mergedOptions,
+  );
+
+  return await buildContext(
+    competition,
+    base,
+    competitionId,
+    mergedOptions,
+    persistence,
+  );
+}
+
+export async function createContextFromWcif(
+  competition: Competition,
+  options?: ContextOptions,
+): Promise<ExecutionContext> {
+  const {
+    typeCompOptions,
+    persistence = {},
+    base,
+  } = splitContextOptions(options);
+  const commit = typeCompOptions.commit ?? false;
+  const mergedOptions: TypeCompOptions = {
+    dryRun: !commit,
+    noLocalCache: false,
+    commit,
+    verbose: false,
+    clean: false,
+    ignoreValidation: false,
+    ...typeCompOptions,
+  };
+
+  return await buildContext(
+    competition,
+    base === undefined ? structuredClone(competition) : base,
+    competition.id,
+    mergedOptions,
+    persistence,
+  );
+}
+
 export async function loadWcif(
   competitionId: string,
-  options?: { noLocalCache?: boolean },
+  options?: { noLocalCache?: boolean; storage?: StorageBackend },
 ): Promise<Competition> {
+  const storage = options?.storage ?? getDefaultStorage();
+
   if (!options?.noLocalCache) {
-    const localWcif = await loadWcifFromFile(competitionId);
+    const localWcif = await loadWorkingWcif(competitionId, storage);
 
     if (localWcif) {
       return localWcif;
     }
   }
 
-  const { getWcif } = await import('./auth');
+  return await fetchAndCacheWcif(competitionId, storage);
+}
 
-  return await getWcif(competitionId, options?.noLocalCache ?? false);
+export async function loadWorkingCopy(
+  competitionId: string,
+  storage: StorageBackend = getDefaultStorage(),
+): Promise<Competition | null> {
+  return await loadWorkingWcif(competitionId, storage);
+}
+
+export async function loadBaseSnapshot(
+  competitionId: string,
+  storage: StorageBackend = getDefaultStorage(),
+): Promise<Competition | null> {
+  return await loadBaseWcif(competitionId, storage);
 }
 
 export async function saveWcif(
   competition: Competition,
   competitionId: string,
   commit = false,
+  revision: RevisionInfo = {},
+  storage: StorageBackend = getDefaultStorage(),
 ): Promise<void> {
-  await saveWcifToFile(competition, competitionId);
+  const persistence = createStoragePersistence(storage);
+  await persistence.save?.(competition, competitionId, revision);
 
   if (commit) {
-    await saveWcifToAPI(competition, competitionId);
+    await persistence.commit?.(
+      competition,
+      competitionId,
+      await loadBaseWcif(competitionId, storage),
+      { ignoreValidation: false },
+    );
   }
 }
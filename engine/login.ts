@@ -1,6 +1,3 @@
-import { login } from '@/engine/auth';
+import { main } from '@/bin/typecomp';
 
-login().catch((error) => {
-  console.error('Login failed:', error);
-  process.exit(1);
-});
+process.exit(await main(['login', ...process.argv.slice(2)]));
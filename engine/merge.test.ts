@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import type { Assignment, Competition, Person } from '@/lib/types/wcif';
+import { formatMergeConflicts, mergeWcif } from './merge';
+
+function person(registrantId: number, assignments: Assignment[] = []): Person {
+  return {
+    registrantId,
+    name: `Person ${registrantId}`,
+    assignments,
+    extensions: [],
+  } as unknown as Person;
+}
+
+function competition(): Competition {
+  return {
+    id: 'Merge2026',
+    name: 'Merge 2026',
+    persons: [
+      person(1, [
+        { activityId: 2, assignmentCode: 'competitor', stationNumber: null },
+      ]),
+      person(2),
+    ],
+    events: [],
+    schedule: { startDate: '2026-03-01', numberOfDays: 1, venues: [] },
+    extensions: [],
+  } as unknown as Competition;
+}
+
+describe('mergeWcif', () => {
+  test('combines changes made on different sides', () => {
+    const base = competition();
+    const local = competition();
+    const remote = competition();
+    local.persons[0]?.assignments?.push({
+      activityId: 3,
+      assignmentCode: 'staff-judge',
+      stationNumber: 1,
+    });
+    remote.persons[1]?.assignments?.push({
+      activityId: 2,
+      assignmentCode: 'competitor',
+      stationNumber: null,
+    });
+    remote.name = 'Renamed 2026';
+
+    const { merged, conflicts } = mergeWcif(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.name).toBe('Renamed 2026');
+    expect(merged.persons).toEqual([
+      local.persons[0] as Person,
+      remote.persons[1] as Person,
+    ]);
+  });
+
+  test('reports an assignment changed on both sides', () => {
+    const base = competition();
+    const local = competition();
+    const remote = competition();
+    const localAssignment = local.persons[0]?.assignments?.[0];
+    const remoteAssignment = remote.persons[0]?.assignments?.[0];
+    if (localAssignment) localAssignment.stationNumber = 4;
+    if (remoteAssignment) remoteAssignment.stationNumber = 5;
+
+    const { merged, conflicts } = mergeWcif(base, local, remote);
+
+    expect(conflicts).toMatchObject([
+      {
+        kind: 'assignment',
+        path: 'persons[1].assignments[2:competitor]',
+        registrantId: 1,
+        activityId: 2,
+      },
+    ]);
+    expect(merged.persons[0]?.assignments?.[0]?.stationNumber).toBe(4);
+    expect(formatMergeConflicts(conflicts)).toContain(
+      '1 conflict(s) between local and remote WCIF:',
+    );
+  });
+
+  test('reports a person removed on one side and changed on the other', () => {
+    const base = competition();
+    const local = competition();
+    const remote = competition();
+    local.persons = local.persons.filter((p) => p.registrantId !== 2);
+    remote.persons[1]?.assignments?.push({
+      activityId: 2,
+      assignmentCode: 'competitor',
+      stationNumber: null,
+    });
+
+    const { conflicts } = mergeWcif(base, local, remote);
+
+    expect(conflicts).toMatchObject([{ kind: 'person', registrantId: 2 }]);
+  });
+});
@@ -0,0 +1,357 @@
+import type {
+  Activity,
+  Assignment,
+  Competition,
+  Person,
+  Room,
+  Schedule,
+  Venue,
+} from '@/lib/types/wcif';
+import { isSameWcifValue } from './diff';
+
+export interface MergeConflict {
+  kind: 'person' | 'assignment' | 'activity' | 'schedule' | 'wcif';
+
+  path: string;
+
+  registrantId?: number;
+
+  personName?: string;
+
+  activityId?: number;
+
+  message: string;
+}
+
+export interface MergeResult {
+  merged: Competition;
+
+  conflicts: MergeConflict[];
+}
+
+const UNRESOLVED = Symbol('unresolved');
+
+function mergeValue<T>(
+  base: T | undefined,
+  local: T | undefined,
+  remote: T | undefined,
+): T | undefined | typeof UNRESOLVED {
+  if (isSameWcifValue(local, base)) return remote;
+  if (isSameWcifValue(remote, base)) return local;
+  if (isSameWcifValue(local, remote)) return local;
+  return UNRESOLVED;
+}
+
+function mergeFields<T extends object>(
+  base: T | undefined,
+  local: T,
+  remote: T,
+  skip: string[],
+  onConflict: (field: string) => void,
+): T {
+  const baseRecord = (base ?? {}) as Record<string, unknown>;
+  const localRecord = local as Record<string, unknown>;
+  const remoteRecord = remote as Record<string, unknown>;
+  const merged: Record<string, unknown> = {};
+
+  const fields = new Set([
+    ...Object.keys(localRecord),
+    ...Object.keys(remoteRecord),
+  ]);
+
+  for (const field of fields) {
+    if (skip.includes(field)) continue;
+
+    const value = mergeValue(
+      baseRecord[field],
+      localRecord[field],
+      remoteRecord[field],
+    );
+
+    if (value === UNRESOLVED) {
+      onConflict(field);
+      merged[field] = localRecord[field];
+    } else if (value !== undefined) {
+      merged[field] = value;
+    }
+  }
+
+  return merged as T;
+}
+
+function mergeById<T>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  getId: (item: T) => string | number,
+  mergeItem: (base: T | undefined, local: T, remote: T) => T,
+  onDeleteConflict: (item: T) => void,
+): T[] {
+  const baseById = new Map(base.map((item) => [getId(item), item]));
+  const localById = new Map(local.map((item) => [getId(item), item]));
+  const remoteById = new Map(remote.map((item) => [getId(item), item]));
+
+  const ids = [...localById.keys()];
+  for (const id of remoteById.keys()) {
+    if (!localById.has(id)) ids.push(id);
+  }
+
+  const merged: T[] = [];
+
+  for (const id of ids) {
+    const b = baseById.get(id);
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+
+    if (l && r) {
+      merged.push(mergeItem(b, l, r));
+      continue;
+    }
+
+    const present = (l ?? r) as T;
+
+    if (!b) {
+      merged.push(present);
+      continue;
+    }
+
+    if (!isSameWcifValue(present, b)) {
+      onDeleteConflict(present);
+      merged.push(present);
+    }
+  }
+
+  return merged;
+}
+
+function assignmentKey(assignment: Assignment): string {
+  return `${assignment.activityId}:${assignment.assignmentCode}`;
+}
+
+function mergePerson(
+  base: Person | undefined,
+  local: Person,
+  remote: Person,
+  conflicts: MergeConflict[],
+): Person {
+  const label = `persons[${local.registrantId}]`;
+
+  const merged = mergeFields(base, local, remote, ['assignments'], (field) =>
+    conflicts.push({
+      kind: 'person',
+      path: `${label}.${field}`,
+      registrantId: local.registrantId,
+      personName: local.name,
+      message: `${local.name} (${local.registrantId}): "${field}" changed both locally and remotely`,
+    }),
+  );
+
+  const assignmentConflict = (assignment: Assignment): void => {
+    conflicts.push({
+      kind: 'assignment',
+      path: `${label}.assignments[${assignmentKey(assignment)}]`,
+      registrantId: local.registrantId,
+      personName: local.name,
+      activityId: assignment.activityId,
+      message: `${local.name} (${local.registrantId}): ${assignment.assignmentCode} assignment for activity ${assignment.activityId} changed both locally and remotely`,
+    });
+  };
+
+  merged.assignments = mergeById(
+    base?.assignments ?? [],
+    local.assignments ?? [],
+    remote.assignments ?? [],
+    assignmentKey,
+    (b, l, r) => {
+      const value = mergeValue(b, l, r);
+      if (value === UNRESOLVED || value === undefined) {
+        assignmentConflict(l);
+        return l;
+      }
+      return value;
+    },
+    assignmentConflict,
+  );
+
+  return merged;
+}
+
+function mergeActivity(
+  base: Activity | undefined,
+  local: Activity,
+  remote: Activity,
+  conflicts: MergeConflict[],
+): Activity {
+  const conflict = (activity: Activity, detail: string): void => {
+    conflicts.push({
+      kind: 'activity',
+      path: `activities[${activity.id}]`,
+      activityId: activity.id,
+      message: `Activity ${activity.id} (${activity.activityCode}): ${detail}`,
+    });
+  };
+
+  const merged = mergeFields(
+    base,
+    local,
+    remote,
+    ['childActivities'],
+    (field) => conflict(local, `"${field}" changed both locally and remotely`),
+  );
+
+  merged.childActivities = mergeActivities(
+    base?.childActivities ?? [],
+    local.childActivities ?? [],
+    remote.childActivities ?? [],
+    conflicts,
+  );
+
+  return merged;
+}
+
+function mergeActivities(
+  base: Activity[],
+  local: Activity[],
+  remote: Activity[],
+  conflicts: MergeConflict[],
+): Activity[] {
+  return mergeById(
+    base,
+    local,
+    remote,
+    (activity) => activity.id,
+    (b, l, r) => mergeActivity(b, l, r, conflicts),
+    (activity) =>
+      conflicts.push({
+        kind: 'activity',
+        path: `activities[${activity.id}]`,
+        activityId: activity.id,
+        message: `Activity ${activity.id} (${activity.activityCode}): deleted on one side and modified on the other`,
+      }),
+  );
+}
+
+function mergeSchedule(
+  base: Schedule | undefined,
+  local: Schedule,
+  remote: Schedule,
+  conflicts: MergeConflict[],
+): Schedule {
+  const scheduleConflict = (path: string): void => {
+    conflicts.push({
+      kind: 'schedule',
+      path,
+      message: `${path} changed both locally and remotely`,
+    });
+  };
+
+  const merged = mergeFields(base, local, remote, ['venues'], (field) =>
+    scheduleConflict(`schedule.${field}`),
+  );
+
+  merged.venues = mergeById<Venue>(
+    base?.venues ?? [],
+    local.venues ?? [],
+    remote.venues ?? [],
+    (venue) => venue.id,
+    (bv, lv, rv) => {
+      const venue = mergeFields(bv, lv, rv, ['rooms'], (field) =>
+        scheduleConflict(`venues[${lv.id}].${field}`),
+      );
+      venue.rooms = mergeById<Room>(
+        bv?.rooms ?? [],
+        lv.rooms ?? [],
+        rv.rooms ?? [],
+        (room) => room.id,
+        (br, lr, rr) => {
+          const room = mergeFields(br, lr, rr, ['activities'], (field) =>
+            scheduleConflict(`rooms[${lr.id}].${field}`),
+          );
+          room.activities = mergeActivities(
+            br?.activities ?? [],
+            lr.activities ?? [],
+            rr.activities ?? [],
+            conflicts,
+          );
+          return room;
+        },
+        (room) => scheduleConflict(`rooms[${room.id}]`),
+      );
+      return venue;
+    },
+    (venue) => scheduleConflict(`venues[${venue.id}]`),
+  );
+
+  return merged;
+}
+
+export function mergeWcif(
+  base: Competition,
+  local: Competition,
+  remote: Competition,
+): MergeResult {
+  const conflicts: MergeConflict[] = [];
+
+  const merged = mergeFields(
+    base,
+    local,
+    remote,
+    ['persons', 'schedule'],
+    (field) =>
+      conflicts.push({
+        kind: 'wcif',
+        path: field,
+        message: `"${field}" changed both locally and remotely`,
+      }),
+  );
+
+  merged.persons = mergeById(
+    base.persons ?? [],
+    local.persons ?? [],
+    remote.persons ?? [],
+    (person) => person.registrantId,
+    (b, l, r) => mergePerson(b, l, r, conflicts),
+    (person) =>
+      conflicts.push({
+        kind: 'person',
+        path: `persons[${person.registrantId}]`,
+        registrantId: person.registrantId,
+        personName: person.name,
+        message: `${person.name} (${person.registrantId}): removed on one side and modified on the other`,
+      }),
+  );
+
+  merged.schedule = mergeSchedule(
+    base.schedule,
+    local.schedule,
+    remote.schedule,
+    conflicts,
+  );
+
+  return { merged, conflicts };
+}
+
+export function formatMergeConflicts(conflicts: MergeConflict[]): string {
+  const registrants = new Set(
+    conflicts
+      .filter((c) => c.registrantId !== undefined)
+      .map((c) => `${c.personName} (${c.registrantId})`),
+  );
+  const activities = new Set(
+    conflicts
+      .filter((c) => c.activityId !== undefined)
+      .map((c) => c.activityId),
+  );
+
+  const lines = [
+    `${conflicts.length} conflict(s) between local and remote WCIF:`,
+    ...conflicts.map((c) => `  - ${c.message}`),
+  ];
+  if (registrants.size > 0) {
+    lines.push(`Affected registrants: ${[...registrants].join(', ')}`);
+  }
+  if (activities.size > 0) {
+    lines.push(`Affected activities: ${[...activities].join(', ')}`);
+  }
+  return lines.join('\n');
+}
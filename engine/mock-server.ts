@@ -0,0 +1,224 @@
+import type { Competition, Person } from '@/lib/types/wcif';
+
+export type MockRoute = 'wcif' | 'patch' | 'token';
+
+export interface MockRequest {
+  method: string;
+
+  path: string;
+
+  status: number;
+
+  body?: unknown;
+}
+
+export interface MockWcaServerOptions {
+  port?: number;
+
+  competitions?: Competition[];
+
+  tokenLifetime?: number;
+}
+
+export interface MockWcaServer {
+  readonly url: string;
+
+  readonly competitions: Map<string, Competition>;
+
+  readonly requests: MockRequest[];
+
+  fail(route: MockRoute, status: number, times?: number): void;
+
+  expireTokens(): void;
+
+  stop(): void;
+}
+
+interface InjectedFailure {
+  status: number;
+  remaining: number;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function mergePersons(existing: Person[], patch: Person[]): Person[] {
+  const merged = [...existing];
+  for (const person of patch) {
+    const index = merged.findIndex(
+      (p) => p.registrantId === person.registrantId,
+    );
+    if (index === -1) {
+      merged.push(person);
+    } else {
+      merged[index] = { ...merged[index], ...person } as Person;
+    }
+  }
+  return merged;
+}
+
+export function startMockWcaServer(
+  options: MockWcaServerOptions = {},
+): MockWcaServer {
+  const competitions = new Map(
+    (options.competitions ?? []).map((c) => [c.id, structuredClone(c)]),
+  );
+  const requests: MockRequest[] = [];
+  const failures = new Map<MockRoute, InjectedFailure[]>();
+  const accessTokens = new Set<string>();
+  const tokenLifetime = options.tokenLifetime ?? 7200;
+  let tokenCounter = 0;
+
+  const takeFailure = (route: MockRoute): number | null => {
+    const queue = failures.get(route);
+    const next = queue?.[0];
+    if (!queue || !next) return null;
+    next.remaining--;
+    if (next.remaining <= 0) queue.shift();
+    return next.status;
+  };
+
+  const failureResponse = (status: number): Response =>
+    json({ error: `Injected failure ${status}` }, status);
+
+  const fail = (route: MockRoute, status: number, times = 1): void => {
+    const queue = failures.get(route) ?? [];
+    queue.push({ status, remaining: times });
+    failures.set(route, queue);
+  };
+
+  const issueTokens = (): Response => {
+    tokenCounter++;
+    const accessToken = `mock-access-token-${tokenCounter}`;
+    accessTokens.add(accessToken);
+    return json({
+      access_token: accessToken,
+      refresh_token: `mock-refresh-token-${tokenCounter}`,
+      token_type: 'Bearer',
+      expires_in: tokenLifetime,
+      scope: 'public manage_competitions',
+    });
+  };
+
+  const isAuthorized = (req: Request): boolean => {
+    const header = req.headers.get('Authorization') ?? '';
+    return accessTokens.has(header.replace(/^Bearer /, ''));
+  };
+
+  const handle = async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    const path = url.pathname;
+
+    if (path === '/__mock/fail' && req.method === 'POST') {
+      const { route, status, times } = (await req.json()) as {
+        route: MockRoute;
+        status: number;
+        times?: number;
+      };
+      fail(route, status, times);
+      return json({ ok: true });
+    }
+
+    if (path === '/__mock/expire' && req.method === 'POST') {
+      accessTokens.clear();
+      return json({ ok: true });
+    }
+
+    if (path === '/oauth/authorize') {
+      const redirectUri = url.searchParams.get('redirect_uri');
+      if (!redirectUri) return json({ error: 'invalid_request' }, 400);
+      const redirect = new URL(redirectUri);
+      redirect.searchParams.set('code', 'mock-authorization-code');
+      const state = url.searchParams.get('state');
+      if (state) redirect.searchParams.set('state', state);
+      return Response.redirect(redirect.href, 302);
+    }
+
+    if (path === '/oauth/token' && req.method === 'POST') {
+      const failure = takeFailure('token');
+      if (failure) return failureResponse(failure);
+
+      const form = new URLSearchParams(await req.text());
+      const grantType = form.get('grant_type');
+      if (grantType === 'authorization_code') return issueTokens();
+      if (grantType === 'refresh_token' && form.get('refresh_token')) {
+        return issueTokens();
+      }
+      return json({ error: 'invalid_grant' }, 400);
+    }
+
+    if (path === '/api/v0/me') {
+      if (!isAuthorized(req)) return json({ error: 'Not authorized' }, 401);
+      return json({ me: { id: 1, name: 'Mock User' } });
+    }
+
+    const match = path.match(
+      /^\/api\/v0\/competitions\/([^/]+)\/wcif(\/public)?$/,
+    );
+    if (!match) return json({ error: 'Not found' }, 404);
+
+    const competitionId = match[1] as string;
+    const isPublic = match[2] !== undefined;
+    const competition = competitions.get(competitionId);
+
+    if (req.method === 'GET') {
+      const failure = takeFailure('wcif');
+      if (failure) return failureResponse(failure);
+      if (!isPublic && !isAuthorized(req)) {
+        return json({ error: 'Not authorized' }, 401);
+      }
+      if (!competition) return json({ error: 'Competition not found' }, 404);
+      return json(competition);
+    }
+
+    if (req.method === 'PATCH' && !isPublic) {
+      const failure = takeFailure('patch');
+      if (failure) return failureResponse(failure);
+      if (!isAuthorized(req)) return json({ error: 'Not authorized' }, 401);
+      if (!competition) return json({ error: 'Competition not found' }, 404);
+
+      const patch = (await req.json()) as Partial<Competition>;
+      const updated: Competition = { ...competition, ...patch };
+      if (patch.persons) {
+        updated.persons = mergePersons(competition.persons, patch.persons);
+      }
+      competitions.set(competitionId, updated);
+      return json(updated);
+    }
+
+    return json({ error: 'Method not allowed' }, 405);
+  };
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    async fetch(req) {
+      const body =
+        req.method === 'PATCH' ? await req.clone().json() : undefined;
+      const res = await handle(req);
+      requests.push({
+        method: req.method,
+        path: new URL(req.url).pathname,
+        status: res.status,
+        body,
+      });
+      return res;
+    },
+  });
+
+  return {
+    url: `http://localhost:${server.port}`,
+    competitions,
+    requests,
+    fail,
+    expireTokens() {
+      accessTokens.clear();
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import { describe, expect, test } from 'bun:test';
+import type { Activity, Competition, Person } from '@/lib/types/wcif';
+import {
+  addActivity,
+  addAssignment,
+  createMutationTracker,
+  removeAssignments,
+  replaceChildActivities,
+  summarizeMutations,
+  updateActivity,
+  writeExtension,
+} from './mutations';
+
+function activity(id: number, activityCode: string): Activity {
+  return {
+    id,
+    name: activityCode,
+    activityCode,
+    startTime: '2026-03-01T10:00:00Z',
+    endTime: '2026-03-01T11:00:00Z',
+    childActivities: [],
+    extensions: [],
+  };
+}
+
+function context() {
+  const round = activity(1, '333-r1');
+  round.childActivities = [activity(2, '333-r1-g1')];
+  const competition = {
+    id: 'Mutations2026',
+    persons: [{ registrantId: 1, name: 'Person 1', assignments: [] }],
+    events: [],
+    schedule: {
+      venues: [{ rooms: [{ id: 1, name: 'Room A', activities: [round] }] }],
+    },
+  } as unknown as Competition;
+
+  return {
+    ctx: { competition, mutations: createMutationTracker() },
+    person: competition.persons[0] as Person,
+    round,
+  };
+}
+
+describe('mutation helpers', () => {
+  test('tracks assignments with the activity code they belong to', () => {
+    const { ctx, person } = context();
+
+    addAssignment(ctx, person, {
+      activityId: 2,
+      assignmentCode: 'competitor',
+      stationNumber: null,
+    });
+    addAssignment(ctx, person, {
+      activityId: 2,
+      assignmentCode: 'staff-judge',
+      stationNumber: 1,
+    });
+    const removed = removeAssignments(
+      ctx,
+      person,
+      (a) => a.assignmentCode === 'staff-judge',
+    );
+
+    expect(removed).toBe(1);
+    expect(person.assignments).toEqual([
+      { activityId: 2, assignmentCode: 'competitor', stationNumber: null },
+    ]);
+    expect(ctx.mutations.assignments).toMatchObject([
+      { type: 'create', registrantId: 1, activityCode: '333-r1-g1' },
+      { type: 'create', registrantId: 1, activityCode: '333-r1-g1' },
+      { type: 'delete', registrantId: 1, activityCode: '333-r1-g1' },
+    ]);
+    expect(summarizeMutations(ctx.mutations)).toEqual([
+      '+1 competitor assignment in 333-r1',
+    ]);
+  });
+
+  test('tracks group replacement and activity changes per room', () => {
+    const { ctx, round } = context();
+    const room = ctx.competition.schedule.venues[0]?.rooms[0];
+    if (!room) throw new Error('missing room');
+
+    replaceChildActivities(
+      ctx,
+      round,
+      [activity(3, '333-r1-g1'), activity(4, '333-r1-g2')],
+      room.name,
+    );
+    addActivity(ctx, room, activity(5, 'other-lunch'));
+    updateActivity(ctx, round, { endTime: '2026-03-01T11:30:00Z' }, room.name);
+    writeExtension(ctx, round, 'RoundConfig', { groupCount: 2 });
+    writeExtension(ctx, round, 'RoundConfig', { groupCount: 3 });
+
+    expect(round.childActivities.map((a) => a.id)).toEqual([3, 4]);
+    expect(round.endTime).toBe('2026-03-01T11:30:00Z');
+    expect(ctx.mutations.extensions.map((m) => m.type)).toEqual([
+      'create',
+      'update',
+    ]);
+    expect(summarizeMutations(ctx.mutations)).toEqual([
+      '2 groups created in Room A',
+      '1 group removed in Room A',
+      '1 activity created in Room A',
+      '1 activity rescheduled',
+      '2 extension writes (groupifier.RoundConfig)',
+    ]);
+  });
+
+  test('omits changes that cancel out from the summary', () => {
+    const { ctx, person } = context();
+    const assignment = {
+      activityId: 2,
+      assignmentCode: 'competitor',
+      stationNumber: null,
+    };
+
+    addAssignment(ctx, person, assignment);
+    removeAssignments(ctx, person, () => true);
+
+    expect(ctx.mutations.assignments).toHaveLength(2);
+    expect(summarizeMutations(ctx.mutations)).toEqual([]);
+  });
+});
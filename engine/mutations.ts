@@ -1,10 +1,29 @@
-import type { Activity, Competition, Person } from '@/lib/types/wcif';
+import {
+  GROUPIFIER_EXTENSION_PREFIX,
+  setExtensionData,
+} from '@/lib/functions/extensions';
+import { getActivityById } from '@/lib/functions/groups-helpers';
+import type {
+  Activity,
+  Assignment,
+  Competition,
+  Person,
+  RegistrantId,
+  Room,
+} from '@/lib/types/wcif';
+import { extractRoundId } from '@/lib/utils/activity-utils';
 
 export interface MutationTracker {
   persons: PersonMutation[];
   schedule: ScheduleMutation[];
   events: EventMutation[];
   extensions: ExtensionMutation[];
+  assignments: AssignmentMutation[];
+}
+
+interface MutationContext {
+  competition: Competition;
+  mutations: MutationTracker;
 }
 
 export interface PersonMutation {
@@ -17,6 +36,7 @@ export interface ScheduleMutation {
   type: 'create' | 'update' | 'delete';
   activity: Activity;
   changes?: Partial<Activity>;
+  roomName?: string;
 }
 
 export interface EventMutation {
@@ -29,6 +49,14 @@ export interface ExtensionMutation {
   type: 'create' | 'update' | 'delete';
   extensionId: string;
   data: unknown;
+  target?: string;
+}
+
+export interface AssignmentMutation {
+  type: 'create' | 'delete';
+  registrantId: RegistrantId;
+  assignment: Assignment;
+  activityCode: string;
 }
 
 export function createMutationTracker(): MutationTracker {
@@ -37,6 +65,7 @@ export function createMutationTracker(): MutationTracker {
     schedule: [],
     events: [],
     extensions: [],
+    assignments: [],
   };
 }
 
@@ -68,6 +97,271 @@ export function trackExtensionMutation(
   tracker.extensions.push(mutation);
 }
 
+export function trackAssignmentMutation(
+  tracker: MutationTracker,
+  mutation: AssignmentMutation,
+): void {
+  tracker.assignments.push(mutation);
+}
+
+function activityCodeFor(competition: Competition, activityId: number): string {
+  return getActivityById(competition, activityId)?.activityCode ?? '';
+}
+
+export function addAssignment(
+  ctx: MutationContext,
+  person: Person,
+  assignment: Assignment,
+  activityCode?: string,
+): void {
+  if (!person.assignments) person.assignments = [];
+  person.assignments.push(assignment);
+
+  trackAssignmentMutation(ctx.mutations, {
+    type: 'create',
+    registrantId: person.registrantId,
+    assignment,
+    activityCode:
+      activityCode ?? activityCodeFor(ctx.competition, assignment.activityId),
+  });
+}
+
+export function removeAssignments(
+  ctx: MutationContext,
+  person: Person,
+  predicate: (assignment: Assignment) => boolean,
+): number {
+  const removed: Assignment[] = [];
+  person.assignments = (person.assignments ?? []).filter((assignment) => {
+    if (!predicate(assignment)) return true;
+    removed.push(assignment);
+    return false;
+  });
+
+  for (const assignment of removed) {
+    trackAssignmentMutation(ctx.mutations, {
+      type: 'delete',
+      registrantId: person.registrantId,
+      assignment,
+      activityCode: activityCodeFor(ctx.competition, assignment.activityId),
+    });
+  }
+
+  return removed.length;
+}
+
+export function addActivity(
+  ctx: MutationContext,
+  room: Room,
+  activity: Activity,
+): void {
+  if (!room.activities) room.activities = [];
+  room.activities.push(activity);
+
+  trackScheduleMutation(ctx.mutations, {
+    type: 'create',
+    activity,
+    roomName: room.name,
+  });
+}
+
+export function updateActivity(
+  ctx: MutationContext,
+  activity: Activity,
+  changes: Partial<Activity>,
+  roomName?: string,
+): void {
+  Object.assign(activity, changes);
+  trackScheduleMutation(ctx.mutations, {
+    type: 'update',
+    activity,
+    changes,
+    roomName,
+  });
+}
+
+export function replaceChildActivities(
+  ctx: MutationContext,
+  parent: Activity,
+  children: Activity[],
+  roomName: string,
+): void {
+  const previous = parent.childActivities ?? [];
+  parent.childActivities = children;
+
+  for (const activity of previous) {
+    trackScheduleMutation(ctx.mutations, {
+      type: 'delete',
+      activity,
+      roomName,
+    });
+  }
+
+  for (const activity of children) {
+    trackScheduleMutation(ctx.mutations, {
+      type: 'create',
+      activity,
+      roomName,
+    });
+  }
+}
+
+export function writeExtension<T>(
+  ctx: MutationContext,
+  entity: Parameters<typeof setExtensionData>[1],
+  extensionName: string,
+  data: T,
+  prefix: string = GROUPIFIER_EXTENSION_PREFIX,
+  target?: string,
+): void {
+  const extensionId = `${prefix}${extensionName}`;
+  const existed = (entity.extensions ?? []).some(
+    (ext) => ext.id === extensionId,
+  );
+
+  setExtensionData(extensionName, entity, data, prefix);
+
+  trackExtensionMutation(ctx.mutations, {
+    type: existed ? 'update' : 'create',
+    extensionId,
+    data,
+    target,
+  });
+}
+
+function roundLabel(activityCode: string): string {
+  return extractRoundId(activityCode) ?? (activityCode || 'unknown activity');
+}
+
+function plural(count: number, singular: string, pluralForm?: string): string {
+  return `${count} ${count === 1 ? singular : (pluralForm ?? `${singular}s`)}`;
+}
+
+export function summarizeMutations(tracker: MutationTracker): string[] {
+  const lines: string[] = [];
+
+  const netAssignments = new Map<
+    string,
+    { net: number; mutation: AssignmentMutation }
+  >();
+  for (const mutation of tracker.assignments) {
+    const key = `${mutation.registrantId}|${mutation.assignment.activityId}|${mutation.assignment.assignmentCode}`;
+    const entry = netAssignments.get(key) ?? { net: 0, mutation };
+    entry.net += mutation.type === 'create' ? 1 : -1;
+    entry.mutation = mutation;
+    netAssignments.set(key, entry);
+  }
+
+  const assignmentCounts = new Map<
+    string,
+    { added: number; removed: number }
+  >();
+  for (const { net, mutation } of netAssignments.values()) {
+    if (net === 0) continue;
+    const kind =
+      mutation.assignment.assignmentCode === 'competitor'
+        ? 'competitor'
+        : 'staff';
+    const key = `${kind}|${roundLabel(mutation.activityCode)}`;
+    const counts = assignmentCounts.get(key) ?? { added: 0, removed: 0 };
+    if (net > 0) counts.added++;
+    else counts.removed++;
+    assignmentCounts.set(key, counts);
+  }
+
+  for (const [key, counts] of assignmentCounts) {
+    const [kind, round] = key.split('|');
+    if (counts.added > 0) {
+      lines.push(`+${plural(counts.added, `${kind} assignment`)} in ${round}`);
+    }
+    if (counts.removed > 0) {
+      lines.push(
+        `${plural(counts.removed, `${kind} assignment`)} removed in ${round}`,
+      );
+    }
+  }
+
+  const netActivities = new Map<
+    number,
+    { net: number; mutation: ScheduleMutation }
+  >();
+  for (const mutation of tracker.schedule) {
+    if (mutation.type === 'update') continue;
+    const entry = netActivities.get(mutation.activity.id) ?? {
+      net: 0,
+      mutation,
+    };
+    entry.net += mutation.type === 'create' ? 1 : -1;
+    entry.mutation = mutation;
+    netActivities.set(mutation.activity.id, entry);
+  }
+
+  const activityCounts = new Map<
+    string,
+    { created: number; removed: number }
+  >();
+  for (const { net, mutation } of netActivities.values()) {
+    if (net === 0) continue;
+    const kind = mutation.activity.activityCode.includes('-g')
+      ? 'group'
+      : 'activity';
+    const key = `${kind}|${mutation.roomName ?? 'unknown room'}`;
+    const counts = activityCounts.get(key) ?? { created: 0, removed: 0 };
+    if (net > 0) counts.created++;
+    else counts.removed++;
+    activityCounts.set(key, counts);
+  }
+
+  for (const [key, counts] of activityCounts) {
+    const [kind, room] = key.split('|');
+    const pluralKind = kind === 'activity' ? 'activities' : undefined;
+    if (counts.created > 0) {
+      lines.push(
+        `${plural(counts.created, kind ?? 'activity', pluralKind)} created in ${room}`,
+      );
+    }
+    if (counts.removed > 0) {
+      lines.push(
+        `${plural(counts.removed, kind ?? 'activity', pluralKind)} removed in ${room}`,
+      );
+    }
+  }
+
+  const scheduleUpdates = new Set(
+    tracker.schedule
+      .filter((m) => m.type === 'update')
+      .map((m) => m.activity.id),
+  );
+  if (scheduleUpdates.size > 0) {
+    lines.push(
+      `${plural(scheduleUpdates.size, 'activity', 'activities')} rescheduled`,
+    );
+  }
+
+  const updatedEvents = new Set(tracker.events.map((m) => m.eventId));
+  if (updatedEvents.size > 0) {
+    lines.push(
+      `${plural(updatedEvents.size, 'event')} updated (${[...updatedEvents].join(', ')})`,
+    );
+  }
+
+  const extensionIds = new Set(tracker.extensions.map((m) => m.extensionId));
+  if (tracker.extensions.length > 0) {
+    lines.push(
+      `${plural(tracker.extensions.length, 'extension write')} (${[...extensionIds].join(', ')})`,
+    );
+  }
+
+  const personUpdates = new Set(
+    tracker.persons.map((m) => m.person.registrantId),
+  );
+  if (personUpdates.size > 0) {
+    lines.push(`${plural(personUpdates.size, 'person')} updated`);
+  }
+
+  return lines;
+}
+
 export function applyMutations(
   competition: Competition,
   tracker: MutationTracker,
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FilesystemStorage } from './filesystem';
+
+let dir: string;
+let storage: FilesystemStorage;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'typecomp-storage-'));
+  storage = new FilesystemStorage(dir);
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('FilesystemStorage', () => {
+  test('saves, loads and lists documents by prefix', async () => {
+    await storage.save('history/Comp2026/a', { n: 1 });
+    await storage.save('history/Comp2026/b', { n: 2 });
+    await storage.save('local-wcif/Comp2026', { n: 3 });
+
+    expect(await storage.load<{ n: number }>('history/Comp2026/b')).toEqual({
+      n: 2,
+    });
+    expect(await storage.load('missing')).toBeNull();
+    expect(await storage.list('history/Comp2026/')).toEqual([
+      'history/Comp2026/a',
+      'history/Comp2026/b',
+    ]);
+  });
+
+  test('times out while another process holds the lock', async () => {
+    const release = await storage.lock('local-wcif/Comp2026');
+
+    await expect(
+      storage.lock('local-wcif/Comp2026', { timeoutMs: 200 }),
+    ).rejects.toMatchObject({ code: 'STORAGE_LOCKED' });
+
+    await release();
+    const again = await storage.lock('local-wcif/Comp2026', { timeoutMs: 200 });
+    await again();
+  });
+
+  test('takes over a stale lock', async () => {
+    const lockPath = join(dir, 'Comp2026.lock');
+    writeFileSync(lockPath, '1\n');
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(lockPath, old, old);
+
+    const release = await storage.lock('Comp2026', {
+      timeoutMs: 200,
+      staleMs: 10_000,
+    });
+    await release();
+  });
+});
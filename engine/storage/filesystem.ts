@@ -0,0 +1,113 @@
+import type { Dirent } from 'node:fs';
+import { mkdir, open, readdir, stat, unlink } from 'node:fs/promises';
+import { dirname, join, relative, resolve } from 'node:path';
+import { TypeCompError } from '@/lib/utils/validation';
+import {
+  DEFAULT_LOCK_STALE_MS,
+  DEFAULT_LOCK_TIMEOUT_MS,
+  type LockOptions,
+  type ReleaseLock,
+  type StorageBackend,
+} from './types';
+
+async function listFiles(dir: string): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(path)));
+    } else {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+export class FilesystemStorage implements StorageBackend {
+  readonly name = 'filesystem';
+
+  readonly root: string;
+
+  constructor(root: string = resolve(process.cwd(), '.typecomp')) {
+    this.root = resolve(root);
+  }
+
+  private pathFor(key: string): string {
+    return join(this.root, `${key}.json`);
+  }
+
+  async load<T>(key: string): Promise<T | null> {
+    const file = Bun.file(this.pathFor(key));
+
+    if (await file.exists()) {
+      return (await file.json()) as T;
+    }
+
+    return null;
+  }
+
+  async save(key: string, value: unknown): Promise<void> {
+    await Bun.write(this.pathFor(key), JSON.stringify(value, null, 2));
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const dir = join(this.root, dirname(`${prefix}x`));
+    const files = await listFiles(dir);
+
+    return files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => relative(this.root, file).slice(0, -'.json'.length))
+      .map((key) => key.split('\\').join('/'))
+      .filter((key) => key.startsWith(prefix))
+      .sort();
+  }
+
+  async lock(key: string, options: LockOptions = {}): Promise<ReleaseLock> {
+    const lockPath = join(this.root, `${key}.lock`);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+    const staleMs = options.staleMs ?? DEFAULT_LOCK_STALE_MS;
+    const deadline = Date.now() + timeoutMs;
+
+    await mkdir(dirname(lockPath), { recursive: true });
+
+    while (true) {
+      try {
+        const handle = await open(lockPath, 'wx');
+        await handle.writeFile(`${process.pid}\n`);
+        await handle.close();
+        return async () => {
+          await unlink(lockPath).catch(() => {});
+        };
+      } catch (error: unknown) {
+        if ((error as { code?: string }).code !== 'EEXIST') throw error;
+      }
+
+      const info = await stat(lockPath).catch(() => null);
+      if (info && Date.now() - info.mtimeMs > staleMs) {
+        await unlink(lockPath).catch(() => {});
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new TypeCompError(
+          `Timed out waiting for lock on "${key}" (${lockPath})`,
+          'STORAGE_LOCKED',
+          { key, lockPath },
+        );
+      }
+
+      await new Promise((r) => setTimeout(r, 100));
+    }
+  }
+
+  location(key: string): string {
+    return this.pathFor(key);
+  }
+}
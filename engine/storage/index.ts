@@ -0,0 +1,48 @@
+import { resolve } from 'node:path';
+import { TypeCompError } from '@/lib/utils/validation';
+import { FilesystemStorage } from './filesystem';
+import { MemoryStorage } from './memory';
+import { SqliteStorage } from './sqlite';
+import type { StorageBackend } from './types';
+
+export { FilesystemStorage } from './filesystem';
+export { MemoryStorage } from './memory';
+export { SqliteStorage } from './sqlite';
+export type { LockOptions, ReleaseLock, StorageBackend } from './types';
+
+let defaultStorage: StorageBackend | null = null;
+
+export function createStorage(spec: string): StorageBackend {
+  const [kind, ...rest] = spec.split(':');
+  const target = rest.join(':');
+
+  switch (kind) {
+    case 'fs':
+    case 'filesystem':
+      return new FilesystemStorage(target || undefined);
+    case 'memory':
+      return new MemoryStorage();
+    case 'sqlite':
+      return new SqliteStorage(
+        target || resolve(process.cwd(), '.typecomp', 'typecomp.sqlite'),
+      );
+    default:
+      throw new TypeCompError(
+        `Unknown storage backend "${spec}". Expected fs[:dir], memory or sqlite[:path]`,
+        'INVALID_STORAGE',
+        { spec },
+      );
+  }
+}
+
+export function getDefaultStorage(): StorageBackend {
+  if (!defaultStorage) {
+    const spec = process.env.TYPECOMP_STORAGE;
+    defaultStorage = spec ? createStorage(spec) : new FilesystemStorage();
+  }
+  return defaultStorage;
+}
+
+export function setDefaultStorage(storage: StorageBackend): void {
+  defaultStorage = storage;
+}
@@ -0,0 +1,47 @@
+import type { ReleaseLock, StorageBackend } from './types';
+
+export class MemoryStorage implements StorageBackend {
+  readonly name = 'memory';
+
+  private readonly documents = new Map<string, string>();
+
+  private readonly locks = new Map<string, Promise<void>>();
+
+  async load<T>(key: string): Promise<T | null> {
+    const value = this.documents.get(key);
+    return value === undefined ? null : (JSON.parse(value) as T);
+  }
+
+  async save(key: string, value: unknown): Promise<void> {
+    this.documents.set(key, JSON.stringify(value));
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return [...this.documents.keys()]
+      .filter((key) => key.startsWith(prefix))
+      .sort();
+  }
+
+  async lock(key: string): Promise<ReleaseLock> {
+    while (this.locks.has(key)) {
+      await this.locks.get(key);
+    }
+
+    let release!: () => void;
+    this.locks.set(
+      key,
+      new Promise<void>((resolve) => {
+        release = resolve;
+      }),
+    );
+
+    return async () => {
+      this.locks.delete(key);
+      release();
+    };
+  }
+
+  location(key: string): string {
+    return `memory:${key}`;
+  }
+}
@@ -0,0 +1,102 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { TypeCompError } from '@/lib/utils/validation';
+import {
+  DEFAULT_LOCK_STALE_MS,
+  DEFAULT_LOCK_TIMEOUT_MS,
+  type LockOptions,
+  type ReleaseLock,
+  type StorageBackend,
+} from './types';
+
+export class SqliteStorage implements StorageBackend {
+  readonly name = 'sqlite';
+
+  readonly path: string;
+
+  private readonly db: Database;
+
+  constructor(path: string) {
+    this.path = path === ':memory:' ? path : resolve(path);
+    if (this.path !== ':memory:') {
+      mkdirSync(dirname(this.path), { recursive: true });
+    }
+
+    this.db = new Database(this.path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('PRAGMA busy_timeout = 5000');
+    this.db.exec(
+      'CREATE TABLE IF NOT EXISTS documents (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at TEXT NOT NULL)',
+    );
+    this.db.exec(
+      'CREATE TABLE IF NOT EXISTS locks (key TEXT PRIMARY KEY, owner TEXT NOT NULL, acquired_at INTEGER NOT NULL)',
+    );
+  }
+
+  async load<T>(key: string): Promise<T | null> {
+    const row = this.db
+      .query<{ value: string }, [string]>(
+        'SELECT value FROM documents WHERE key = ?',
+      )
+      .get(key);
+    return row ? (JSON.parse(row.value) as T) : null;
+  }
+
+  async save(key: string, value: unknown): Promise<void> {
+    this.db
+      .query(
+        'INSERT INTO documents (key, value, updated_at) VALUES (?, ?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at',
+      )
+      .run(key, JSON.stringify(value), new Date().toISOString());
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return this.db
+      .query<{ key: string }, [string]>(
+        'SELECT key FROM documents WHERE substr(key, 1, length(?1)) = ?1 ORDER BY key',
+      )
+      .all(prefix)
+      .map((row) => row.key);
+  }
+
+  async lock(key: string, options: LockOptions = {}): Promise<ReleaseLock> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+    const staleMs = options.staleMs ?? DEFAULT_LOCK_STALE_MS;
+    const deadline = Date.now() + timeoutMs;
+    const owner = `${process.pid}-${crypto.randomUUID()}`;
+
+    const acquire = this.db.transaction((now: number): boolean => {
+      this.db
+        .query('DELETE FROM locks WHERE key = ? AND acquired_at < ?')
+        .run(key, now - staleMs);
+      const result = this.db
+        .query(
+          'INSERT OR IGNORE INTO locks (key, owner, acquired_at) VALUES (?, ?, ?)',
+        )
+        .run(key, owner, now);
+      return result.changes > 0;
+    });
+
+    while (!acquire(Date.now())) {
+      if (Date.now() > deadline) {
+        throw new TypeCompError(
+          `Timed out waiting for lock on "${key}" (${this.path})`,
+          'STORAGE_LOCKED',
+          { key, path: this.path },
+        );
+      }
+      await new Promise((r) => setTimeout(r, 100));
+    }
+
+    return async () => {
+      this.db
+        .query('DELETE FROM locks WHERE key = ? AND owner = ?')
+        .run(key, owner);
+    };
+  }
+
+  location(key: string): string {
+    return `${this.path}#${key}`;
+  }
+}
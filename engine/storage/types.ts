@@ -0,0 +1,25 @@
+export type ReleaseLock = () => Promise<void>;
+
+export interface LockOptions {
+  timeoutMs?: number;
+
+  staleMs?: number;
+}
+
+export interface StorageBackend {
+  readonly name: string;
+
+  load<T>(key: string): Promise<T | null>;
+
+  save(key: string, value: unknown): Promise<void>;
+
+  list(prefix: string): Promise<string[]>;
+
+  lock(key: string, options?: LockOptions): Promise<ReleaseLock>;
+
+  location(key: string): string;
+}
+
+export const DEFAULT_LOCK_TIMEOUT_MS = 30_000;
+
+export const DEFAULT_LOCK_STALE_MS = 5 * 60_000;
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { createStoragePersistence, type PersistenceHooks } from '@/engine';
+import { addAssignment } from '@/engine/mutations';
+import { MemoryStorage } from '@/engine/storage';
+import type { Competition, Person } from '@/lib/types/wcif';
+import { createTypeComp, createTypeCompFromWcif } from './context';
+
+function competition(): Competition {
+  return {
+    id: 'Context2026',
+    name: 'Context 2026',
+    persons: [
+      {
+        registrantId: 1,
+        name: 'Person 1',
+        registration: { eventIds: ['333'], status: 'accepted' },
+        assignments: [],
+        extensions: [],
+      },
+    ],
+    events: [{ id: '333', rounds: [{ id: '333-r1', scrambleSetCount: 1 }] }],
+    schedule: {
+      startDate: '2026-03-01',
+      numberOfDays: 1,
+      venues: [
+        {
+          id: 1,
+          rooms: [
+            {
+              id: 1,
+              name: 'Room A',
+              activities: [
+                {
+                  id: 1,
+                  name: '333 Round 1',
+                  activityCode: '333-r1',
+                  startTime: '2026-03-01T10:00:00Z',
+                  endTime: '2026-03-01T11:00:00Z',
+                  childActivities: [],
+                  extensions: [],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+    extensions: [],
+  } as unknown as Competition;
+}
+
+function assignCompetitor(person: Person | undefined): void {
+  if (!person) throw new Error('missing person');
+  person.assignments?.push({
+    activityId: 1,
+    assignmentCode: 'competitor',
+    stationNumber: null,
+  });
+}
+
+let log: ReturnType<typeof spyOn<Console, 'log'>>;
+
+beforeEach(() => {
+  log = spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  log.mockRestore();
+});
+
+describe('createTypeCompFromWcif', () => {
+  test('saves and commits through the persistence hooks', async () => {
+    const saved: Competition[] = [];
+    const committed: Competition[] = [];
+    const persistence: PersistenceHooks = {
+      save: async (wcif, competitionId, revision) => {
+        expect(competitionId).toBe('Context2026');
+        expect(revision).toMatchObject({ label: 'groups', seed: 3 });
+        saved.push(structuredClone(wcif));
+      },
+      commit: async (wcif, _competitionId, base) => {
+        expect(base?.persons[0]?.assignments).toEqual([]);
+        committed.push(structuredClone(wcif));
+        return { ...wcif, name: 'Pushed 2026' };
+      },
+    };
+    const tc = await createTypeCompFromWcif(competition(), {
+      seed: 3,
+      label: 'groups',
+      commit: true,
+      persistence,
+    });
+
+    const person = tc.competition.persons[0] as Person;
+    addAssignment(tc.ctx, person, {
+      activityId: 1,
+      assignmentCode: 'competitor',
+      stationNumber: null,
+    });
+    await tc.save('groups');
+    await tc.commit();
+
+    expect(saved).toHaveLength(2);
+    expect(saved[0]?.persons[0]?.assignments).toHaveLength(1);
+    expect(committed[0]).toEqual(saved[0] as Competition);
+    expect(tc.competition.name).toBe('Pushed 2026');
+    expect(tc.ctx.base).toEqual(tc.competition);
+  });
+
+  test('keeps the WCIF in memory without hooks', async () => {
+    const tc = await createTypeCompFromWcif(competition());
+
+    assignCompetitor(tc.competition.persons[0]);
+    await tc.commit();
+
+    expect(tc.dryRun).toBe(true);
+    expect(log).toHaveBeenCalledWith('Dry run - WCIF kept in memory only');
+  });
+
+  test('round-trips a saved WCIF through storage persistence', async () => {
+    const storage = new MemoryStorage();
+    const tc = await createTypeCompFromWcif(competition(), {
+      persistence: createStoragePersistence(storage),
+    });
+
+    assignCompetitor(tc.competition.persons[0]);
+    await tc.save('groups');
+
+    const reloaded = await createTypeComp('Context2026', { storage });
+
+    expect(reloaded.competition).toEqual(tc.competition);
+    expect(reloaded.competition.persons[0]?.assignments).toHaveLength(1);
+  });
+});
@@ -1,18 +1,39 @@
 import {
+  type ContextOptions,
+  createContextFromWcif,
   createContext as createEngineContext,
   type ExecutionContext,
-  type TypeCompOptions,
 } from '@/engine';
 import {
   deduplicateGroups,
   getGroupsForRound,
+  lateRegistrantsForRound,
 } from '../functions/groups-helpers';
-import type { Group, Person } from '../types/core';
+import type { Solver } from '../solvers/solver';
+import type { Group, Person, Scorer } from '../types/core';
 import type { Competition, RegistrantId } from '../types/wcif';
+import {
+  type Explanation,
+  explainAssignment,
+  type PersonRef,
+  recordedScorerOptions,
+} from './explain';
 import type { PersonFilter } from './filters';
 import { registered } from './filters';
+import { defaultGroupScorers } from './presets/scorers';
+import {
+  clearProvisional,
+  type ProjectedAdvancement,
+  type ProvisionalClearResult,
+  projectAdvancement,
+} from './projection';
 import { RoundBuilder } from './round-builder';
 import { StaffBuilder } from './staff-builder';
+import {
+  handleWithdrawals,
+  type WithdrawalOptions,
+  type WithdrawalReport,
+} from './withdrawals';
 
 export interface TypeComp {
   readonly competition: Competition;
@@ -31,11 +52,29 @@ export interface TypeComp {
 
   groups(roundId: string, deduplicate?: boolean): Group[];
 
-  save(): Promise<void>;
+  lateRegistrations(): LateRegistration[];
+
+  explain(roundId: string, person: PersonRef, scorer?: Scorer): Explanation;
+
+  withdrawals(options?: WithdrawalOptions): WithdrawalReport;
+
+  projectAdvancement(roundId: string): ProjectedAdvancement | null;
+
+  clearProvisional(roundId?: string): ProvisionalClearResult;
+
+  useSolver(solver: Solver): void;
+
+  save(label?: string): Promise<void>;
 
   commit(): Promise<void>;
 }
 
+export interface LateRegistration {
+  roundId: string;
+
+  persons: Person[];
+}
+
 export interface PersonQuery {
   filter(predicate: PersonFilter): Person[];
 
@@ -117,9 +156,44 @@ class TypeCompImpl implements TypeComp {
     return deduplicate ? deduplicateGroups(groups) : groups;
   }
 
-  async save(): Promise<void> {
-    const { saveWcif } = await import('@/engine');
-    await saveWcif(this.competition, this.id, false);
+  lateRegistrations(): LateRegistration[] {
+    return this.competition.events
+      .flatMap((event) => event.rounds)
+      .map((round) => ({
+        roundId: round.id,
+        persons: lateRegistrantsForRound(this.competition, round.id),
+      }))
+      .filter((late) => late.persons.length > 0);
+  }
+
+  explain(roundId: string, person: PersonRef, scorer?: Scorer): Explanation {
+    const options = scorer
+      ? { scorer }
+      : (recordedScorerOptions(this.competition, roundId) ?? {
+          scorer: defaultGroupScorers(),
+          scorerSource: { type: 'preset', preset: 'default' } as const,
+        });
+    return explainAssignment(this.competition, roundId, person, options);
+  }
+
+  withdrawals(options?: WithdrawalOptions): WithdrawalReport {
+    return handleWithdrawals(this.ctx, options);
+  }
+
+  projectAdvancement(roundId: string): ProjectedAdvancement | null {
+    return projectAdvancement(this.competition, roundId);
+  }
+
+  clearProvisional(roundId?: string): ProvisionalClearResult {
+    return clearProvisional(this.ctx, roundId);
+  }
+
+  useSolver(solver: Solver): void {
+    this.ctx.solver = solver;
+  }
+
+  async save(label?: string): Promise<void> {
+    await this.ctx.save(label);
     console.log(`✓ Saved WCIF locally for ${this.id}`);
   }
 
@@ -130,12 +204,20 @@ class TypeCompImpl implements TypeComp {
 
 export async function createTypeComp(
   competitionId: string,
-  options?: Partial<TypeCompOptions>,
+  options?: ContextOptions,
 ): Promise<TypeComp> {
   const ctx = await createEngineContext(competitionId, options);
   return new TypeCompImpl(ctx);
 }
 
+export async function createTypeCompFromWcif(
+  competition: Competition,
+  options?: ContextOptions,
+): Promise<TypeComp> {
+  const ctx = await createContextFromWcif(competition, options);
+  return new TypeCompImpl(ctx);
+}
+
 export function fromContext(ctx: ExecutionContext): TypeComp {
   return new TypeCompImpl(ctx);
 }
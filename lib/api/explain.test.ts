@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import {
+  getExtensionData,
+  TYPECOMP_EXTENSION_PREFIX,
+} from '../functions/extensions';
+import { getWcifRound } from '../functions/groups-helpers';
+import { createTypeCompFromWcif, type TypeComp } from './context';
+import { formatExplanation } from './explain';
+import { fixtureCompetition } from './test-utils';
+
+const ROUND = '333-r1';
+
+async function assignedRound(): Promise<TypeComp> {
+  const tc = await createTypeCompFromWcif(fixtureCompetition(), { seed: 1 });
+  tc.round(ROUND)
+    .createGroups(3)
+    .groupBy.sameCountry(3, 2)
+    .differentNames(-7)
+    .custom({ getScore: () => 1 }, 'friends', 'Keeps friends together')
+    .done()
+    .assign();
+  return tc;
+}
+
+describe('explain', () => {
+  let log: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    log = spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  test('records the scorers an assignment used on the round', async () => {
+    const tc = await assignedRound();
+    const round = getWcifRound(tc.competition, ROUND);
+
+    expect(
+      round && getExtensionData('Scorers', round, TYPECOMP_EXTENSION_PREFIX),
+    ).toMatchObject({
+      scorers: [
+        { name: 'sameCountry', weight: 3, limit: 2 },
+        { name: 'differentFirstNames', weight: -7, limit: 1 },
+        { name: 'friends', description: 'Keeps friends together' },
+      ],
+    });
+  });
+
+  test('explains with the recorded scorers rather than a preset', async () => {
+    const tc = await assignedRound();
+
+    const explanation = tc.explain(ROUND, 1);
+
+    expect(explanation.scorerSource).toEqual({
+      type: 'run',
+      skipped: ['friends'],
+    });
+    for (const group of explanation.groups) {
+      expect(group.contributions.map((c) => c.description)).toEqual([
+        '3 per other competitor from the same country (up to 2)',
+        '-7 if someone else in the group has the same first name',
+      ]);
+    }
+    expect(formatExplanation(explanation)).toContain(
+      '  Not re-evaluated (custom logic is not recorded): friends',
+    );
+  });
+
+  test('labels preset scores as a re-evaluation', async () => {
+    const tc = await createTypeCompFromWcif(fixtureCompetition(), { seed: 1 });
+    tc.round(ROUND).createGroups(3);
+
+    const explanation = tc.explain(ROUND, 1);
+
+    expect(explanation.scorerSource).toEqual({
+      type: 'preset',
+      preset: 'default',
+    });
+    expect(formatExplanation(explanation)).toContain(
+      '  Scores are a re-evaluation with the "default" scorer preset, not necessarily the scorers the assignment used',
+    );
+  });
+});
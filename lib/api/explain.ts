@@ -0,0 +1,323 @@
+import type { ExecutionContext } from '@/engine';
+import { writeExtension } from '@/engine/mutations';
+import {
+  getExtensionData,
+  TYPECOMP_EXTENSION_PREFIX,
+} from '../functions/extensions';
+import {
+  deduplicateGroups,
+  getActivityById,
+  getGroupsForRound,
+  getWcifRound,
+} from '../functions/groups-helpers';
+import type { Group, Person, Scorer } from '../types/core';
+import type { Competition } from '../types/wcif';
+import { TypeCompError } from '../utils/validation';
+import type { GroupFilter, PersonFilter } from './filters';
+import {
+  combineScorers,
+  differentFirstNames,
+  sameCountry,
+  sameWcaIdYear,
+} from './scorers';
+
+export type PersonRef = Person | number | string;
+
+export interface ExplainOptions {
+  scorer?: Scorer;
+
+  assignmentSets?: {
+    name: string;
+    personFilter: PersonFilter;
+    groupFilter: GroupFilter;
+  }[];
+
+  maxGroupSize?: number;
+
+  capacity?: (groupId: number) => number | undefined;
+
+  scorerSource?: ScorerSource;
+}
+
+// what an assignment run stored about each scorer it used
+export interface ScorerRecord {
+  name: string;
+  description?: string;
+  weight?: number;
+  limit?: number;
+}
+
+interface ScorersData {
+  scorers: ScorerRecord[];
+}
+
+// 'run' scores were rebuilt from the scorers the assignment recorded, minus
+// the skipped ones whose logic cannot be stored; 'preset' scores may differ
+// from what the run used
+export type ScorerSource =
+  | { type: 'run'; skipped: string[] }
+  | { type: 'preset'; preset: string };
+
+export interface ScorerContribution {
+  name: string;
+  description?: string;
+  score: number;
+}
+
+export interface GroupExplanation {
+  activityId: number;
+  activityCode: string;
+  size: number;
+  chosen: boolean;
+  excludedBy: string[];
+  contributions: ScorerContribution[];
+  total: number;
+}
+
+export interface Explanation {
+  roundId: string;
+  registrantId: number;
+  name: string;
+  chosen: string | null;
+  sets: string[];
+  groups: GroupExplanation[];
+  scorerSource?: ScorerSource;
+}
+
+export function resolvePerson(
+  competition: Competition,
+  ref: PersonRef,
+): Person {
+  if (typeof ref === 'object') return ref;
+
+  const query = String(ref).trim();
+  const lower = query.toLowerCase();
+  const person = competition.persons.find(
+    (p) =>
+      String(p.registrantId) === query ||
+      p.wcaId?.toLowerCase() === lower ||
+      p.name.toLowerCase() === lower,
+  );
+
+  if (!person) {
+    throw new TypeCompError(`No person matches "${query}"`, 'NOT_FOUND', {
+      person: query,
+    });
+  }
+  return person;
+}
+
+function flattenScorers(scorer: Scorer | undefined): Scorer[] {
+  if (!scorer) return [];
+  if (scorer.components) return scorer.components.flatMap(flattenScorers);
+  return [scorer];
+}
+
+const REBUILDERS: Record<string, (weight: number, limit?: number) => Scorer> = {
+  sameCountry,
+  sameWcaIdYear,
+  differentFirstNames: (weight) => differentFirstNames(weight),
+};
+
+export function recordScorers(
+  ctx: ExecutionContext,
+  roundId: string,
+  scorer: Scorer | undefined,
+): void {
+  const round = getWcifRound(ctx.competition, roundId);
+  if (!round) return;
+
+  const scorers = flattenScorers(scorer).map(
+    (s, idx): ScorerRecord => ({
+      name: s.name ?? `scorer ${idx + 1}`,
+      ...(s.description !== undefined && { description: s.description }),
+      ...(s.weight !== undefined && { weight: s.weight }),
+      ...(s.limit !== undefined && { limit: s.limit }),
+    }),
+  );
+  writeExtension<ScorersData>(
+    ctx,
+    round,
+    'Scorers',
+    { scorers },
+    TYPECOMP_EXTENSION_PREFIX,
+    roundId,
+  );
+}
+
+export function recordedScorers(
+  competition: Competition,
+  roundId: string,
+): ScorerRecord[] | null {
+  const round = getWcifRound(competition, roundId);
+  if (!round) return null;
+  return (
+    getExtensionData<ScorersData>('Scorers', round, TYPECOMP_EXTENSION_PREFIX)
+      ?.scorers ?? null
+  );
+}
+
+// Rebuilds the built-in scorers that only depend on their weight; the rest
+// hold filters or functions that the record cannot carry. Null when the round
+// was never assigned.
+export function recordedScorerOptions(
+  competition: Competition,
+  roundId: string,
+): Pick<ExplainOptions, 'scorer' | 'scorerSource'> | null {
+  const records = recordedScorers(competition, roundId);
+  if (!records) return null;
+
+  const scorers: Scorer[] = [];
+  const skipped: string[] = [];
+  for (const record of records) {
+    const rebuild = REBUILDERS[record.name];
+    if (rebuild && record.weight !== undefined) {
+      scorers.push(rebuild(record.weight, record.limit));
+    } else {
+      skipped.push(record.name);
+    }
+  }
+  return {
+    scorer: scorers.length > 0 ? combineScorers(...scorers) : undefined,
+    scorerSource: { type: 'run', skipped },
+  };
+}
+
+export function explainAssignment(
+  competition: Competition,
+  roundId: string,
+  ref: PersonRef,
+  options: ExplainOptions = {},
+): Explanation {
+  const person = resolvePerson(competition, ref);
+  const groups = deduplicateGroups(getGroupsForRound(competition, roundId));
+  const scorers = flattenScorers(options.scorer);
+
+  const competitorIn = (p: Person, group: Group): boolean =>
+    (p.assignments ?? []).some(
+      (a) => a.assignmentCode === 'competitor' && a.activityId === group.id,
+    );
+
+  const sets = (options.assignmentSets ?? []).filter((set) =>
+    set.personFilter(person),
+  );
+  const chosen = groups.find((group) => competitorIn(person, group)) ?? null;
+  const groupIds = new Set(groups.map((g) => g.id));
+
+  const explanations = groups.map((group): GroupExplanation => {
+    const others = competition.persons.filter(
+      (p) => p.registrantId !== person.registrantId && competitorIn(p, group),
+    );
+    const excludedBy: string[] = [];
+
+    if (
+      options.assignmentSets &&
+      options.assignmentSets.length > 0 &&
+      !sets.some((set) => set.groupFilter(group))
+    ) {
+      excludedBy.push(
+        sets.length > 0
+          ? `assignment set ${sets.map((s) => `"${s.name}"`).join(', ')} excludes this group`
+          : 'not in any assignment set',
+      );
+    }
+
+    const start = Date.parse(group.startTime);
+    const end = Date.parse(group.endTime);
+    for (const assignment of person.assignments ?? []) {
+      if (groupIds.has(assignment.activityId)) continue;
+      const activity = getActivityById(competition, assignment.activityId);
+      if (!activity) continue;
+      if (
+        Date.parse(activity.startTime) < end &&
+        start < Date.parse(activity.endTime)
+      ) {
+        excludedBy.push(
+          assignment.assignmentCode === 'competitor'
+            ? `competing in ${activity.activityCode} at the same time`
+            : `${assignment.assignmentCode} in ${activity.activityCode} at the same time`,
+        );
+      }
+    }
+
+    const capacity = options.capacity?.(group.id) ?? options.maxGroupSize;
+    if (
+      capacity !== undefined &&
+      chosen?.id !== group.id &&
+      others.length >= capacity
+    ) {
+      excludedBy.push(`full (${others.length}/${capacity})`);
+    }
+
+    const contributions = scorers.map((scorer, idx) => ({
+      name: scorer.name ?? `scorer ${idx + 1}`,
+      description: scorer.description,
+      score: scorer.getScore(person, group, others),
+    }));
+
+    return {
+      activityId: group.id,
+      activityCode: group.activityCode,
+      size: others.length + (chosen?.id === group.id ? 1 : 0),
+      chosen: chosen?.id === group.id,
+      excludedBy,
+      contributions,
+      total: contributions.reduce((sum, c) => sum + c.score, 0),
+    };
+  });
+
+  return {
+    roundId,
+    registrantId: person.registrantId,
+    name: person.name,
+    chosen: chosen?.activityCode ?? null,
+    sets: sets.map((s) => s.name),
+    groups: explanations,
+    ...(options.scorerSource && { scorerSource: options.scorerSource }),
+  };
+}
+
+export function formatExplanation(explanation: Explanation): string[] {
+  const lines = [
+    `${explanation.name} (${explanation.registrantId}) in ${explanation.roundId}: ${explanation.chosen ?? 'not assigned'}`,
+  ];
+  if (explanation.sets.length > 0) {
+    lines.push(`  Assignment sets: ${explanation.sets.join(', ')}`);
+  }
+  const source = explanation.scorerSource;
+  if (source?.type === 'preset') {
+    lines.push(
+      `  Scores are a re-evaluation with the "${source.preset}" scorer preset, not necessarily the scorers the assignment used`,
+    );
+  } else if (source?.type === 'run') {
+    lines.push('  Scores use the scorers recorded by the assignment');
+    if (source.skipped.length > 0) {
+      lines.push(
+        `  Not re-evaluated (custom logic is not recorded): ${source.skipped.join(', ')}`,
+      );
+    }
+  }
+
+  for (const group of explanation.groups) {
+    const marker = group.chosen ? '→' : ' ';
+    lines.push(
+      `${marker} ${group.activityCode} (${group.size} competitors): total ${group.total}`,
+    );
+    for (const contribution of group.contributions) {
+      const description = contribution.description
+        ? ` (${contribution.description})`
+        : '';
+      lines.push(
+        `      ${contribution.score >= 0 ? '+' : ''}${contribution.score} ${contribution.name}${description}`,
+      );
+    }
+    for (const reason of group.excludedBy) {
+      lines.push(`      excluded: ${reason}`);
+    }
+  }
+
+  lines.push(
+    '  Scores use the current group members; group size limits and placement order also affect the solver.',
+  );
+  return lines;
+}
@@ -27,6 +27,10 @@ export function byMatchingValue(
       }
       return matching * score;
     },
+    name: 'byMatchingValue',
+    weight: score,
+    limit,
+    description: `${score} per other competitor with the same value${limit !== undefined ? ` (up to ${limit})` : ''}`,
   };
 }
 
@@ -52,27 +56,38 @@ export function byFilters(
 
       return score;
     },
+    name: 'byFilters',
+    weight: score,
+    description: `${score} when the person and group filters match`,
   };
 }
 
 export function sameCountry(score: number, limit?: number): Scorer {
-  return byMatchingValue((p) => p.countryIso2, score, limit);
+  return {
+    ...byMatchingValue((p) => p.countryIso2, score, limit),
+    name: 'sameCountry',
+    description: `${score} per other competitor from the same country${limit !== undefined ? ` (up to ${limit})` : ''}`,
+  };
 }
 
 export function differentFirstNames(penalty: number = -5): Scorer {
-  return byMatchingValue(
-    (p) => p.name.split(' ')[0]?.toLowerCase(),
-    penalty,
-    1,
-  );
+  return {
+    ...byMatchingValue((p) => p.name.split(' ')[0]?.toLowerCase(), penalty, 1),
+    name: 'differentFirstNames',
+    description: `${penalty} if someone else in the group has the same first name`,
+  };
 }
 
 export function sameWcaIdYear(score: number, limit?: number): Scorer {
-  return byMatchingValue(
-    (p) => (p.wcaId ? parseInt(p.wcaId.slice(0, 4), 10) : null),
-    score,
-    limit,
-  );
+  return {
+    ...byMatchingValue(
+      (p) => (p.wcaId ? parseInt(p.wcaId.slice(0, 4), 10) : null),
+      score,
+      limit,
+    ),
+    name: 'sameWcaIdYear',
+    description: `${score} per other competitor with the same WCA ID year${limit !== undefined ? ` (up to ${limit})` : ''}`,
+  };
 }
 
 export function spreadOut(
@@ -93,6 +108,9 @@ export function spreadOut(
       if (groupNum % 8 === 1) score += strength;
       return score;
     },
+    name: 'spreadOut',
+    weight: strength,
+    description: `Up to ${strength * 3} for early odd-numbered groups`,
   };
 }
 
@@ -141,6 +159,8 @@ export function recentlyCompeted(
       if (closestMinutes === null) return 0;
       return scoreFn(closestMinutes);
     },
+    name: 'recentlyCompeted',
+    description: 'Based on minutes since the previous matching group',
   };
 }
 
@@ -152,6 +172,8 @@ export function combineScorers(...scorers: Scorer[]): Scorer {
         0,
       );
     },
+    name: 'combined',
+    components: scorers,
   };
 }
 
@@ -165,5 +187,8 @@ export function disperseDelegates(
       const delegateCount = otherPeople.filter(isDelegateFn).length;
       return delegateCount * penalty;
     },
+    name: 'disperseDelegates',
+    weight: penalty,
+    description: `${penalty} per other delegate in the group`,
   };
 }
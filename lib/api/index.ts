@@ -1,10 +1,26 @@
 export {
   createTypeComp,
+  createTypeCompFromWcif,
   fromContext,
+  type LateRegistration,
   type PersonQuery,
   type TypeComp,
 } from './context';
-
+export {
+  type ExplainOptions,
+  type Explanation,
+  explainAssignment,
+  formatExplanation,
+  type GroupExplanation,
+  type PersonRef,
+  recordedScorerOptions,
+  recordedScorers,
+  recordScorers,
+  resolvePerson,
+  type ScorerContribution,
+  type ScorerRecord,
+  type ScorerSource,
+} from './explain';
 export {
   accepted,
   ageBetween,
@@ -67,29 +83,59 @@ export {
   wcaIdYear,
   youngerThan,
 } from './filters';
-
 export * as presets from './presets';
-
 export {
   assignAllRounds,
+  assignAllRoundsInParallel,
   assignBlindfolded,
   assignGroupifier,
+  assignGroupifierInParallel,
   assignRound,
   assignStaff,
   defaultGroupScorers,
   type GroupifierOptions,
   type GroupifierResult,
+  groupifierJobs,
+  type RoundOrder,
+  type RoundOrderOptions,
   simpleGroupScorers,
   simpleStaffScorers,
 } from './presets';
 export {
+  clearProvisional,
+  isProvisional,
+  markProvisional,
+  type ProjectedAdvancement,
+  type ProvisionalClearResult,
+  type ProvisionalData,
+  projectAdvancement,
+  unmarkProvisional,
+} from './projection';
+export {
+  type AssignmentMove,
   type AssignmentResult,
+  type DecompositionOptions,
+  type DecompositionStrategy,
+  formatAssignmentMoves,
   GroupByBuilder,
   type GroupOptions,
+  type GroupOverflow,
+  type LateAssignmentResult,
+  type LateOptions,
+  type MoveReason,
   RoundBuilder,
+  type StabilityOptions,
+  type StageGroupOptions,
   StationsBuilder,
 } from './round-builder';
-
+export {
+  type JobKind,
+  jobDependencies,
+  runJobs,
+  runJobsInOrder,
+  type ScheduledJob,
+  type ScheduleOptions,
+} from './scheduler';
 export {
   balancedScramblerScorer,
   byFilters,
@@ -114,7 +160,6 @@ export {
   staffScorer,
 } from './scorers';
 export { StaffBuilder, type StaffResult } from './staff-builder';
-
 export {
   COMMON_STAGE_LAYOUTS,
   defineStages,
@@ -123,3 +168,22 @@ export {
   singleStage,
   twoStages,
 } from './stages';
+export {
+  estimateCompetitorSeconds,
+  estimateGroupMinutes,
+  formatGroupTimings,
+  type GroupTiming,
+  type GroupTimingOptions,
+  type GroupTimingResult,
+  reflowGroupTimes,
+} from './timing';
+export {
+  formatWithdrawalReport,
+  handleWithdrawals,
+  type RemovedAssignment,
+  type StaffReplacement,
+  type Withdrawal,
+  type WithdrawalNotice,
+  type WithdrawalOptions,
+  type WithdrawalReport,
+} from './withdrawals';
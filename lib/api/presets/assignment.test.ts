@@ -0,0 +1,211 @@
+import { describe, expect, test } from 'bun:test';
+import type { Activity, Competition, Person } from '@/lib/types/wcif';
+import { createRandom } from '@/lib/utils/random';
+import { createTypeCompFromWcif, type TypeComp } from '../context';
+import { jobDependencies } from '../scheduler';
+import {
+  assignAllRounds,
+  assignAllRoundsInParallel,
+  groupifierJobs,
+  type RoundOrder,
+} from './assignment';
+
+const EVENTS = ['333', '222', 'pyram', 'skewb'];
+const COUNTRIES = ['IE', 'IE', 'GB', 'FR', 'DE'];
+
+// back to back rounds, each two hours long, so their competitor jobs can run
+// side by side
+const BACK_TO_BACK = [9, 11, 13, 15];
+
+// 222 and pyram run at the same time
+const OVERLAPPING = [9, 11, 11, 13];
+
+const hour = (h: number) => String(h).padStart(2, '0');
+
+function competition(starts: number[]): Competition {
+  const random = createRandom(1);
+  const persons = Array.from({ length: 36 }, (_, i) => ({
+    registrantId: i + 1,
+    name: `Competitor ${i + 1}`,
+    wcaUserId: 100000 + i,
+    wcaId: null,
+    countryIso2: COUNTRIES[i % COUNTRIES.length] ?? 'IE',
+    gender: 'o',
+    birthdate: '2000-01-01',
+    email: `competitor${i + 1}@example.com`,
+    avatar: null,
+    roles: [],
+    registration: {
+      wcaRegistrationId: i + 1,
+      eventIds: EVENTS.filter((_, e) => (i + e) % 4 !== 0),
+      status: 'accepted',
+      isCompeting: true,
+    },
+    assignments: [],
+    personalBests: EVENTS.map((eventId) => ({
+      eventId,
+      best: Math.floor(300 + random() * 3000),
+      worldRanking: i + 1,
+      continentalRanking: i + 1,
+      nationalRanking: i + 1,
+      type: 'average',
+    })),
+    extensions: [],
+  })) as Person[];
+
+  const activities = EVENTS.map((eventId, e) => ({
+    id: e + 1,
+    name: `${eventId} Round 1`,
+    activityCode: `${eventId}-r1`,
+    startTime: `2026-03-01T${hour(starts[e] ?? 9)}:00:00Z`,
+    endTime: `2026-03-01T${hour((starts[e] ?? 9) + 2)}:00:00Z`,
+    childActivities: [],
+    extensions: [],
+  })) as Activity[];
+
+  return {
+    formatVersion: '1.0',
+    id: 'Parallel2026',
+    name: 'Parallel 2026',
+    shortName: 'Parallel 2026',
+    persons,
+    events: EVENTS.map((id) => ({
+      id,
+      rounds: [
+        {
+          id: `${id}-r1`,
+          format: 'a',
+          timeLimit: { centiseconds: 60000, cumulativeRoundIds: [] },
+          cutoff: null,
+          advancementCondition: null,
+          results: [],
+          scrambleSetCount: 1,
+          extensions: [],
+        },
+      ],
+      extensions: [],
+      qualification: null,
+    })),
+    schedule: {
+      startDate: '2026-03-01',
+      numberOfDays: 1,
+      venues: [
+        {
+          id: 1,
+          name: 'Venue',
+          latitudeMicrodegrees: 0,
+          longitudeMicrodegrees: 0,
+          countryIso2: 'IE',
+          timezone: 'Europe/Dublin',
+          rooms: [
+            {
+              id: 1,
+              name: 'Main Hall',
+              color: '#ffffff',
+              activities,
+              extensions: [],
+            },
+          ],
+          extensions: [],
+        },
+      ],
+    },
+    competitorLimit: null,
+    extensions: [],
+  } as unknown as Competition;
+}
+
+const OPTIONS = {
+  createGroups: true,
+  groupCount: 3,
+  judges: 4,
+  competitorsSortingRule: 'balanced' as const,
+};
+
+async function assigned(
+  starts: number[],
+  assign: (tc: TypeComp) => unknown,
+): Promise<Competition> {
+  const tc = await createTypeCompFromWcif(competition(starts), { seed: 7 });
+  await assign(tc);
+  return tc.competition;
+}
+
+async function expectSameAssignments(
+  starts: number[],
+  order: RoundOrder,
+  workers: number,
+): Promise<void> {
+  const sequential = await assigned(starts, (tc) =>
+    assignAllRounds(tc, { ...OPTIONS, order }),
+  );
+  const parallel = await assigned(starts, (tc) =>
+    assignAllRoundsInParallel(tc, { ...OPTIONS, order, workers }),
+  );
+
+  expect(
+    sequential.persons.some((p) =>
+      p.assignments?.some((a) => a.assignmentCode !== 'competitor'),
+    ),
+  ).toBe(true);
+  expect(parallel.persons).toEqual(sequential.persons);
+  expect(parallel.schedule).toEqual(sequential.schedule);
+}
+
+describe('assignAllRoundsInParallel', () => {
+  test('keeps the round by round order of assignAllRounds', async () => {
+    await expectSameAssignments(BACK_TO_BACK, 'round', 2);
+  }, 30_000);
+
+  for (const workers of [0, 2]) {
+    test(`matches assignAllRounds with competitors first on ${workers} workers`, async () => {
+      await expectSameAssignments(BACK_TO_BACK, 'competitors-first', workers);
+    }, 30_000);
+  }
+
+  test('matches assignAllRounds when rounds overlap', async () => {
+    await expectSameAssignments(OVERLAPPING, 'competitors-first', 2);
+  }, 30_000);
+});
+
+describe('jobDependencies', () => {
+  test('orders competitor jobs of overlapping rounds only', async () => {
+    const tc = await createTypeCompFromWcif(competition(OVERLAPPING), {
+      seed: 7,
+    });
+    const jobs = EVENTS.map(
+      (eventId) => groupifierJobs(tc, `${eventId}-r1`, OPTIONS)[0],
+    );
+
+    const staff = {
+      ...groupifierJobs(tc, '333-r1', OPTIONS)[0],
+      kind: 'staff' as const,
+    };
+
+    expect(jobDependencies(tc.competition, jobs)).toEqual([[], [], [1], []]);
+    expect(jobDependencies(tc.competition, [...jobs, staff])).toEqual([
+      [],
+      [],
+      [1],
+      [],
+      [0, 1, 2, 3],
+    ]);
+  });
+
+  test('waits for every earlier job unless reads are limited', async () => {
+    const tc = await createTypeCompFromWcif(competition(BACK_TO_BACK), {
+      seed: 7,
+    });
+    const jobs = EVENTS.map((eventId) => ({
+      ...groupifierJobs(tc, `${eventId}-r1`, OPTIONS)[0],
+      reads: 'all' as const,
+    }));
+
+    expect(jobDependencies(tc.competition, jobs)).toEqual([
+      [],
+      [0],
+      [0, 1],
+      [0, 1, 2],
+    ]);
+  });
+});
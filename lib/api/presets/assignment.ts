@@ -2,6 +2,7 @@ import { DateTime } from 'luxon';
 import { STAFF_JOBS } from '../../constants';
 import { getGroupsForRound } from '../../functions/groups-helpers';
 import { sortedCompetitorsForRound } from '../../functions/sorting';
+import type { SolveRequest, SolveSteps } from '../../solvers/solver';
 import type { RegistrantId } from '../../types/wcif';
 import type { TypeComp } from '../context';
 import {
@@ -13,6 +14,13 @@ import {
   not,
   registered,
 } from '../filters';
+import type { AssignmentResult } from '../round-builder';
+import {
+  runJobs,
+  runJobsInOrder,
+  type ScheduledJob,
+  type ScheduleOptions,
+} from '../scheduler';
 import {
   combineStaffScorers,
   consecutiveJobScorer,
@@ -53,6 +61,17 @@ export interface GroupifierOptions {
   date?: string;
 }
 
+export type RoundOrder = 'round' | 'competitors-first';
+
+export interface RoundOrderOptions {
+  // 'round' (the default) assigns each round's competitors and then its staff
+  // before moving on, as assignGroupifier does. 'competitors-first' assigns
+  // competitors in every round before any staff, so staff scorers see the
+  // whole competitor schedule and rounds that do not overlap can be solved
+  // side by side.
+  order?: RoundOrder;
+}
+
 export interface GroupifierResult {
   roundId: string;
   competitorsAssigned: number;
@@ -110,7 +129,7 @@ function buildStaffScorers(options: {
   return scorers;
 }
 
-function assignCompetitors(
+function* assignCompetitorsSteps(
   tc: TypeComp,
   roundId: string,
   eventId: string,
@@ -122,7 +141,7 @@ function assignCompetitors(
     stages?: StageManager;
     date?: string;
   },
-): { assigned: number; warnings: string[] } {
+): SolveSteps<{ assigned: number; warnings: string[] }> {
   const {
     maxGroupSize,
     competitorsSortingRule,
@@ -147,6 +166,7 @@ function assignCompetitors(
       tc.competition,
       roundId,
       competitorsSortingRule as Parameters<typeof sortedCompetitorsForRound>[2],
+      tc.ctx.random,
     );
 
     originalOrder = new Map(
@@ -167,6 +187,8 @@ function assignCompetitors(
     });
   }
 
+  let steps: SolveSteps<AssignmentResult>;
+  let step: IteratorResult<SolveRequest, AssignmentResult>;
   try {
     const round = tc
       .round(roundId)
@@ -198,7 +220,10 @@ function assignCompetitors(
       round.stations.bySpeed(eventId, 'average');
     }
 
-    return round.assign();
+    // the round reads its competitors before its first solve, so the original
+    // order is back before any other job runs
+    steps = round.assignSteps();
+    step = steps.next();
   } finally {
     if (originalOrder) {
       const order = originalOrder;
@@ -209,9 +234,12 @@ function assignCompetitors(
       });
     }
   }
+
+  while (!step.done) step = steps.next(yield step.value);
+  return step.value;
 }
 
-function assignStaffWithReduction(
+function* assignStaffWithReductionSteps(
   tc: TypeComp,
   roundId: string,
   eventId: string,
@@ -221,7 +249,7 @@ function assignStaffWithReduction(
     runners: number;
     staffScorers: StaffScorer[];
   },
-): { assigned: number; warnings: string[] } {
+): SolveSteps<{ assigned: number; warnings: string[] }> {
   const { judges, scramblers, runners, staffScorers } = options;
 
   let currentJudges = judges;
@@ -246,7 +274,7 @@ function assignStaffWithReduction(
       builder.scorer(combineStaffScorers(...staffScorers));
     }
 
-    const result = builder.assign();
+    const result = yield* builder.assignSteps();
     const hasInsufficientStaff = result.warnings.some((w) =>
       w.includes('Not enough people'),
     );
@@ -290,11 +318,13 @@ function assignStaffWithReduction(
   return { assigned: 0, warnings: ['Staff assignment exceeded max attempts'] };
 }
 
-export function assignGroupifier(
+// Splits assignGroupifier into a competitor job and, when staff is wanted, a
+// staff job. Both fill in and return the same result.
+export function groupifierJobs(
   tc: TypeComp,
   roundId: string,
   options: GroupifierOptions = {},
-): GroupifierResult {
+): [ScheduledJob<GroupifierResult>, ...ScheduledJob<GroupifierResult>[]] {
   const {
     maxGroupSize = 18,
     scramblers = 2,
@@ -320,81 +350,170 @@ export function assignGroupifier(
     staffAssigned: 0,
     warnings: [],
   };
-
   const eventId = roundId.split('-')[0];
-  if (!eventId) {
-    result.warnings.push(`Invalid round ID: ${roundId}`);
-    return result;
-  }
+  let failed = false;
 
-  try {
-    if (createGroups && groupCount) {
-      tc.round(roundId).createGroups(groupCount);
-    }
+  // the competitor scorers only compare people within a group
+  const competitors: ScheduledJob<GroupifierResult> = {
+    roundId,
+    kind: 'competitors',
+    reads: 'overlapping',
+    steps: function* () {
+      if (!eventId) {
+        result.warnings.push(`Invalid round ID: ${roundId}`);
+        failed = true;
+        return result;
+      }
 
-    const compResult = assignCompetitors(tc, roundId, eventId, {
-      maxGroupSize,
-      competitorsSortingRule,
-      printStations,
-      groupCount,
-      stages,
-      date,
-    });
-    result.competitorsAssigned = compResult.assigned;
-    result.warnings.push(...compResult.warnings);
-
-    if (judges !== undefined || scramblers > 0 || runners > 0) {
-      const staffScorers = buildStaffScorers({
-        balanceStaffWorkload,
-        respectJobPreferences,
-        avoidConsecutiveSameJob,
-        keepJudgesAtStation,
-        avoidBeforeCompeting,
-        deprioritizeDelegates,
-        date,
-      });
+      try {
+        if (createGroups && groupCount) {
+          tc.round(roundId).createGroups(groupCount);
+        }
+
+        const compResult = yield* assignCompetitorsSteps(tc, roundId, eventId, {
+          maxGroupSize,
+          competitorsSortingRule,
+          printStations,
+          groupCount,
+          stages,
+          date,
+        });
+        result.competitorsAssigned = compResult.assigned;
+        result.warnings.push(...compResult.warnings);
+      } catch (e) {
+        result.warnings.push(`Error assigning ${roundId}: ${e}`);
+        failed = true;
+      }
+      return result;
+    },
+  };
 
-      const staffResult = assignStaffWithReduction(tc, roundId, eventId, {
-        judges: judges ?? 0,
-        scramblers,
-        runners,
-        staffScorers,
-      });
-      result.staffAssigned = staffResult.assigned;
-      result.warnings.push(...staffResult.warnings);
-    }
-  } catch (e) {
-    result.warnings.push(`Error assigning ${roundId}: ${e}`);
+  if (!eventId || (judges === undefined && scramblers <= 0 && runners <= 0)) {
+    return [competitors];
   }
 
-  return result;
+  const staff: ScheduledJob<GroupifierResult> = {
+    roundId,
+    kind: 'staff',
+    steps: function* () {
+      if (failed) return result;
+
+      try {
+        const staffScorers = buildStaffScorers({
+          balanceStaffWorkload,
+          respectJobPreferences,
+          avoidConsecutiveSameJob,
+          keepJudgesAtStation,
+          avoidBeforeCompeting,
+          deprioritizeDelegates,
+          date,
+        });
+
+        const staffResult = yield* assignStaffWithReductionSteps(
+          tc,
+          roundId,
+          eventId,
+          {
+            judges: judges ?? 0,
+            scramblers,
+            runners,
+            staffScorers,
+          },
+        );
+        result.staffAssigned = staffResult.assigned;
+        result.warnings.push(...staffResult.warnings);
+      } catch (e) {
+        result.warnings.push(`Error assigning ${roundId}: ${e}`);
+      }
+      return result;
+    },
+  };
+
+  return [competitors, staff];
 }
 
-export function assignAllRounds(
+export function assignGroupifier(
   tc: TypeComp,
+  roundId: string,
   options: GroupifierOptions = {},
-): GroupifierResult[] {
-  const results: GroupifierResult[] = [];
-
-  const rounds = tc.competition.events.flatMap((e) =>
-    e.rounds.map((r) => r.id),
-  );
-
-  for (const roundId of rounds) {
-    if (!roundId.endsWith('-r1')) continue;
+): GroupifierResult {
+  const results = runJobsInOrder(tc, groupifierJobs(tc, roundId, options));
+  return results[results.length - 1] as GroupifierResult;
+}
 
-    const eventId = roundId.split('-')[0];
-    if (eventId === '333fm' || eventId === '333mbf') continue;
+function firstRounds(tc: TypeComp): string[] {
+  return tc.competition.events
+    .flatMap((e) => e.rounds.map((r) => r.id))
+    .filter((roundId) => {
+      if (!roundId.endsWith('-r1')) return false;
+      const eventId = roundId.split('-')[0];
+      return eventId !== '333fm' && eventId !== '333mbf';
+    });
+}
 
-    const result = assignGroupifier(tc, roundId, options);
-    results.push(result);
+function roundJobs(
+  tc: TypeComp,
+  rounds: { roundId: string; options?: GroupifierOptions }[],
+  order: RoundOrder = 'round',
+): ScheduledJob<GroupifierResult>[] {
+  const jobs = rounds.map(({ roundId, options }) =>
+    groupifierJobs(tc, roundId, options),
+  );
+  if (order === 'round') return jobs.flat();
+  return [
+    ...jobs.map(([competitors]) => competitors),
+    ...jobs.flatMap(([, ...staff]) => staff),
+  ];
+}
 
+function logGroupifierResults(results: GroupifierResult[]): GroupifierResult[] {
+  // the jobs of a round share one result object
+  const unique = [...new Set(results)];
+  for (const result of unique) {
     console.log(
-      `✓ ${roundId}: ${result.competitorsAssigned} competitors, ${result.staffAssigned} staff`,
+      `✓ ${result.roundId}: ${result.competitorsAssigned} competitors, ${result.staffAssigned} staff`,
     );
   }
+  return unique;
+}
+
+export function assignAllRounds(
+  tc: TypeComp,
+  options: GroupifierOptions & RoundOrderOptions = {},
+): GroupifierResult[] {
+  const { order, ...groupifier } = options;
+  const jobs = roundJobs(
+    tc,
+    firstRounds(tc).map((roundId) => ({ roundId, options: groupifier })),
+    order,
+  );
+  return logGroupifierResults(runJobsInOrder(tc, jobs));
+}
 
-  return results;
+// assignGroupifier for several rounds at once. Gives the same assignments as
+// assignAllRounds with the same order; only with 'competitors-first' are
+// rounds that do not overlap in time solved side by side.
+export async function assignGroupifierInParallel(
+  tc: TypeComp,
+  rounds: { roundId: string; options?: GroupifierOptions }[],
+  schedule: ScheduleOptions & RoundOrderOptions = {},
+): Promise<GroupifierResult[]> {
+  const { order, ...options } = schedule;
+  return logGroupifierResults(
+    await runJobs(tc, roundJobs(tc, rounds, order), options),
+  );
+}
+
+export function assignAllRoundsInParallel(
+  tc: TypeComp,
+  options: GroupifierOptions & ScheduleOptions & RoundOrderOptions = {},
+): Promise<GroupifierResult[]> {
+  const { workers, verbose, order, ...groupifier } = options;
+  return assignGroupifierInParallel(
+    tc,
+    firstRounds(tc).map((roundId) => ({ roundId, options: groupifier })),
+    { workers, verbose, order },
+  );
 }
 
 export interface StandardStaffOptions {
@@ -2,13 +2,18 @@ export { STAFF_JOBS as STANDARD_JOB_NAMES } from '../../constants';
 
 export {
   assignAllRounds,
+  assignAllRoundsInParallel,
   assignBlindfolded,
   assignGroupifier,
+  assignGroupifierInParallel,
   assignRound,
   assignStaff,
   assignWaveStaff,
   type GroupifierOptions,
   type GroupifierResult,
+  groupifierJobs,
+  type RoundOrder,
+  type RoundOrderOptions,
   type StandardStaffOptions,
 } from './assignment';
 
@@ -150,13 +150,14 @@ export function enhancedGroupScorers(
 
   if (stages && date) {
     for (const stage of stages.all()) {
-      scorers.push(
-        byFilters(
+      scorers.push({
+        ...byFilters(
           stages.personOnStage(stage.name, date),
           stages.byName(stage.name),
           10,
         ),
-      );
+        name: `stage:${stage.name}`,
+      });
     }
   }
 
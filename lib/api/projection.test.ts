@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import type { AdvancementCondition } from '../types/wcif';
+import { createTypeCompFromWcif } from './context';
+import { isProvisional, projectAdvancement } from './projection';
+import { competitorGroups, fixtureCompetition } from './test-utils';
+
+const ROUND = '333-r2';
+
+const advancers = (advancement?: AdvancementCondition) =>
+  projectAdvancement(
+    fixtureCompetition({ rounds: 2, advancement }),
+    ROUND,
+  )?.competitors.map((p) => p.registrantId) ?? [];
+
+const fastest = (count: number) =>
+  Array.from({ length: count }, (_, i) => i + 1);
+
+describe('projectAdvancement', () => {
+  test('takes the top ranking competitors by personal best', () => {
+    expect(advancers({ type: 'ranking', level: 12 })).toEqual(fastest(12));
+  });
+
+  test('takes a percentage of the competitors', () => {
+    expect(advancers({ type: 'percent', level: 50 })).toEqual(fastest(12));
+  });
+
+  test('takes the competitors whose personal best beats the attempt result', () => {
+    // averages run 8.00, 9.00, ... so 7 are below 15.00
+    expect(advancers({ type: 'attemptResult', level: 1500 })).toEqual(
+      fastest(7),
+    );
+  });
+
+  test('never advances more than 75% of the competitors', () => {
+    expect(advancers({ type: 'ranking', level: 20 })).toEqual(fastest(18));
+    expect(advancers({ type: 'percent', level: 100 })).toEqual(fastest(18));
+    expect(advancers()).toEqual(fastest(18));
+  });
+
+  test('uses ranked results once the previous round has them', () => {
+    const competition = fixtureCompetition({
+      rounds: 2,
+      advancement: { type: 'ranking', level: 2 },
+    });
+    const previous = competition.events[0]?.rounds[0];
+    if (!previous) throw new Error('missing round');
+    previous.results = [5, 3, 9, 1].map((personId, i) => ({
+      personId,
+      ranking: i + 1,
+      attempts: [],
+      best: 1000,
+      average: 1000,
+    }));
+
+    expect(projectAdvancement(competition, ROUND)).toMatchObject({
+      basis: 'results',
+      competitors: [{ registrantId: 5 }, { registrantId: 3 }],
+    });
+  });
+
+  test('assigns the projected advancers provisionally until cleared', async () => {
+    const tc = await createTypeCompFromWcif(
+      fixtureCompetition({
+        rounds: 2,
+        advancement: { type: 'ranking', level: 12 },
+      }),
+      { seed: 1 },
+    );
+
+    const result = tc.round(ROUND).createGroups(2).assign();
+
+    expect(result).toMatchObject({ assigned: 12, provisional: true });
+    expect(
+      [...competitorGroups(tc.competition, ROUND).keys()].sort((a, b) => a - b),
+    ).toEqual(fastest(12));
+    expect(tc.groups(ROUND).every(isProvisional)).toBe(true);
+
+    expect(tc.clearProvisional()).toEqual({
+      roundIds: [ROUND],
+      assignments: 12,
+    });
+    expect(competitorGroups(tc.competition, ROUND).size).toBe(0);
+    expect(tc.groups(ROUND).some(isProvisional)).toBe(false);
+  });
+});
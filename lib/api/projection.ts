@@ -0,0 +1,254 @@
+import type { ExecutionContext } from '@/engine';
+import {
+  removeAssignments,
+  trackExtensionMutation,
+  writeExtension,
+} from '@/engine/mutations';
+import { PersonalBest, psychSheetPosition } from '../functions/events';
+import {
+  getExtensionData,
+  removeExtensionData,
+  TYPECOMP_EXTENSION_PREFIX,
+} from '../functions/extensions';
+import { getGroupsForRound, getWcifRound } from '../functions/groups-helpers';
+import type { Person } from '../types/core';
+import type { AdvancementCondition, Competition, Round } from '../types/wcif';
+import { parseRoundId } from '../utils/activity-utils';
+
+export interface ProjectedAdvancement {
+  roundId: string;
+  fromRoundId: string;
+  condition: AdvancementCondition | null;
+  basis: 'results' | 'projection';
+  competitors: Person[];
+}
+
+export interface ProvisionalData {
+  projectedFrom: string;
+  basis: ProjectedAdvancement['basis'];
+  registrantIds: number[];
+}
+
+export interface ProvisionalClearResult {
+  roundIds: string[];
+  assignments: number;
+}
+
+// Regulation 9p1: at most 75% of competitors advance
+const MAX_ADVANCING_SHARE = 0.75;
+
+function usesAverage(round: Round): boolean {
+  return round.format === 'a' || round.format === 'm';
+}
+
+function advancingCount(
+  condition: AdvancementCondition | null,
+  candidates: number,
+  beatsLevel: (level: number) => number,
+): number {
+  const cap = Math.floor(candidates * MAX_ADVANCING_SHARE);
+  if (!condition) return cap;
+
+  switch (condition.type) {
+    case 'ranking':
+      return Math.min(condition.level, cap);
+    case 'percent':
+      return Math.min(Math.floor((candidates * condition.level) / 100), cap);
+    case 'attemptResult':
+      return Math.min(beatsLevel(condition.level), cap);
+  }
+}
+
+function fromResults(
+  competition: Competition,
+  previous: Round,
+): { competitors: Person[]; beatsLevel: (level: number) => number } {
+  const results = [...previous.results].sort(
+    (a, b) => (a.ranking ?? Infinity) - (b.ranking ?? Infinity),
+  );
+  const value = (result: (typeof results)[number]) =>
+    usesAverage(previous) ? result.average : result.best;
+
+  return {
+    competitors: results.flatMap(
+      (result) =>
+        competition.persons.find((p) => p.registrantId === result.personId) ??
+        [],
+    ),
+    beatsLevel: (level) =>
+      results.filter((r) => value(r) > 0 && value(r) < level).length,
+  };
+}
+
+function fromPersonalBests(
+  competition: Competition,
+  previous: Round,
+  eventId: string,
+): { competitors: Person[]; beatsLevel: (level: number) => number } {
+  const parsed = parseRoundId(previous.id);
+  const resultIds = new Set(previous.results.map((r) => r.personId));
+  const candidates =
+    resultIds.size > 0
+      ? competition.persons.filter((p) => resultIds.has(p.registrantId))
+      : parsed && parsed.roundNumber > 1
+        ? (projectAdvancement(competition, previous.id)?.competitors ?? [])
+        : competition.persons.filter(
+            (p) =>
+              p.registration?.status === 'accepted' &&
+              (p.registration.eventIds ?? []).some(
+                (id) => String(id) === eventId,
+              ),
+          );
+
+  const type = usesAverage(previous) ? 'average' : 'single';
+  const position = new Map(
+    candidates.map((p) => [
+      p.registrantId,
+      psychSheetPosition(p, eventId, type, candidates) ?? Infinity,
+    ]),
+  );
+
+  return {
+    competitors: [...candidates].sort(
+      (a, b) =>
+        (position.get(a.registrantId) ?? Infinity) -
+        (position.get(b.registrantId) ?? Infinity),
+    ),
+    beatsLevel: (level) =>
+      candidates.filter((p) => {
+        const pb = PersonalBest(p, eventId, type);
+        return pb !== null && pb > 0 && pb < level;
+      }).length,
+  };
+}
+
+export function projectAdvancement(
+  competition: Competition,
+  roundId: string,
+): ProjectedAdvancement | null {
+  const parsed = parseRoundId(roundId);
+  if (!parsed || parsed.roundNumber <= 1) return null;
+
+  const event = competition.events.find((e) => e.id === parsed.eventId);
+  const previous = event?.rounds[parsed.roundNumber - 2];
+  if (!previous) return null;
+
+  // results are listed as soon as a round opens but only ranked once it runs
+  const basis = previous.results.some((r) => r.ranking !== null)
+    ? 'results'
+    : 'projection';
+  const { competitors, beatsLevel } =
+    basis === 'results'
+      ? fromResults(competition, previous)
+      : fromPersonalBests(competition, previous, parsed.eventId);
+
+  const condition = previous.advancementCondition ?? null;
+  const count = advancingCount(condition, competitors.length, beatsLevel);
+
+  return {
+    roundId,
+    fromRoundId: previous.id,
+    condition,
+    basis,
+    competitors: competitors.slice(0, count),
+  };
+}
+
+export function isProvisional(entity: {
+  extensions?: Array<{ id: string; data: unknown }>;
+}): boolean {
+  return (
+    getExtensionData<ProvisionalData>(
+      'Provisional',
+      entity,
+      TYPECOMP_EXTENSION_PREFIX,
+    ) !== null
+  );
+}
+
+export function markProvisional(
+  ctx: ExecutionContext,
+  projection: ProjectedAdvancement,
+): void {
+  const round = getWcifRound(ctx.competition, projection.roundId);
+  const data: ProvisionalData = {
+    projectedFrom: projection.fromRoundId,
+    basis: projection.basis,
+    registrantIds: projection.competitors.map((p) => p.registrantId),
+  };
+
+  if (round) {
+    writeExtension(
+      ctx,
+      round,
+      'Provisional',
+      data,
+      TYPECOMP_EXTENSION_PREFIX,
+      projection.roundId,
+    );
+  }
+  for (const group of getGroupsForRound(ctx.competition, projection.roundId)) {
+    writeExtension(
+      ctx,
+      group,
+      'Provisional',
+      data,
+      TYPECOMP_EXTENSION_PREFIX,
+      group.activityCode,
+    );
+  }
+}
+
+export function unmarkProvisional(
+  ctx: ExecutionContext,
+  roundId: string,
+): void {
+  const round = getWcifRound(ctx.competition, roundId);
+  const entities = [
+    ...(round ? [{ entity: round, target: roundId }] : []),
+    ...getGroupsForRound(ctx.competition, roundId).map((group) => ({
+      entity: group,
+      target: group.activityCode,
+    })),
+  ];
+
+  for (const { entity, target } of entities) {
+    if (!isProvisional(entity)) continue;
+    removeExtensionData('Provisional', entity, TYPECOMP_EXTENSION_PREFIX);
+    trackExtensionMutation(ctx.mutations, {
+      type: 'delete',
+      extensionId: `${TYPECOMP_EXTENSION_PREFIX}Provisional`,
+      data: null,
+      target,
+    });
+  }
+}
+
+export function clearProvisional(
+  ctx: ExecutionContext,
+  roundId?: string,
+): ProvisionalClearResult {
+  const { competition } = ctx;
+  const roundIds = competition.events
+    .flatMap((e) => e.rounds)
+    .filter((round) => (roundId ? round.id === roundId : true))
+    .filter((round) => isProvisional(round))
+    .map((round) => round.id);
+
+  let assignments = 0;
+  for (const id of roundIds) {
+    const groupIds = new Set(
+      getGroupsForRound(competition, id)
+        .filter((group) => isProvisional(group))
+        .map((group) => group.id),
+    );
+    for (const person of competition.persons) {
+      assignments += removeAssignments(ctx, person, (a) =>
+        groupIds.has(a.activityId),
+      );
+    }
+    unmarkProvisional(ctx, id);
+  }
+
+  return { roundIds, assignments };
+}
@@ -0,0 +1,360 @@
+import { describe, expect, test } from 'bun:test';
+import { setExtensionData } from '../functions/extensions';
+import { validateCompetition } from '../functions/integrity';
+import type { Competition, Person } from '../types/wcif';
+import { createTypeCompFromWcif, type TypeComp } from './context';
+import { registrantId, registrantIds } from './filters';
+import { COMMON_STAGE_LAYOUTS, defineStages } from './stages';
+import { competitorGroups, fixtureCompetition } from './test-utils';
+
+const ROUND = '333-r1';
+
+async function assignedRound(competition: Competition): Promise<TypeComp> {
+  const tc = await createTypeCompFromWcif(competition, { seed: 1 });
+  tc.round(ROUND).createGroups(3).assign();
+  return tc;
+}
+
+function register(tc: TypeComp, registrantId: number): Person {
+  const template = tc.competition.persons[0] as Person;
+  const person = {
+    ...structuredClone(template),
+    registrantId,
+    name: `Competitor ${registrantId}`,
+    registration: {
+      ...template.registration,
+      status: 'accepted',
+    },
+    assignments: [],
+  } as Person;
+  tc.competition.persons.push(person);
+  return person;
+}
+
+describe('RoundBuilder.stable', () => {
+  test('moves only new and withdrawn people, plus at most maxMoves others', async () => {
+    const tc = await assignedRound(fixtureCompetition());
+    const before = competitorGroups(tc.competition, ROUND);
+
+    // empty most of one group so the solver wants to rebalance
+    const [emptied] = [...before.values()];
+    const withdrawn = [...before]
+      .filter(([, group]) => group === emptied)
+      .slice(0, 5)
+      .map(([id]) => id);
+    for (const person of tc.competition.persons) {
+      if (withdrawn.includes(person.registrantId) && person.registration) {
+        person.registration.status = 'deleted';
+      }
+    }
+    register(tc, 25);
+
+    const result = tc.round(ROUND).stable({ maxMoves: 1 }).assign();
+    const after = competitorGroups(tc.competition, ROUND);
+
+    const reasons = (reason: string) =>
+      (result.moves ?? [])
+        .filter((m) => m.reason === reason)
+        .map((m) => m.registrantId)
+        .sort((a, b) => a - b);
+    expect(reasons('new')).toEqual([25]);
+    expect(reasons('withdrawn')).toEqual([...withdrawn].sort((a, b) => a - b));
+    expect(reasons('rebalanced')).toHaveLength(1);
+
+    const moved = new Set(result.moves?.map((m) => m.registrantId));
+    for (const [id, group] of before) {
+      if (moved.has(id)) continue;
+      expect(after.get(id)).toBe(group);
+    }
+    for (const move of result.moves ?? []) {
+      expect(after.get(move.registrantId) ?? null).toBe(move.to);
+    }
+  });
+
+  test('keeps everyone in place with no moves allowed', async () => {
+    const tc = await assignedRound(fixtureCompetition());
+    const before = competitorGroups(tc.competition, ROUND);
+
+    const result = tc.round(ROUND).stable().assign();
+
+    expect(result.moves).toEqual([]);
+    expect(competitorGroups(tc.competition, ROUND)).toEqual(before);
+  });
+});
+
+describe('RoundBuilder.addLate', () => {
+  test('places late registrants in the smallest groups without moving anyone', async () => {
+    const tc = await assignedRound(fixtureCompetition());
+    const before = competitorGroups(tc.competition, ROUND);
+    register(tc, 25);
+    register(tc, 26);
+
+    expect(tc.lateRegistrations()).toMatchObject([
+      {
+        roundId: ROUND,
+        persons: [{ registrantId: 25 }, { registrantId: 26 }],
+      },
+    ]);
+
+    const result = tc.round(ROUND).addLate();
+    const after = competitorGroups(tc.competition, ROUND);
+
+    expect(result.moves?.map((m) => [m.registrantId, m.reason])).toEqual([
+      [25, 'new'],
+      [26, 'new'],
+    ]);
+    expect(result.overflow).toEqual([]);
+    for (const [id, group] of before) expect(after.get(id)).toBe(group);
+    expect(after.get(25)).not.toBe(after.get(26));
+    expect(tc.lateRegistrations()).toEqual([]);
+  });
+
+  test('reports a group pushed past maxGroupSize', async () => {
+    const tc = await assignedRound(fixtureCompetition());
+    register(tc, 25);
+
+    const result = tc.round(ROUND).maxGroupSize(8).addLate();
+
+    expect(result.assigned).toBe(1);
+    expect(result.overflow).toEqual([
+      {
+        activityCode: competitorGroups(tc.competition, ROUND).get(25) ?? '',
+        size: 9,
+        maxGroupSize: 8,
+      },
+    ]);
+  });
+});
+
+describe('RoundBuilder.together and apart', () => {
+  test('hold in the solved assignment', async () => {
+    const tc = await createTypeCompFromWcif(fixtureCompetition(), { seed: 1 });
+
+    const result = tc
+      .round(ROUND)
+      .createGroups(3)
+      .together(registrantId(1), registrantId(24))
+      .together(registrantId(12), registrantIds(13, 14))
+      .apart(registrantId(2), registrantId(3))
+      .apart(registrantId(1), registrantId(12))
+      .assign();
+    const groups = competitorGroups(tc.competition, ROUND);
+
+    expect(result.assigned).toBe(24);
+    expect(groups.get(1)).toBe(groups.get(24) ?? '');
+    expect(groups.get(12)).toBe(groups.get(13) ?? '');
+    expect(groups.get(12)).toBe(groups.get(14) ?? '');
+    expect(groups.get(2)).not.toBe(groups.get(3));
+    expect(groups.get(1)).not.toBe(groups.get(12));
+  });
+
+  test('reports pairings that cannot be met', async () => {
+    const tc = await createTypeCompFromWcif(fixtureCompetition(), { seed: 1 });
+    const round = tc.round(ROUND).createGroups(3);
+
+    expect(() =>
+      round
+        .together(registrantId(1), registrantId(2))
+        .apart(registrantId(2), registrantId(1))
+        .assign(),
+    ).toThrow(
+      expect.objectContaining({
+        code: 'INFEASIBLE_CONSTRAINTS',
+        message: expect.stringContaining('must be both together and apart'),
+      }),
+    );
+  });
+
+  test('reports a together cluster larger than any group', async () => {
+    const tc = await createTypeCompFromWcif(fixtureCompetition(), { seed: 1 });
+
+    expect(() =>
+      tc
+        .round(ROUND)
+        .createGroups(3)
+        .maxGroupSize(8)
+        .together(
+          registrantId(1),
+          registrantIds(...Array.from({ length: 8 }, (_, i) => i + 2)),
+        )
+        .assign(),
+    ).toThrow(expect.objectContaining({ code: 'INFEASIBLE_CONSTRAINTS' }));
+  });
+});
+
+// registrantIds per group id, since groups on different stages share codes
+function membersByGroup(tc: TypeComp): Map<number, number[]> {
+  const members = new Map<number, number[]>();
+  for (const group of tc.groups(ROUND, false)) members.set(group.id, []);
+  for (const person of tc.competition.persons) {
+    for (const assignment of person.assignments ?? []) {
+      if (assignment.assignmentCode !== 'competitor') continue;
+      members.get(assignment.activityId)?.push(person.registrantId);
+    }
+  }
+  return members;
+}
+
+describe('RoundBuilder per-group capacity', () => {
+  test('fills each stage up to its station count', async () => {
+    const tc = await createTypeCompFromWcif(
+      fixtureCompetition({ rooms: ['Main Hall', 'Side Hall'] }),
+      { seed: 1 },
+    );
+    const stages = defineStages([
+      { name: 'Main', room: 'Main Hall', stations: 10 },
+      { name: 'Side', room: 'Side Hall', stations: 4 },
+    ]);
+
+    const result = tc
+      .round(ROUND)
+      .createGroupsOnStages(stages, { groupsPerStage: 2 })
+      .capacityFromStations(stages)
+      .assign();
+
+    const members = membersByGroup(tc);
+
+    expect(result.assigned).toBe(24);
+    expect(result.warnings).toEqual([]);
+    for (const group of tc.groups(ROUND, false)) {
+      const size = members.get(group.id)?.length ?? 0;
+      expect(size).toBeLessThanOrEqual(stages.byName('Side')(group) ? 4 : 10);
+    }
+  });
+
+  test('warns when the room stations hold fewer than the competitors', async () => {
+    const competition = fixtureCompetition();
+    const room = competition.schedule.venues[0]?.rooms[0];
+    if (room) setExtensionData('RoomConfig', room, { stations: 6 });
+    const tc = await createTypeCompFromWcif(competition, { seed: 1 });
+
+    const result = tc
+      .round(ROUND)
+      .createGroups(3)
+      .capacityFromStations()
+      .groupCapacity(1, 4)
+      .assign();
+    const members = membersByGroup(tc);
+    const sizes = tc.groups(ROUND).map((g) => members.get(g.id)?.length ?? 0);
+
+    expect(result.warnings).toContain(
+      'Total capacity of 333-r1 (16) is below the number of competitors (24)',
+    );
+    expect(sizes).toEqual([4, 6, 6]);
+  });
+});
+
+describe('RoundBuilder.createGroupsOnStages', () => {
+  const roundTimes = (tc: TypeComp) => {
+    const round = tc.competition.schedule.venues[0]?.rooms[0]?.activities[0];
+    return [
+      Date.parse(round?.startTime ?? ''),
+      Date.parse(round?.endTime ?? ''),
+    ];
+  };
+
+  test('creates matching group numbers on every stage', async () => {
+    const tc = await createTypeCompFromWcif(
+      fixtureCompetition({ rooms: ['Main Hall', 'Side Hall'] }),
+      { seed: 1 },
+    );
+    const stages = defineStages(
+      COMMON_STAGE_LAYOUTS.nationals('Main Hall', 'Side Hall'),
+    );
+
+    tc.round(ROUND).createGroupsOnStages(stages, { groupsPerStage: 2 });
+    const groups = tc.groups(ROUND, false);
+
+    expect(groups).toHaveLength(20);
+    for (const name of stages.names()) {
+      const onStage = groups.filter(stages.byName(name));
+      expect(onStage.map((g) => g.activityCode)).toEqual([
+        '333-r1-g1',
+        '333-r1-g2',
+      ]);
+      expect(onStage.map((g) => g.startTime)).toEqual(
+        groups.filter(stages.byName('Main Red')).map((g) => g.startTime),
+      );
+    }
+    expect(
+      tc.competition.schedule.venues[0]?.rooms[1]?.activities.map(
+        (a) => a.activityCode,
+      ),
+    ).toEqual([ROUND]);
+  });
+
+  test('staggers stages and numbers groups by start time inside the round', async () => {
+    const tc = await createTypeCompFromWcif(
+      fixtureCompetition({ rooms: ['Main Hall', 'Side Hall'] }),
+      { seed: 1 },
+    );
+    const stages = defineStages(
+      COMMON_STAGE_LAYOUTS.twoStage('Main Hall', 'Side Hall'),
+    );
+    const [start, end] = roundTimes(tc);
+
+    tc.round(ROUND).createGroupsOnStages(stages, {
+      groupsPerStage: 2,
+      stagger: true,
+    });
+    const groups = tc
+      .groups(ROUND, false)
+      .sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime));
+
+    expect(groups.map((g) => g.activityCode)).toEqual([
+      '333-r1-g1',
+      '333-r1-g2',
+      '333-r1-g3',
+      '333-r1-g4',
+    ]);
+    expect(groups.map((g) => stages.byName('Main Hall')(g))).toEqual([
+      true,
+      false,
+      true,
+      false,
+    ]);
+    for (const group of groups) {
+      expect(Date.parse(group.startTime)).toBeGreaterThanOrEqual(start ?? 0);
+      expect(Date.parse(group.endTime)).toBeLessThanOrEqual(end ?? 0);
+    }
+  });
+});
+
+describe('RoundBuilder.decompose', () => {
+  for (const strategy of ['monolithic', 'buckets', 'greedy'] as const) {
+    test(`${strategy} keeps capacity, pairings and schedule conflicts`, async () => {
+      // 222 and 333 run side by side, so 222-r1-g1 clashes with 333-r1-g1
+      const tc = await createTypeCompFromWcif(
+        fixtureCompetition({
+          persons: 36,
+          events: ['333', '222'],
+          starts: [9, 9],
+        }),
+        { seed: 1 },
+      );
+      tc.round('222-r1').createGroups(3).assign();
+
+      const result = tc
+        .round(ROUND)
+        .createGroups(3)
+        .maxGroupSize(14)
+        .together(registrantId(1), registrantId(36))
+        .apart(registrantId(2), registrantId(3))
+        .decompose(strategy, { contested: 0.5 })
+        .assign();
+      const groups = competitorGroups(tc.competition, ROUND);
+      const sizes = [...membersByGroup(tc).values()].map((m) => m.length);
+
+      expect(result.assigned).toBe(36);
+      expect(result.warnings).toEqual([]);
+      expect(Math.max(...sizes)).toBeLessThanOrEqual(14);
+      expect(groups.get(1)).toBe(groups.get(36) ?? '');
+      expect(groups.get(2)).not.toBe(groups.get(3));
+      expect(
+        validateCompetition(tc.competition).filter(
+          (f) => f.rule === 'overlapping-assignments',
+        ),
+      ).toEqual([]);
+    });
+  }
+});
@@ -1,26 +1,65 @@
 import { DateTime } from 'luxon';
 import type { ExecutionContext } from '@/engine';
-import { constructAssignmentModel } from '../functions/assign-helper';
+import {
+  addActivity,
+  addAssignment,
+  removeAssignments,
+  replaceChildActivities,
+  trackEventMutation,
+} from '@/engine/mutations';
+import {
+  constructAssignmentModel,
+  groupScores,
+} from '../functions/assign-helper';
 import { PersonalBest } from '../functions/events';
+import {
+  type StageExtensionData,
+  setExtensionData,
+  TYPECOMP_EXTENSION_PREFIX,
+} from '../functions/extensions';
 import {
   deduplicateGroups,
+  getActivityById,
   getAllGroups,
+  getGroupNumber,
+  getGroupStage,
   getGroupsForRound,
+  getStationsByActivity,
   getWcifRound,
+  lateRegistrantsForRound,
   maxActivityId,
 } from '../functions/groups-helpers';
-import { fisherYatesShuffle } from '../functions/utils';
+import { fisherYatesShuffle, partition } from '../functions/utils';
+import {
+  checkSolverResult,
+  type Solver,
+  type SolveSteps,
+  solveSteps,
+  withTimeLimit,
+} from '../solvers/solver';
 import type {
   Group,
   Person,
   Scorer,
   StationAssignmentRule,
 } from '../types/core';
-import solver from '../types/lp-solver';
-import type { Activity, Assignment } from '../types/wcif';
+import type { Activity, Assignment, Competition, Room } from '../types/wcif';
 import { extractGroupNumber, parseRoundId } from '../utils/activity-utils';
+import { TypeCompError } from '../utils/validation';
+import {
+  type Explanation,
+  explainAssignment,
+  type PersonRef,
+  recordScorers,
+} from './explain';
 import type { GroupFilter, PersonFilter } from './filters';
 import { allGroups, registered } from './filters';
+import {
+  markProvisional,
+  type ProjectedAdvancement,
+  projectAdvancement,
+  unmarkProvisional,
+} from './projection';
 import {
   byFilters,
   byMatchingValue,
@@ -28,6 +67,14 @@ import {
   differentFirstNames,
   sameCountry,
 } from './scorers';
+import { StaffBuilder, type StaffResult } from './staff-builder';
+import type { StageManager } from './stages';
+import {
+  formatGroupTimings,
+  type GroupTimingOptions,
+  type GroupTimingResult,
+  reflowGroupTimes,
+} from './timing';
 
 export interface GroupOptions {
   room?: string;
@@ -35,11 +82,74 @@ export interface GroupOptions {
   to?: string;
 }
 
+export interface StageGroupOptions {
+  groupsPerStage: number;
+  stagger?: boolean | number;
+  from?: string;
+  to?: string;
+}
+
+export interface StabilityOptions {
+  maxMoves?: number;
+  weight?: number;
+}
+
+// 'monolithic' feeds the whole queue to the solver, 'buckets' solves one
+// bucket of people after another and 'greedy' places people greedily before
+// the solver refines the contested ones
+export type DecompositionStrategy = 'monolithic' | 'buckets' | 'greedy';
+
+export interface DecompositionOptions {
+  // buckets: people solved together, defaults to their country
+  bucketBy?: (person: Person) => string;
+  // greedy: share of people left for the solver, smallest score margin
+  // first; defaults to 0.2
+  contested?: number;
+}
+
+export type MoveReason =
+  | 'new'
+  | 'withdrawn'
+  | 'conflict'
+  | 'ineligible'
+  | 'rebalanced'
+  | 'unassigned';
+
+export interface AssignmentMove {
+  registrantId: number;
+  name: string;
+  from: string | null;
+  to: string | null;
+  reason: MoveReason;
+}
+
 export interface AssignmentResult {
   assigned: number;
   groups: number;
   warnings: string[];
   roundId: string;
+  moves?: AssignmentMove[];
+  timing?: GroupTimingResult;
+  provisional?: boolean;
+}
+
+export interface LateOptions {
+  staff?: (builder: StaffBuilder) => unknown;
+}
+
+export interface GroupOverflow {
+  activityCode: string;
+  size: number;
+  maxGroupSize: number;
+}
+
+export interface LateAssignmentResult extends AssignmentResult {
+  overflow: GroupOverflow[];
+  staff?: StaffResult;
+}
+
+interface Decomposition extends DecompositionOptions {
+  strategy: DecompositionStrategy;
 }
 
 interface AssignmentSetConfig {
@@ -49,6 +159,26 @@ interface AssignmentSetConfig {
   featured?: boolean;
 }
 
+type CapacityLookup = (groupId: number) => number | undefined;
+
+interface CapacityConfig {
+  fromStations: boolean;
+  stages?: StageManager;
+  overrides: Map<number | string, number>;
+}
+
+interface PairingRule {
+  kind: 'together' | 'apart';
+  a: PersonFilter;
+  b: PersonFilter;
+}
+
+interface ResolvedPairings {
+  clusters: number[][];
+  clusterOf: Map<number, number[]>;
+  apart: Map<number, Set<number>>;
+}
+
 interface StationConfig {
   enabled: boolean;
   order: 'ascending' | 'descending';
@@ -88,11 +218,23 @@ export class GroupByBuilder {
     return this;
   }
 
-  custom(scorer: Scorer): this {
-    this.scorers.push(scorer);
+  custom(scorer: Scorer, name?: string, description?: string): this {
+    this.scorers.push(
+      name || description
+        ? {
+            ...scorer,
+            name: name ?? scorer.name,
+            description: description ?? scorer.description,
+          }
+        : scorer,
+    );
     return this;
   }
 
+  getScorers(): Scorer[] {
+    return [...this.scorers];
+  }
+
   getScorer(): Scorer | undefined {
     if (this.scorers.length === 0) return undefined;
     if (this.scorers.length === 1) return this.scorers[0];
@@ -158,6 +300,16 @@ export class RoundBuilder {
   private _groupBy: GroupByBuilder;
   private _stations: StationsBuilder;
   private clearExisting: boolean = true;
+  private stability?: Required<StabilityOptions>;
+  private pairings: PairingRule[] = [];
+  private timing?: GroupTimingOptions;
+  private _solver?: Solver;
+  private _timeLimit?: number;
+  private decomposition: Decomposition = { strategy: 'monolithic' };
+  private capacity: CapacityConfig = {
+    fromStations: false,
+    overrides: new Map(),
+  };
 
   constructor(
     private readonly ctx: ExecutionContext,
@@ -174,8 +326,6 @@ export class RoundBuilder {
     const parsed = parseRoundId(this.roundId);
     if (!parsed) throw new Error(`Invalid round ID: ${this.roundId}`);
 
-    const { eventId, roundNumber } = parsed;
-
     let parentActivity: Activity | undefined;
     let foundRoomName: string | undefined;
 
@@ -218,9 +368,7 @@ export class RoundBuilder {
     let end: DateTime;
 
     if (startTime) {
-      start = DateTime.fromISO(
-        startTime.includes('T') ? startTime : `2000-01-01T${startTime}`,
-      );
+      start = parseGroupTime(startTime);
     } else if (parentActivity) {
       start = DateTime.fromISO(parentActivity.startTime);
     } else {
@@ -230,9 +378,7 @@ export class RoundBuilder {
     }
 
     if (endTime) {
-      end = DateTime.fromISO(
-        endTime.includes('T') ? endTime : `2000-01-01T${endTime}`,
-      );
+      end = parseGroupTime(endTime);
     } else if (parentActivity) {
       end = DateTime.fromISO(parentActivity.endTime);
     } else {
@@ -242,23 +388,14 @@ export class RoundBuilder {
     }
 
     if (!parentActivity) {
-      const startISO = start.toISO();
-      const endISO = end.toISO();
-      if (!startISO || !endISO) {
-        throw new Error(
-          `Invalid start or end time for parent activity ${this.roundId}`,
-        );
-      }
-      parentActivity = {
-        id: ++nextActivityId,
-        activityCode: this.roundId,
-        name: `${eventId} Round ${roundNumber}`,
-        startTime: startISO,
-        endTime: endISO,
-        childActivities: [],
-        extensions: [],
-      };
-      room.activities.push(parentActivity);
+      parentActivity = createRoundActivity(
+        this.ctx,
+        room,
+        this.roundId,
+        start,
+        end,
+        ++nextActivityId,
+      );
     }
 
     const totalDuration = end.diff(start, 'minutes').minutes;
@@ -293,7 +430,7 @@ export class RoundBuilder {
       currentStart = groupEnd;
     }
 
-    parentActivity.childActivities = groups;
+    replaceChildActivities(this.ctx, parentActivity, groups, roomName);
     console.log(`✓ Created ${count} groups for ${this.roundId} in ${roomName}`);
 
     return this;
@@ -386,6 +523,120 @@ export class RoundBuilder {
     return this;
   }
 
+  createGroupsOnStages(stages: StageManager, options: StageGroupOptions): this {
+    const { competition } = this.ctx;
+    const stageList = stages.all();
+    if (stageList.length === 0) throw new Error('No stages defined');
+
+    const { groupsPerStage } = options;
+    const roundActivity = competition.schedule.venues
+      .flatMap((v) => v.rooms)
+      .flatMap((r) => r.activities)
+      .find((a) => a.activityCode === this.roundId);
+
+    const start = options.from
+      ? parseGroupTime(options.from)
+      : roundActivity && DateTime.fromISO(roundActivity.startTime);
+    const end = options.to
+      ? parseGroupTime(options.to)
+      : roundActivity && DateTime.fromISO(roundActivity.endTime);
+    if (!start || !end) {
+      throw new Error(
+        `Start and end time not provided and round ${this.roundId} not found.`,
+      );
+    }
+
+    const totalDuration = end.diff(start, 'minutes').minutes;
+    const offset =
+      options.stagger === true
+        ? totalDuration / groupsPerStage / stageList.length
+        : options.stagger || 0;
+    // staggered stages still finish by the end of the round
+    const groupDuration =
+      (totalDuration - offset * (stageList.length - 1)) / groupsPerStage;
+    if (groupDuration <= 0) {
+      throw new Error(
+        `Stagger of ${offset} minutes leaves no time for groups in ${this.roundId}`,
+      );
+    }
+
+    const planned = stageList.flatMap((stage, stageIdx) =>
+      Array.from({ length: groupsPerStage }, (_, idx) => {
+        const groupStart = start.plus({
+          minutes: stageIdx * offset + idx * groupDuration,
+        });
+        return {
+          stage,
+          number: idx + 1,
+          start: groupStart,
+          end: groupStart.plus({ minutes: groupDuration }),
+        };
+      }),
+    );
+    if (offset > 0) {
+      planned.sort((a, b) => a.start.toMillis() - b.start.toMillis());
+      planned.forEach((group, idx) => {
+        group.number = idx + 1;
+      });
+    }
+
+    let nextActivityId = maxActivityId(competition);
+    const roomNames = [...new Set(stageList.map((stage) => stage.room))];
+
+    for (const roomName of roomNames) {
+      const room = competition.schedule.venues
+        .flatMap((v) => v.rooms)
+        .find((r) => r.name === roomName);
+      if (!room) throw new Error(`Room "${roomName}" not found`);
+
+      const parentActivity =
+        room.activities.find((a) => a.activityCode === this.roundId) ??
+        createRoundActivity(
+          this.ctx,
+          room,
+          this.roundId,
+          start,
+          end,
+          ++nextActivityId,
+        );
+
+      const groups = planned
+        .filter((group) => group.stage.room === roomName)
+        .map((group): Activity => {
+          const activityCode = `${this.roundId}-g${group.number}`;
+          const startISO = group.start.toISO();
+          const endISO = group.end.toISO();
+          if (!startISO || !endISO) {
+            throw new Error(`Invalid time for group ${activityCode}`);
+          }
+
+          const activity: Activity = {
+            id: ++nextActivityId,
+            activityCode,
+            name: `${activityCode} ${group.stage.name}`,
+            startTime: startISO,
+            endTime: endISO,
+            childActivities: [],
+            extensions: [],
+          };
+          setExtensionData<StageExtensionData>(
+            'Stage',
+            activity,
+            { stage: group.stage.name },
+            TYPECOMP_EXTENSION_PREFIX,
+          );
+          return activity;
+        });
+
+      replaceChildActivities(this.ctx, parentActivity, groups, roomName);
+    }
+
+    console.log(
+      `✓ Created ${planned.length} groups for ${this.roundId} on ${stageList.length} stages`,
+    );
+    return this;
+  }
+
   get groupBy(): GroupByBuilder {
     return this._groupBy;
   }
@@ -399,18 +650,91 @@ export class RoundBuilder {
     return this;
   }
 
+  capacityFromStations(stages?: StageManager): this {
+    this.capacity.fromStations = true;
+    this.capacity.stages = stages;
+    return this;
+  }
+
+  groupCapacity(group: number | string, size: number): this {
+    this.capacity.overrides.set(group, size);
+    return this;
+  }
+
+  autoTiming(options: GroupTimingOptions = {}): this {
+    this.timing = options;
+    return this;
+  }
+
+  solver(solver: Solver): this {
+    this._solver = solver;
+    return this;
+  }
+
+  timeLimit(seconds: number): this {
+    this._timeLimit = seconds;
+    return this;
+  }
+
+  decompose(
+    strategy: DecompositionStrategy,
+    options: DecompositionOptions = {},
+  ): this {
+    const { contested } = options;
+    if (contested !== undefined && !(contested >= 0 && contested <= 1)) {
+      throw new TypeCompError(
+        `Invalid contested share ${contested}. Expected a number from 0 to 1`,
+        'INVALID_DECOMPOSITION',
+        { roundId: this.roundId, contested },
+      );
+    }
+    this.decomposition = { strategy, ...options };
+    return this;
+  }
+
   clearExistingAssignments(clear: boolean = true): this {
     this.clearExisting = clear;
     return this;
   }
 
+  stable(options: StabilityOptions = {}): this {
+    this.stability = {
+      maxMoves: options.maxMoves ?? 0,
+      weight: options.weight ?? 1000,
+    };
+    return this;
+  }
+
+  together(a: PersonFilter, b: PersonFilter): this {
+    this.pairings.push({ kind: 'together', a, b });
+    return this;
+  }
+
+  apart(a: PersonFilter, b: PersonFilter): this {
+    this.pairings.push({ kind: 'apart', a, b });
+    return this;
+  }
+
   scrambleSetCount(count: number): this {
     const round = getWcifRound(this.ctx.competition, this.roundId);
     if (!round) throw new Error(`Round ${this.roundId} not found`);
-    round.scrambleSetCount = count;
+    this.setScrambleSetCount(round, count);
     return this;
   }
 
+  private setScrambleSetCount(
+    round: NonNullable<ReturnType<typeof getWcifRound>>,
+    count: number,
+  ): void {
+    if (round.scrambleSetCount === count) return;
+    round.scrambleSetCount = count;
+    trackEventMutation(this.ctx.mutations, {
+      type: 'update',
+      eventId: parseRoundId(this.roundId)?.eventId ?? this.roundId,
+      changes: { roundId: this.roundId, scrambleSetCount: count },
+    });
+  }
+
   scrambleSetCountFromUniqueGroups(): this {
     const round = getWcifRound(this.ctx.competition, this.roundId);
     if (!round) throw new Error(`Round ${this.roundId} not found`);
@@ -418,7 +742,7 @@ export class RoundBuilder {
     const groups = deduplicateGroups(
       getGroupsForRound(this.ctx.competition, this.roundId),
     );
-    round.scrambleSetCount = groups.length;
+    this.setScrambleSetCount(round, groups.length);
     console.log(
       `✓ Set scrambleSetCount to ${groups.length} for ${this.roundId}`,
     );
@@ -437,7 +761,7 @@ export class RoundBuilder {
       }
     }
 
-    round.scrambleSetCount = uniqueTimeframes.size;
+    this.setScrambleSetCount(round, uniqueTimeframes.size);
     console.log(
       `✓ Set scrambleSetCount to ${uniqueTimeframes.size} for ${this.roundId}`,
     );
@@ -497,40 +821,442 @@ export class RoundBuilder {
     const numGroups = Math.ceil(advancingCount / maxGroupSize);
     const count = Math.max(1, numGroups);
 
-    round.scrambleSetCount = count;
+    this.setScrambleSetCount(round, count);
     console.log(
       `✓ Set scrambleSetCount to ${count} for ${this.roundId} (${advancingCount} advancing, ${maxGroupSize} per group)`,
     );
     return this;
   }
 
+  explain(person: PersonRef): Explanation {
+    return explainAssignment(this.ctx.competition, this.roundId, person, {
+      scorer: this._groupBy.getScorer(),
+      assignmentSets: this.assignmentSets,
+      maxGroupSize: this._maxGroupSize,
+      capacity: this.capacityLookup(),
+    });
+  }
+
+  addLate(
+    filter: PersonFilter = registered,
+    options: LateOptions = {},
+  ): LateAssignmentResult {
+    return executeLateAssignment(
+      this.ctx,
+      this.roundId,
+      filter,
+      this.assignmentSets,
+      this._groupBy.getScorer(),
+      this._stations.getRule(),
+      this.capacityLookup(),
+      options,
+    );
+  }
+
   assign(): AssignmentResult {
-    return executeAssignment(
+    return solveSteps(this.assignSteps());
+  }
+
+  // assign() as steps that yield each model, for runJobs
+  *assignSteps(): SolveSteps<AssignmentResult> {
+    const capacityOf = this.capacityLookup();
+    const result = yield* executeAssignment(
       this.ctx,
       this.roundId,
       this.assignmentSets,
       this._groupBy.getScorer(),
       this._stations.getRule(),
-      this._maxGroupSize,
+      capacityOf,
       this.clearExisting,
+      this.stability,
+      this.pairings,
+      withTimeLimit(this._solver ?? this.ctx.solver, this._timeLimit),
+      this.decomposition,
     );
+    if (!this.timing || result.groups === 0) return result;
+
+    const timing = reflowGroupTimes(
+      this.ctx,
+      this.roundId,
+      this.timing,
+      capacityOf,
+    );
+    console.log(
+      `✓ Re-timed ${timing.groups.length} groups for ${this.roundId}`,
+    );
+    for (const line of formatGroupTimings(timing)) console.log(`  ${line}`);
+    for (const warning of timing.warnings) console.warn(`⚠️  ${warning}`);
+    return {
+      ...result,
+      warnings: [...result.warnings, ...timing.warnings],
+      timing,
+    };
+  }
+
+  private capacityLookup(): CapacityLookup {
+    const capacities = resolveGroupCapacities(
+      this.ctx.competition,
+      this.roundId,
+      this.capacity,
+    );
+    return (groupId) => capacities.get(groupId) ?? this._maxGroupSize;
   }
 }
 
-function executeAssignment(
+function parseGroupTime(value: string): DateTime {
+  return DateTime.fromISO(value.includes('T') ? value : `2000-01-01T${value}`);
+}
+
+function createRoundActivity(
   ctx: ExecutionContext,
+  room: Room,
   roundId: string,
+  start: DateTime,
+  end: DateTime,
+  id: number,
+): Activity {
+  const parsed = parseRoundId(roundId);
+  const startISO = start.toISO();
+  const endISO = end.toISO();
+  if (!startISO || !endISO) {
+    throw new Error(`Invalid start or end time for parent activity ${roundId}`);
+  }
+
+  const activity: Activity = {
+    id,
+    activityCode: roundId,
+    name: parsed ? `${parsed.eventId} Round ${parsed.roundNumber}` : roundId,
+    startTime: startISO,
+    endTime: endISO,
+    childActivities: [],
+    extensions: [],
+  };
+  addActivity(ctx, room, activity);
+  return activity;
+}
+
+function resolveGroupCapacities(
+  competition: Competition,
+  roundId: string,
+  config: CapacityConfig,
+): Map<number, number> {
+  const capacities = new Map<number, number>();
+  if (!config.fromStations && config.overrides.size === 0) return capacities;
+
+  const groupsForRound = getGroupsForRound(competition, roundId);
+  for (const group of deduplicateGroups(groupsForRound)) {
+    const groupNumber = getGroupNumber(group);
+    const override =
+      config.overrides.get(group.activityCode) ??
+      (groupNumber !== null ? config.overrides.get(groupNumber) : undefined);
+    if (override !== undefined) {
+      capacities.set(group.id, override);
+      continue;
+    }
+    if (!config.fromStations) continue;
+
+    // a group number may run in several rooms at once
+    let total = 0;
+    for (const sibling of groupsForRound) {
+      if (
+        getGroupNumber(sibling) !== groupNumber ||
+        getGroupStage(sibling) !== getGroupStage(group)
+      ) {
+        continue;
+      }
+      const stations =
+        config.stages?.stationsForGroup(sibling) ??
+        getStationsByActivity(competition, sibling.id);
+      if (stations === null) {
+        total = 0;
+        break;
+      }
+      total += stations;
+    }
+    if (total > 0) capacities.set(group.id, total);
+  }
+
+  return capacities;
+}
+
+function executeLateAssignment(
+  ctx: ExecutionContext,
+  roundId: string,
+  filter: PersonFilter,
   assignmentSets: AssignmentSetConfig[],
   groupByScorer: Scorer | undefined,
   stationRule: StationAssignmentRule | undefined,
-  maxGroupSize: number | undefined,
+  capacityOf: CapacityLookup,
+  options: LateOptions,
+): LateAssignmentResult {
+  const { competition } = ctx;
+  const groups = deduplicateGroups(getGroupsForRound(competition, roundId));
+  const warnings: string[] = [];
+  const moves: AssignmentMove[] = [];
+  const overflow: GroupOverflow[] = [];
+
+  if (groups.length === 0) {
+    console.warn(`⚠️  No groups found for ${roundId}`);
+    return {
+      assigned: 0,
+      groups: 0,
+      warnings: [`No groups found for ${roundId}`],
+      roundId,
+      moves,
+      overflow,
+    };
+  }
+
+  const members = new Map<number, Person[]>(
+    groups.map((group) => [
+      group.id,
+      competition.persons.filter((p) =>
+        (p.assignments ?? []).some(
+          (a) => a.assignmentCode === 'competitor' && a.activityId === group.id,
+        ),
+      ),
+    ]),
+  );
+
+  const hasConflict = (person: Person, group: Group): boolean => {
+    const start = DateTime.fromISO(group.startTime);
+    const end = DateTime.fromISO(group.endTime);
+    return (person.assignments ?? []).some((a) => {
+      const activity = getActivityById(competition, a.activityId);
+      if (!activity) return false;
+      return (
+        DateTime.fromISO(activity.startTime) < end &&
+        start < DateTime.fromISO(activity.endTime)
+      );
+    });
+  };
+
+  const late = lateRegistrantsForRound(competition, roundId).filter(filter);
+
+  for (const person of late) {
+    const eligible = groups.filter(
+      (group) =>
+        (assignmentSets.length === 0 ||
+          assignmentSets.some(
+            (set) => set.personFilter(person) && set.groupFilter(group),
+          )) &&
+        !hasConflict(person, group),
+    );
+
+    if (eligible.length === 0) {
+      warnings.push(`No conflict-free group for ${person.name} in ${roundId}`);
+      continue;
+    }
+
+    const sizeOf = (group: Group): number => members.get(group.id)?.length ?? 0;
+    const smallest = Math.min(...eligible.map(sizeOf));
+    const isFull = (group: Group): boolean =>
+      sizeOf(group) >= (capacityOf(group.id) ?? Infinity);
+    const value = (group: Group): number =>
+      (groupByScorer?.getScore(person, group, members.get(group.id) ?? []) ??
+        0) -
+      (sizeOf(group) - smallest);
+
+    const [best] = eligible
+      .map((group) => ({ group, full: isFull(group), value: value(group) }))
+      .sort(
+        (a, b) =>
+          Number(a.full) - Number(b.full) ||
+          (a.full ? sizeOf(a.group) - sizeOf(b.group) : 0) ||
+          b.value - a.value,
+      );
+    if (!best) continue;
+
+    const { group } = best;
+    const groupMembers = members.get(group.id) ?? [];
+
+    const maxGroupSize = capacityOf(group.id);
+    if (best.full && maxGroupSize !== undefined) {
+      overflow.push({
+        activityCode: group.activityCode,
+        size: groupMembers.length + 1,
+        maxGroupSize,
+      });
+      warnings.push(
+        `${group.activityCode} exceeds its capacity (${groupMembers.length + 1} > ${maxGroupSize}) to fit ${person.name}`,
+      );
+    }
+
+    const stations = groupMembers.flatMap((member) =>
+      (member.assignments ?? [])
+        .filter((a) => a.activityId === group.id && a.stationNumber)
+        .map((a) => a.stationNumber as number),
+    );
+    const stationNumber =
+      stationRule || stations.length > 0 ? Math.max(0, ...stations) + 1 : null;
+
+    addAssignment(
+      ctx,
+      person,
+      { activityId: group.id, assignmentCode: 'competitor', stationNumber },
+      group.activityCode,
+    );
+    groupMembers.push(person);
+    members.set(group.id, groupMembers);
+    moves.push({
+      registrantId: person.registrantId,
+      name: person.name,
+      from: null,
+      to: group.activityCode,
+      reason: 'new',
+    });
+  }
+
+  console.log(
+    `✓ Added ${moves.length} late registrants to ${groups.length} groups for ${roundId}`,
+  );
+  for (const line of formatAssignmentMoves(moves)) {
+    console.log(`  ${line}`);
+  }
+  for (const warning of warnings) {
+    console.warn(`⚠️  ${warning}`);
+  }
+
+  let staff: StaffResult | undefined;
+  if (options.staff && moves.length > 0) {
+    const placed = new Set(moves.map((m) => m.registrantId));
+    const builder = new StaffBuilder(ctx, roundId)
+      .from((p) => placed.has(p.registrantId))
+      .append();
+    options.staff(builder);
+    staff = builder.assign();
+  }
+
+  return {
+    assigned: moves.length,
+    groups: groups.length,
+    warnings,
+    roundId,
+    moves,
+    overflow,
+    staff,
+  };
+}
+
+interface PriorAssignment {
+  group: Group;
+  stationNumber: number | null;
+  conflicting: boolean;
+}
+
+function collectPriorAssignments(
+  competition: Competition,
+  groups: Group[],
+  conflictingActivitiesByGroup: Map<number, number[]>,
+): Map<number, PriorAssignment> {
+  const groupsById = new Map(groups.map((g) => [g.id, g]));
+  const prior = new Map<number, PriorAssignment>();
+
+  for (const person of competition.persons) {
+    const assignments = (person.assignments ?? []).filter(
+      (a) => a.assignmentCode === 'competitor',
+    );
+    const current = assignments.find((a) => groupsById.has(a.activityId));
+    const group = current && groupsById.get(current.activityId);
+    if (!current || !group) continue;
+
+    const conflicts = conflictingActivitiesByGroup.get(group.id) ?? [];
+    prior.set(person.registrantId, {
+      group,
+      stationNumber: current.stationNumber ?? null,
+      conflicting: assignments.some(
+        (a) =>
+          !groupsById.has(a.activityId) && conflicts.includes(a.activityId),
+      ),
+    });
+  }
+
+  return prior;
+}
+
+export function formatAssignmentMoves(moves: AssignmentMove[]): string[] {
+  return moves.map(
+    (move) =>
+      `${move.name} (${move.registrantId}): ${move.from ?? '-'} → ${move.to ?? '-'} (${move.reason})`,
+  );
+}
+
+const DEFAULT_CONTESTED_SHARE = 0.2;
+
+// Places people in queue order, each in the best scoring group that has room
+// and has not taken anyone else this round, so groups fill as evenly as they
+// do under the solver. The people with the smallest margin between their two
+// best groups are taken out again and left to the solver. Returns the ids of
+// the people who stay placed.
+function placeGreedily(
+  candidates: { person: Person; idx: number }[],
+  groups: Group[],
+  currentByGroup: { [groupId: number]: Person[] },
+  hasRoom: (groupId: number) => boolean,
+  scoresFor: (person: Person, within: Group[]) => { [groupId: number]: number },
+  contestedShare: number,
+): Set<number> {
+  const placements: { person: Person; groupId: number; margin: number }[] = [];
+  const takenThisRound = new Set<number>();
+
+  for (const { person } of [...candidates].sort((a, b) => a.idx - b.idx)) {
+    const open = groups.filter((g) => hasRoom(g.id));
+    if (open.length === 0) break;
+    if (open.every((g) => takenThisRound.has(g.id))) takenThisRound.clear();
+
+    const scores = scoresFor(person, open);
+    const ranked = open
+      .filter((g) => g.id in scores)
+      .sort((a, b) => (scores[b.id] ?? 0) - (scores[a.id] ?? 0));
+    const choice = ranked.find((g) => !takenThisRound.has(g.id));
+    if (!choice) continue;
+
+    const [best, second] = ranked;
+    const margin =
+      best && second
+        ? (scores[best.id] ?? 0) - (scores[second.id] ?? 0)
+        : Infinity;
+    currentByGroup[choice.id]?.push(person);
+    takenThisRound.add(choice.id);
+    placements.push({ person, groupId: choice.id, margin });
+  }
+
+  const contested = [...placements]
+    .sort((a, b) => a.margin - b.margin || 0)
+    .slice(0, Math.ceil(placements.length * contestedShare));
+  for (const { person, groupId } of contested) {
+    const current = currentByGroup[groupId] ?? [];
+    current.splice(current.indexOf(person), 1);
+  }
+  const contestedIds = new Set(contested.map((c) => c.person.registrantId));
+  return new Set(
+    placements
+      .map((p) => p.person.registrantId)
+      .filter((id) => !contestedIds.has(id)),
+  );
+}
+
+function* executeAssignment(
+  ctx: ExecutionContext,
+  roundId: string,
+  assignmentSets: AssignmentSetConfig[],
+  groupByScorer: Scorer | undefined,
+  stationRule: StationAssignmentRule | undefined,
+  capacityOf: CapacityLookup,
   clearExisting: boolean,
-): AssignmentResult {
+  stability?: Required<StabilityOptions>,
+  pairingRules: PairingRule[] = [],
+  solver: Solver = ctx.solver,
+  decomposition: Decomposition = { strategy: 'monolithic' },
+): SolveSteps<AssignmentResult> {
   const { competition } = ctx;
   const parsed = parseRoundId(roundId);
 
   const groupsForRound = getGroupsForRound(competition, roundId);
-  const groups = fisherYatesShuffle(deduplicateGroups(groupsForRound));
+  const groups = fisherYatesShuffle(
+    deduplicateGroups(groupsForRound),
+    ctx.random,
+  );
 
   if (groups.length === 0) {
     console.warn(`⚠️  No groups found for ${roundId}`);
@@ -543,15 +1269,6 @@ function executeAssignment(
   }
 
   const activityIds = groups.map((g) => g.id);
-  if (clearExisting) {
-    competition.persons.forEach((person) => {
-      person.assignments = (person.assignments ?? []).filter(
-        (a) =>
-          !activityIds.includes(a.activityId) ||
-          a.assignmentCode !== 'competitor',
-      );
-    });
-  }
 
   if (assignmentSets.length === 0) {
     assignmentSets = [
@@ -561,11 +1278,15 @@ function executeAssignment(
 
   const roundData = getWcifRound(competition, roundId);
   let people: Person[];
+  let projection: ProjectedAdvancement | null = null;
 
   if (!roundData || roundData.results.length === 0) {
-    people = competition.persons.filter(
-      (p) => p.registration?.status === 'accepted',
-    );
+    projection = projectAdvancement(competition, roundId);
+    people = projection
+      ? projection.competitors
+      : competition.persons.filter(
+          (p) => p.registration?.status === 'accepted',
+        );
   } else {
     const personIds = roundData.results.map((r) => r.personId);
     people = competition.persons.filter((p) =>
@@ -573,7 +1294,7 @@ function executeAssignment(
     );
   }
 
-  people = fisherYatesShuffle(people);
+  people = fisherYatesShuffle(people, ctx.random);
 
   if (parsed) {
     people = people.sort((p1, p2) => {
@@ -582,9 +1303,6 @@ function executeAssignment(
       if (pb1 === null) return 1;
       if (pb2 === null) return -1;
       const diff = (pb1 ?? Infinity) - (pb2 ?? Infinity);
-      if (diff === 0) {
-        return Math.random() - 0.5;
-      }
       return diff;
     });
   }
@@ -595,6 +1313,18 @@ function executeAssignment(
     : [];
 
   const warnings: string[] = [];
+  const totalCapacity = groups.reduce(
+    (sum, group) => sum + (capacityOf(group.id) ?? Infinity),
+    0,
+  );
+  const competing = people.filter((p) =>
+    assignmentSets.some((set) => set.personFilter(p)),
+  ).length;
+  if (totalCapacity < competing) {
+    const message = `Total capacity of ${roundId} (${totalCapacity}) is below the number of competitors (${competing})`;
+    console.warn(`⚠️  ${message}`);
+    warnings.push(message);
+  }
   const assignmentsByPerson = new Map<
     number,
     { group: Group; set: string; stationNumber?: number }
@@ -623,14 +1353,74 @@ function executeAssignment(
     conflictingActivitiesByGroup.set(group.id, conflicts);
   }
 
-  let groupSizeLimit = people.length / groups.length;
-  if (maxGroupSize !== undefined) {
-    groupSizeLimit = Math.min(groupSizeLimit, maxGroupSize);
+  const pairings = resolvePairings(people, pairingRules, roundId, warnings);
+  if (pairings) {
+    checkPairings(
+      pairings,
+      people,
+      groups,
+      assignmentSets,
+      conflictingActivitiesByGroup,
+      activityIds,
+      capacityOf,
+      roundId,
+    );
   }
 
+  if (clearExisting && !stability) {
+    competition.persons.forEach((person) => {
+      removeAssignments(
+        ctx,
+        person,
+        (a) =>
+          activityIds.includes(a.activityId) &&
+          a.assignmentCode === 'competitor',
+      );
+    });
+  }
+
+  const prior = stability
+    ? collectPriorAssignments(competition, groups, conflictingActivitiesByGroup)
+    : new Map<number, PriorAssignment>();
+  const priorByPerson: { [personId: number]: number } = {};
+  for (const [personId, assignment] of prior) {
+    if (!assignment.conflicting) priorByPerson[personId] = assignment.group.id;
+  }
+  const lpConflicts = Object.fromEntries(
+    [...conflictingActivitiesByGroup].map(([groupId, conflicts]) => [
+      groupId,
+      stability
+        ? conflicts.filter((id) => !activityIds.includes(id))
+        : conflicts,
+    ]),
+  );
+  const eligibleIds = new Set<number>();
+
+  let groupSizeLimit = people.length / groups.length;
+  const knownCapacities = groups.flatMap((g) => capacityOf(g.id) ?? []);
+  const meanCapacity =
+    knownCapacities.length > 0
+      ? knownCapacities.reduce((sum, c) => sum + c, 0) / knownCapacities.length
+      : undefined;
+  // larger groups fill proportionally faster, so groups stay balanced
+  // relative to their capacity rather than to each other
+  const softLimitOf = (groupId: number): number => {
+    const capacity = capacityOf(groupId);
+    if (capacity === undefined || meanCapacity === undefined) {
+      return groupSizeLimit;
+    }
+    return Math.min(capacity, (groupSizeLimit * capacity) / meanCapacity);
+  };
+  const canGrow = (within: Group[]): boolean =>
+    within.some((g) => softLimitOf(g.id) < (capacityOf(g.id) ?? Infinity));
+
   for (const set of assignmentSets) {
-    const eligibleGroups = fisherYatesShuffle(groups.filter(set.groupFilter));
+    const eligibleGroups = fisherYatesShuffle(
+      groups.filter(set.groupFilter),
+      ctx.random,
+    );
     const eligiblePeople = people.filter(set.personFilter);
+    for (const person of eligiblePeople) eligibleIds.add(person.registrantId);
 
     if (eligibleGroups.length === 0) {
       warnings.push(`NO_ELIGIBLE_GROUPS for ${set.name}`);
@@ -661,10 +1451,72 @@ function executeAssignment(
       }
     });
 
-    const shuffledQueue = fisherYatesShuffle(queue);
+    const shuffledQueue = fisherYatesShuffle(queue, ctx.random);
     queue.length = 0;
     queue.push(...shuffledQueue);
 
+    if (decomposition.strategy === 'greedy') {
+      const paired = new Set(
+        pairings
+          ? [...pairings.clusterOf.keys(), ...pairings.apart.keys()]
+          : [],
+      );
+      const placedByGroup = Object.fromEntries(assignmentsByGroup);
+      const settled = placeGreedily(
+        queue.filter(
+          ({ person }) =>
+            preAssignedByPerson[person.registrantId] === undefined &&
+            !paired.has(person.registrantId),
+        ),
+        eligibleGroups,
+        currentByGroup,
+        (groupId) =>
+          (currentByGroup[groupId]?.length ?? 0) +
+            (preAssignedByGroup[groupId] ?? 0) <
+          softLimitOf(groupId),
+        (person, within) => {
+          const scores = groupScores(
+            person,
+            within,
+            scorers,
+            placedByGroup,
+            currentByGroup,
+            lpConflicts,
+          );
+          const prior = priorByPerson[person.registrantId];
+          if (stability && prior !== undefined && prior in scores) {
+            scores[prior] = (scores[prior] ?? 0) + stability.weight;
+          }
+          return scores;
+        },
+        decomposition.contested ?? DEFAULT_CONTESTED_SHARE,
+      );
+      const unsettled = queue.filter(
+        ({ person }) => !settled.has(person.registrantId),
+      );
+      queue.length = 0;
+      queue.push(...unsettled);
+    }
+
+    const bucketOf =
+      decomposition.strategy === 'buckets'
+        ? (decomposition.bucketBy ?? ((person: Person) => person.countryIso2))
+        : undefined;
+    const bucketSizes = new Map<string, number>();
+    if (bucketOf) {
+      for (const { person } of queue) {
+        const bucket = bucketOf(person);
+        bucketSizes.set(bucket, (bucketSizes.get(bucket) ?? 0) + 1);
+      }
+    }
+    // largest buckets first, so they get the most even spread of groups
+    const bucketOrder = [...bucketSizes.keys()].sort(
+      (a, b) =>
+        (bucketSizes.get(b) ?? 0) - (bucketSizes.get(a) ?? 0) ||
+        a.localeCompare(b),
+    );
+    let solveWholeQueue = false;
+
     let previousLength = -1;
     let iterationCount = 0;
     const maxIterations = 10000;
@@ -674,29 +1526,21 @@ function executeAssignment(
       const potentialInfinite = queue.length === previousLength;
       previousLength = queue.length;
 
-      const effectiveLimit =
-        maxGroupSize !== undefined
-          ? Math.min(groupSizeLimit, maxGroupSize)
-          : groupSizeLimit;
-
       const groupsToUse = eligibleGroups.filter((group) => {
         const current = currentByGroup[group.id];
         if (!current) return false;
         const currentSize =
           current.length + (preAssignedByGroup[group.id] ?? 0);
-        return currentSize < effectiveLimit;
+        return currentSize < softLimitOf(group.id);
       });
 
       if (groupsToUse.length === 0) {
-        if (maxGroupSize === undefined || groupSizeLimit < maxGroupSize) {
+        if (canGrow(eligibleGroups)) {
           groupSizeLimit++;
-          if (maxGroupSize !== undefined) {
-            groupSizeLimit = Math.min(groupSizeLimit, maxGroupSize);
-          }
           continue;
         } else {
           warnings.push(
-            `Cannot assign all people in '${set.name}': groups full at limit ${maxGroupSize}`,
+            `Cannot assign all people in '${set.name}': groups are at capacity`,
           );
           break;
         }
@@ -711,25 +1555,138 @@ function executeAssignment(
           if (!toKeep) preAssignedTotal--;
           return toKeep;
         }),
+        ctx.random,
       );
 
-      const lpGroupSizeLimit = maxGroupSize ?? groupSizeLimit;
+      const forbidden = new Map<number, Set<number>>();
+      if (pairings) {
+        const placed = new Map<number, number>();
+        for (const [personId, assignment] of assignmentsByPerson) {
+          placed.set(personId, assignment.group.id);
+        }
+        for (const [groupId, persons] of Object.entries(currentByGroup)) {
+          for (const person of persons) {
+            placed.set(person.registrantId, Number(groupId));
+          }
+        }
+        for (const { person } of filteredQueue) {
+          forbidden.set(
+            person.registrantId,
+            forbiddenGroups(
+              pairings,
+              person.registrantId,
+              placed,
+              eligibleGroups,
+              (groupId) =>
+                (currentByGroup[groupId]?.length ?? 0) +
+                (preAssignedByGroup[groupId] ?? 0),
+              capacityOf,
+            ),
+          );
+        }
+      }
+      // a cluster is only solved whole, so one blocked member blocks it all
+      const blockedIn = (queueItem: { person: Person }, within: Group[]) => {
+        const id = queueItem.person.registrantId;
+        return (pairings?.clusterOf.get(id) ?? [id]).some((member) => {
+          const excluded = forbidden.get(member);
+          return (
+            excluded !== undefined && within.every((g) => excluded.has(g.id))
+          );
+        });
+      };
+      const [lpQueue, blockedQueue] = partition(
+        filteredQueue,
+        (queueItem) => !blockedIn(queueItem, groupsToUse),
+      );
+
+      if (lpQueue.length === 0) {
+        queue.length = 0;
+        queue.push(...filteredQueue);
+        if (
+          canGrow(eligibleGroups) &&
+          blockedQueue.some((item) => !blockedIn(item, eligibleGroups))
+        ) {
+          groupSizeLimit++;
+          continue;
+        }
+        warnings.push(
+          `Cannot place ${blockedQueue.map((item) => item.person.name).join(', ')} in '${set.name}': together/apart constraints leave no open group`,
+        );
+        break;
+      }
+
+      const bucket =
+        bucketOf && !solveWholeQueue
+          ? bucketOrder.find((b) =>
+              lpQueue.some((item) => bucketOf(item.person) === b),
+            )
+          : undefined;
+      const inBucket = (person: Person) =>
+        (pairings?.clusterOf.get(person.registrantId) ?? [person.registrantId])
+          .map((id) => lpQueue.find((item) => item.person.registrantId === id))
+          .some((item) => item && bucketOf?.(item.person) === bucket);
+      const [solveQueue, laterQueue] =
+        bucketOf && bucket !== undefined
+          ? partition(lpQueue, (item) => inBucket(item.person))
+          : [lpQueue, []];
+
+      const lpGroupSizeLimit = Object.fromEntries(
+        groupsToUse.map((g) => [
+          g.id,
+          capacityOf(g.id) ?? Math.ceil(groupSizeLimit),
+        ]),
+      );
 
       const model = constructAssignmentModel(
-        filteredQueue,
+        solveQueue,
         groupsToUse,
         scorers,
         Object.fromEntries(assignmentsByGroup),
         currentByGroup,
         preAssignedByPerson,
-        Object.fromEntries(conflictingActivitiesByGroup),
+        lpConflicts,
         lpGroupSizeLimit,
         preAssignedByGroup,
+        ctx.random,
+        priorByPerson,
+        stability?.weight,
+        pairings && {
+          forbidden: Object.fromEntries(
+            solveQueue.map(({ person }) => [
+              person.registrantId,
+              [...(forbidden.get(person.registrantId) ?? [])],
+            ]),
+          ),
+          together: pairings.clusters
+            .map((members) =>
+              members.filter((id) =>
+                solveQueue.some((item) => item.person.registrantId === id),
+              ),
+            )
+            .filter((members) => members.length > 1),
+        },
       );
 
-      const solution = solver.solve(model);
+      const solution = yield { model, solver };
+      const solverWarning = checkSolverResult(solution, {
+        roundId,
+        assignmentSet: set.name,
+      });
+      if (
+        solverWarning &&
+        !warnings.includes(`${set.name}: ${solverWarning}`)
+      ) {
+        warnings.push(`${set.name}: ${solverWarning}`);
+      }
 
       if (!solution.feasible) {
+        // a bucket can be stuck on its own, e.g. when every group left
+        // clashes with its people, so retry with everyone
+        if (laterQueue.length > 0) {
+          solveWholeQueue = true;
+          continue;
+        }
         if (potentialInfinite) {
           warnings.push(
             `Assignment '${set.name}' is not feasible, breaking loop.`,
@@ -738,24 +1695,15 @@ function executeAssignment(
         }
         continue;
       }
-
-      const variableMap = new Map<string, number>();
-      for (const [key, value] of Object.entries(solution)) {
-        if (
-          !['feasible', 'result', 'bounded', 'isIntegral'].includes(key) &&
-          typeof value === 'number'
-        ) {
-          variableMap.set(key, value);
-        }
-      }
+      solveWholeQueue = false;
 
       const newlyAssigned: { person: Person; group: Group }[] = [];
       const indicesToErase: number[] = [];
 
-      filteredQueue.forEach((queueItem, idx) => {
+      solveQueue.forEach((queueItem, idx) => {
         groupsToUse.forEach((group) => {
           const key = `${queueItem.person.registrantId}-g${group.id}`;
-          const value = variableMap.get(key);
+          const value = solution.values[key];
           if (value !== undefined && Math.round(value) === 1) {
             newlyAssigned.push({ person: queueItem.person, group });
             indicesToErase.push(idx);
@@ -763,11 +1711,11 @@ function executeAssignment(
         });
       });
 
-      const remainingQueue = filteredQueue.filter(
+      const remainingQueue = solveQueue.filter(
         (_, idx) => !indicesToErase.includes(idx),
       );
       queue.length = 0;
-      queue.push(...remainingQueue);
+      queue.push(...remainingQueue, ...laterQueue, ...blockedQueue);
 
       newlyAssigned.forEach((assn) => {
         const currentGroup = currentByGroup[assn.group.id];
@@ -775,7 +1723,7 @@ function executeAssignment(
 
         const currentSize =
           currentGroup.length + (preAssignedByGroup[assn.group.id] ?? 0);
-        const hardLimit = maxGroupSize ?? Infinity;
+        const hardLimit = capacityOf(assn.group.id) ?? Infinity;
 
         if (currentSize < hardLimit) {
           currentGroup.push(assn.person);
@@ -789,16 +1737,34 @@ function executeAssignment(
           queue.push({ person: assn.person, idx: queue.length });
         }
       });
-    }
 
-    const finalEffectiveLimit = maxGroupSize ?? groupSizeLimit;
+      // with pairings the solver may place nobody, e.g. when every open group
+      // clashes with the people left, so widen the solve before giving up
+      if (newlyAssigned.length === 0) {
+        if (laterQueue.length > 0) {
+          solveWholeQueue = true;
+          continue;
+        }
+        if (
+          groupsToUse.length < eligibleGroups.length &&
+          canGrow(eligibleGroups)
+        ) {
+          groupSizeLimit++;
+          continue;
+        }
+        warnings.push(
+          `Cannot place ${solveQueue.map((item) => item.person.name).join(', ')} in '${set.name}': no open group is free for them`,
+        );
+        break;
+      }
+    }
 
     for (const [groupIdStr, persons] of Object.entries(currentByGroup)) {
       const groupId = Number(groupIdStr);
       const preAssignedCount = preAssignedByGroup[groupId] ?? 0;
       const maxNewAssignments = Math.max(
         0,
-        finalEffectiveLimit - preAssignedCount,
+        (capacityOf(groupId) ?? Math.ceil(groupSizeLimit)) - preAssignedCount,
       );
       const personsToAssign = persons.slice(0, maxNewAssignments);
 
@@ -823,23 +1789,64 @@ function executeAssignment(
     }
   }
 
+  const moves = stability
+    ? stabiliseAssignments(
+        competition,
+        prior,
+        assignmentsByPerson,
+        assignmentsByGroup,
+        assignmentSets,
+        eligibleIds,
+        stability.maxMoves,
+        capacityOf,
+        warnings,
+        new Set(
+          pairings
+            ? [...pairings.clusterOf.keys(), ...pairings.apart.keys()]
+            : [],
+        ),
+      )
+    : undefined;
+
+  if (pairings) {
+    const violations = pairingViolations(
+      pairings,
+      people,
+      assignmentsByPerson,
+      warnings,
+    );
+    if (violations.length > 0) {
+      throw new TypeCompError(
+        `Pairing constraints violated in ${roundId}:\n  ${violations.join('\n  ')}`,
+        'INFEASIBLE_CONSTRAINTS',
+        { roundId, violations },
+      );
+    }
+  }
+
   for (const rule of stationRules) {
     if (!rule.assignStations) continue;
 
     for (const group of groups) {
       const groupAssignments = assignmentsByGroup.get(group.id) ?? [];
+      const tieBreak = new Map(
+        groupAssignments.map((a) => [a.person.registrantId, ctx.random()]),
+      );
+      const breakTie = (a1: { person: Person }, a2: { person: Person }) =>
+        (tieBreak.get(a1.person.registrantId) ?? 0) -
+        (tieBreak.get(a2.person.registrantId) ?? 0);
 
       groupAssignments.sort((a1, a2) => {
         const score1 = rule.scorer.getScore(a1.person, group, []);
         const score2 = rule.scorer.getScore(a2.person, group, []);
         if (rule.order === 'ascending') {
           if (score1 === score2) {
-            return Math.random() - 0.5;
+            return breakTie(a1, a2);
           }
           return score1 - score2;
         }
         if (score1 === score2) {
-          return Math.random() - 0.5;
+          return breakTie(a1, a2);
         }
         return score2 - score1;
       });
@@ -859,7 +1866,7 @@ function executeAssignment(
   for (const [personId, assignment] of assignmentsByPerson) {
     const groupId = assignment.group.id;
     const currentCount = groupCounts.get(groupId) ?? 0;
-    const effectiveLimit = maxGroupSize ?? Infinity;
+    const effectiveLimit = capacityOf(groupId) ?? Infinity;
 
     if (currentCount < effectiveLimit) {
       groupCounts.set(groupId, currentCount + 1);
@@ -868,22 +1875,417 @@ function executeAssignment(
         (p) => p.registrantId === personId,
       );
       if (person) {
+        const before = prior.get(personId);
+        if (
+          before?.group.id === groupId &&
+          (stationRules.length === 0 ||
+            before.stationNumber === (assignment.stationNumber ?? null))
+        ) {
+          continue;
+        }
+        if (stability) {
+          removeAssignments(
+            ctx,
+            person,
+            (a) =>
+              activityIds.includes(a.activityId) &&
+              a.assignmentCode === 'competitor',
+          );
+        }
+
         const wcifAssignment: Assignment = {
           activityId: groupId,
           assignmentCode: 'competitor',
           stationNumber: assignment.stationNumber ?? null,
         };
 
-        if (!person.assignments) person.assignments = [];
-        person.assignments.push(wcifAssignment);
+        addAssignment(
+          ctx,
+          person,
+          wcifAssignment,
+          assignment.group.activityCode,
+        );
       }
     }
   }
 
+  for (const personId of prior.keys()) {
+    if (assignmentsByPerson.has(personId)) continue;
+    const person = competition.persons.find((p) => p.registrantId === personId);
+    if (!person) continue;
+    removeAssignments(
+      ctx,
+      person,
+      (a) =>
+        activityIds.includes(a.activityId) && a.assignmentCode === 'competitor',
+    );
+  }
+
   const totalAssigned = assignmentsByPerson.size;
   console.log(
     `✓ Assigned ${totalAssigned} competitors to ${groups.length} groups for ${roundId}`,
   );
+  recordScorers(ctx, roundId, groupByScorer);
+
+  if (projection) {
+    markProvisional(ctx, projection);
+    console.log(
+      `  Provisional: ${projection.competitors.length} projected to advance from ${projection.fromRoundId} (${projection.basis})`,
+    );
+  } else {
+    unmarkProvisional(ctx, roundId);
+  }
+
+  if (moves) {
+    const changed = moves.filter((m) => m.reason !== 'new').length;
+    console.log(
+      `✓ Stable assignment for ${roundId}: ${prior.size - changed} kept, ${moves.length - changed} new, ${changed} moved or removed`,
+    );
+    for (const line of formatAssignmentMoves(moves)) {
+      console.log(`  ${line}`);
+    }
+  }
+
+  return {
+    assigned: totalAssigned,
+    groups: groups.length,
+    warnings,
+    roundId,
+    moves,
+    provisional: projection !== null,
+  };
+}
+
+function resolvePairings(
+  people: Person[],
+  rules: PairingRule[],
+  roundId: string,
+  warnings: string[],
+): ResolvedPairings | undefined {
+  if (rules.length === 0) return undefined;
+
+  const parent = new Map<number, number>();
+  const find = (id: number): number => {
+    const next = parent.get(id) ?? id;
+    if (next === id) return id;
+    const root = find(next);
+    parent.set(id, root);
+    return root;
+  };
+  const apart = new Map<number, Set<number>>();
+
+  for (const rule of rules) {
+    const a = people.filter(rule.a).map((p) => p.registrantId);
+    const b = people.filter(rule.b).map((p) => p.registrantId);
+    const [first] = a;
+    if (first === undefined || b.length === 0) {
+      warnings.push(
+        `Ignoring ${rule.kind} constraint in ${roundId}: one side matches nobody in the round`,
+      );
+      continue;
+    }
+
+    if (rule.kind === 'together') {
+      for (const id of [...a, ...b]) parent.set(find(id), find(first));
+      continue;
+    }
+    for (const x of a) {
+      for (const y of b) {
+        if (x === y) continue;
+        apart.set(x, (apart.get(x) ?? new Set()).add(y));
+        apart.set(y, (apart.get(y) ?? new Set()).add(x));
+      }
+    }
+  }
+
+  const byRoot = new Map<number, number[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    byRoot.set(root, [...(byRoot.get(root) ?? []), id]);
+  }
+  const clusters = [...byRoot.values()].filter((ids) => ids.length > 1);
+  const clusterOf = new Map<number, number[]>();
+  for (const cluster of clusters) {
+    for (const id of cluster) clusterOf.set(id, cluster);
+  }
+
+  // keeping x apart from y also keeps x apart from everyone who sits with y
+  for (const [x, others] of [...apart]) {
+    for (const y of [...others]) {
+      for (const xs of clusterOf.get(x) ?? [x]) {
+        for (const ys of clusterOf.get(y) ?? [y]) {
+          if (xs === ys) continue;
+          apart.set(xs, (apart.get(xs) ?? new Set()).add(ys));
+          apart.set(ys, (apart.get(ys) ?? new Set()).add(xs));
+        }
+      }
+    }
+  }
+
+  return { clusters, clusterOf, apart };
+}
+
+function checkPairings(
+  pairings: ResolvedPairings,
+  people: Person[],
+  groups: Group[],
+  assignmentSets: AssignmentSetConfig[],
+  conflictingActivitiesByGroup: Map<number, number[]>,
+  activityIds: number[],
+  capacityOf: CapacityLookup,
+  roundId: string,
+): void {
+  const personsById = new Map(people.map((p) => [p.registrantId, p]));
+  const nameOf = (id: number) => personsById.get(id)?.name ?? String(id);
+  const fail = (message: string, ids: number[]): never => {
+    throw new TypeCompError(
+      `Infeasible pairing in ${roundId}: ${message}`,
+      'INFEASIBLE_CONSTRAINTS',
+      { roundId, persons: ids.map(nameOf) },
+    );
+  };
+
+  const allowed = new Map<number, Group[]>();
+  const allowedFor = (id: number): Group[] => {
+    const cached = allowed.get(id);
+    if (cached) return cached;
+    const person = personsById.get(id);
+    const result = !person
+      ? []
+      : groups.filter(
+          (group) =>
+            assignmentSets.some(
+              (set) => set.personFilter(person) && set.groupFilter(group),
+            ) &&
+            !(person.assignments ?? []).some(
+              (a) =>
+                a.assignmentCode === 'competitor' &&
+                !activityIds.includes(a.activityId) &&
+                conflictingActivitiesByGroup
+                  .get(group.id)
+                  ?.includes(a.activityId),
+            ),
+        );
+    allowed.set(id, result);
+    return result;
+  };
+
+  for (const cluster of pairings.clusters) {
+    const names = cluster.map(nameOf).join(', ');
+    for (const id of cluster) {
+      const clash = cluster.find((other) => pairings.apart.get(id)?.has(other));
+      if (clash !== undefined) {
+        fail(
+          `${nameOf(id)} and ${nameOf(clash)} must be both together and apart`,
+          [id, clash],
+        );
+      }
+    }
+    const common = groups.filter((group) =>
+      cluster.every((id) => allowedFor(id).includes(group)),
+    );
+    const largest = Math.max(
+      ...common.map((group) => capacityOf(group.id) ?? Infinity),
+    );
+    if (common.length > 0 && cluster.length > largest) {
+      fail(
+        `${names} must be together but their groups hold at most ${largest}`,
+        cluster,
+      );
+    }
+    if (common.length === 0) {
+      const options = cluster
+        .map(
+          (id) =>
+            `${nameOf(id)}: ${
+              allowedFor(id)
+                .map((g) => g.activityCode)
+                .join(', ') || 'none'
+            }`,
+        )
+        .join('; ');
+      fail(`no group fits ${names} together (${options})`, cluster);
+    }
+  }
+
+  for (const [id, others] of pairings.apart) {
+    const [only, ...rest] = allowedFor(id);
+    if (!only || rest.length > 0) continue;
+    for (const other of others) {
+      const otherAllowed = allowedFor(other);
+      if (otherAllowed.length === 1 && otherAllowed[0] === only) {
+        fail(
+          `${nameOf(id)} and ${nameOf(other)} must be apart but can only compete in ${only.activityCode}`,
+          [id, other],
+        );
+      }
+    }
+  }
+}
+
+function forbiddenGroups(
+  pairings: ResolvedPairings,
+  personId: number,
+  placed: Map<number, number>,
+  groups: Group[],
+  groupSize: (groupId: number) => number,
+  capacityOf: CapacityLookup,
+): Set<number> {
+  const forbidden = new Set<number>();
+  const cluster = pairings.clusterOf.get(personId) ?? [];
+  const clusterGroup = cluster
+    .map((id) => placed.get(id))
+    .find((groupId) => groupId !== undefined);
+  const unplaced = cluster.filter((id) => !placed.has(id)).length;
+
+  for (const group of groups) {
+    if (clusterGroup !== undefined) {
+      if (group.id !== clusterGroup) forbidden.add(group.id);
+    } else if (
+      groupSize(group.id) + unplaced >
+      (capacityOf(group.id) ?? Infinity)
+    ) {
+      forbidden.add(group.id);
+    }
+  }
+
+  for (const other of pairings.apart.get(personId) ?? []) {
+    const groupId = placed.get(other);
+    if (groupId !== undefined) forbidden.add(groupId);
+  }
+
+  return forbidden;
+}
+
+function pairingViolations(
+  pairings: ResolvedPairings,
+  people: Person[],
+  assignmentsByPerson: Map<number, { group: Group }>,
+  warnings: string[],
+): string[] {
+  const nameOf = (id: number) =>
+    people.find((p) => p.registrantId === id)?.name ?? String(id);
+  const groupOf = (id: number) => assignmentsByPerson.get(id)?.group;
+  const violations: string[] = [];
+
+  for (const cluster of pairings.clusters) {
+    const placed = cluster.filter((id) => groupOf(id));
+    const codes = new Set(placed.map((id) => groupOf(id)?.activityCode));
+    if (codes.size > 1) {
+      violations.push(
+        `together: ${placed.map((id) => `${nameOf(id)} (${groupOf(id)?.activityCode})`).join(', ')}`,
+      );
+    } else if (placed.length > 0 && placed.length < cluster.length) {
+      warnings.push(
+        `together: ${cluster
+          .filter((id) => !groupOf(id))
+          .map(nameOf)
+          .join(', ')} not placed with ${placed.map(nameOf).join(', ')}`,
+      );
+    }
+  }
+
+  for (const [id, others] of pairings.apart) {
+    const group = groupOf(id);
+    if (!group) continue;
+    for (const other of others) {
+      if (other > id && groupOf(other)?.id === group.id) {
+        violations.push(
+          `apart: ${nameOf(id)} and ${nameOf(other)} both in ${group.activityCode}`,
+        );
+      }
+    }
+  }
+
+  return violations;
+}
+
+function stabiliseAssignments(
+  competition: Competition,
+  prior: Map<number, PriorAssignment>,
+  assignmentsByPerson: Map<
+    number,
+    { group: Group; set: string; stationNumber?: number }
+  >,
+  assignmentsByGroup: Map<
+    number,
+    { person: Person; set: string; stationNumber?: number }[]
+  >,
+  assignmentSets: AssignmentSetConfig[],
+  eligibleIds: Set<number>,
+  maxMoves: number,
+  capacityOf: CapacityLookup,
+  warnings: string[],
+  paired: Set<number>,
+): AssignmentMove[] {
+  const personsById = new Map(
+    competition.persons.map((p) => [p.registrantId, p]),
+  );
+  const moves: AssignmentMove[] = [];
+  let rebalanced = 0;
+
+  for (const personId of new Set([
+    ...prior.keys(),
+    ...assignmentsByPerson.keys(),
+  ])) {
+    const person = personsById.get(personId);
+    if (!person) continue;
+
+    const before = prior.get(personId);
+    const after = assignmentsByPerson.get(personId);
+    if (before && after && before.group.id === after.group.id) continue;
+
+    const move = (reason: MoveReason): AssignmentMove => ({
+      registrantId: personId,
+      name: person.name,
+      from: before?.group.activityCode ?? null,
+      to: after?.group.activityCode ?? null,
+      reason,
+    });
+
+    if (!before) {
+      moves.push(move('new'));
+      continue;
+    }
+    if (!after) {
+      moves.push(move(eligibleIds.has(personId) ? 'unassigned' : 'withdrawn'));
+      continue;
+    }
+
+    const set = assignmentSets.find((s) => s.name === after.set);
+    if (before.conflicting) {
+      moves.push(move('conflict'));
+      continue;
+    }
+    if (set && !set.groupFilter(before.group)) {
+      moves.push(move('ineligible'));
+      continue;
+    }
+
+    if (rebalanced >= maxMoves) {
+      const target = assignmentsByGroup.get(before.group.id) ?? [];
+      if (paired.has(personId)) {
+        warnings.push(
+          `Cannot keep ${person.name} in ${before.group.activityCode}: together/apart constraint`,
+        );
+      } else if (target.length < (capacityOf(before.group.id) ?? Infinity)) {
+        const source = assignmentsByGroup.get(after.group.id) ?? [];
+        const idx = source.findIndex((a) => a.person.registrantId === personId);
+        const [entry] = idx >= 0 ? source.splice(idx, 1) : [];
+        target.push(entry ?? { person, set: after.set });
+        assignmentsByGroup.set(before.group.id, target);
+        after.group = before.group;
+        continue;
+      } else {
+        warnings.push(
+          `Cannot keep ${person.name} in ${before.group.activityCode}: group is full`,
+        );
+      }
+    }
+
+    rebalanced++;
+    moves.push(move('rebalanced'));
+  }
 
-  return { assigned: totalAssigned, groups: groups.length, warnings, roundId };
+  return moves;
 }
@@ -0,0 +1,258 @@
+import { DateTime } from 'luxon';
+import { getAllActivitiesForRoundId } from '../functions/groups-helpers';
+import {
+  type SolveRequest,
+  type SolverResult,
+  type SolveSteps,
+  solveSteps,
+} from '../solvers/solver';
+import {
+  defaultWorkerCount,
+  type SolverPool,
+  startSolverPool,
+} from '../solvers/solver-pool';
+import type { Assignment, Competition } from '../types/wcif';
+import { forkRandom, type RandomSource } from '../utils/random';
+import type { TypeComp } from './context';
+
+export type JobKind = 'competitors' | 'staff';
+
+export interface ScheduledJob<T> {
+  roundId: string;
+  kind: JobKind;
+  steps: () => SolveSteps<T>;
+  // which competitor assignments a competitor job looks at: only those in
+  // groups overlapping its round, or every one (the default). Staff jobs
+  // always look at everything.
+  reads?: 'overlapping' | 'all';
+}
+
+export interface ScheduleOptions {
+  // worker threads to solve on; 0 solves every model on the main thread
+  workers?: number;
+  verbose?: boolean;
+}
+
+interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+function roundWindow(
+  competition: Competition,
+  roundId: string,
+): TimeWindow | null {
+  const activities = getAllActivitiesForRoundId(competition, roundId);
+  if (activities.length === 0) return null;
+  const millis = (iso: string) => DateTime.fromISO(iso).toMillis();
+  return {
+    start: Math.min(...activities.map((a) => millis(a.startTime))),
+    end: Math.max(...activities.map((a) => millis(a.endTime))),
+  };
+}
+
+// Job k waits for an earlier job i when either one reads what the other
+// writes, so every job sees exactly the assignments it would in a sequential
+// run. Competitor jobs read competitor assignments: scorers like
+// recentlyCompeted look at earlier groups, so only jobs marked
+// `reads: 'overlapping'` skip rounds that do not overlap their own. Staff
+// scorers can look at any assignment in the competition.
+export function jobDependencies<T>(
+  competition: Competition,
+  jobs: ScheduledJob<T>[],
+): number[][] {
+  const windows = jobs.map((job) => roundWindow(competition, job.roundId));
+  const overlap = (a: number, b: number): boolean => {
+    const wa = windows[a];
+    const wb = windows[b];
+    if (!wa || !wb) return true;
+    return wa.start < wb.end && wb.start < wa.end;
+  };
+  const sees = (reader: number, writer: number): boolean => {
+    const r = jobs[reader];
+    const w = jobs[writer];
+    if (!r || !w) return true;
+    if (r.kind === 'staff' || r.reads !== 'overlapping') return true;
+    return (
+      w.kind === 'competitors' &&
+      (r.roundId === w.roundId || overlap(reader, writer))
+    );
+  };
+
+  return jobs.map((_, k) =>
+    jobs.slice(0, k).flatMap((_, i) => (sees(k, i) || sees(i, k) ? [i] : [])),
+  );
+}
+
+// A job that runs alone, after every earlier job and before every later one,
+// draws from the shared random source just as it would outside the
+// scheduler. Any other job takes its own fork of the shared source as it
+// starts, so its draws do not depend on what runs beside it.
+function runsAlone(dependencies: number[][]): boolean[] {
+  const before: Set<number>[] = [];
+  for (const deps of dependencies) {
+    const all = new Set<number>();
+    for (const i of deps) {
+      all.add(i);
+      for (const j of before[i] ?? []) all.add(j);
+    }
+    before.push(all);
+  }
+  return before.map(
+    (all, k) =>
+      all.size === k && before.every((later, j) => j <= k || later.has(k)),
+  );
+}
+
+function jobRandom(tc: TypeComp, alone: boolean | undefined): RandomSource {
+  return alone ? tc.ctx.random : forkRandom(tc.ctx.random);
+}
+
+function withRandom<R>(tc: TypeComp, random: RandomSource, run: () => R): R {
+  const shared = tc.ctx.random;
+  tc.ctx.random = random;
+  try {
+    return run();
+  } finally {
+    tc.ctx.random = shared;
+  }
+}
+
+// Runs jobs one after another on the main thread. runJobs gives the same
+// assignments.
+export function runJobsInOrder<T>(tc: TypeComp, jobs: ScheduledJob<T>[]): T[] {
+  const alone = runsAlone(jobDependencies(tc.competition, jobs));
+  return jobs.map((job, k) =>
+    withRandom(tc, jobRandom(tc, alone[k]), () => solveSteps(job.steps())),
+  );
+}
+
+// Remembers which job created each assignment, and puts every person's
+// assignments back in the order a sequential run would have left them:
+// assignments from before the run first, then by job
+function assignmentOrder(tc: TypeComp) {
+  const before = new Set<Assignment>(
+    tc.competition.persons.flatMap((p) => p.assignments ?? []),
+  );
+  const owners = new Map<Assignment, number>();
+
+  return {
+    claim(job: number) {
+      for (const person of tc.competition.persons) {
+        for (const assignment of person.assignments ?? []) {
+          if (!before.has(assignment) && !owners.has(assignment)) {
+            owners.set(assignment, job);
+          }
+        }
+      }
+    },
+    restore() {
+      const rank = (a: Assignment) => owners.get(a) ?? -1;
+      for (const person of tc.competition.persons) {
+        person.assignments?.sort((a, b) => rank(a) - rank(b));
+      }
+    },
+  };
+}
+
+function solveRequest(
+  { model, solver }: SolveRequest,
+  pool: SolverPool | null,
+): Promise<SolverResult> {
+  return pool && solver.spec
+    ? pool.solve(model, solver.spec)
+    : Promise.resolve(solver.solve(model));
+}
+
+// Runs jobs whose dependencies are done side by side, solving their models on
+// worker threads. Jobs advance in lockstep: every running job yields a model,
+// the batch is solved, and the jobs resume in schedule order. Which models
+// share a batch depends only on the jobs, never on how fast a worker is.
+// Jobs start in job order, since new groups take the next free activity ids,
+// and assignments are put back in job order before each start, so the result
+// matches runJobsInOrder. Results come back in job order.
+export async function runJobs<T>(
+  tc: TypeComp,
+  jobs: ScheduledJob<T>[],
+  options: ScheduleOptions = {},
+): Promise<T[]> {
+  const { workers = defaultWorkerCount(), verbose = false } = options;
+  const dependencies = jobDependencies(tc.competition, jobs);
+  const alone = runsAlone(dependencies);
+  const randoms = new Map<number, RandomSource>();
+  const order = assignmentOrder(tc);
+  const results = new Map<number, T>();
+  const pending = new Set(jobs.keys());
+  const running = new Map<
+    number,
+    { steps: SolveSteps<T>; request: SolveRequest }
+  >();
+
+  if (verbose) {
+    console.log(`Running ${jobs.length} jobs on ${workers} workers`);
+    jobs.forEach((job, k) => {
+      const after = (dependencies[k] ?? [])
+        .map((i) => `${jobs[i]?.roundId} ${jobs[i]?.kind}`)
+        .join(', ');
+      console.log(
+        `  ${job.roundId} ${job.kind}${after ? ` after ${after}` : ''}`,
+      );
+    });
+  }
+
+  const advance = (
+    index: number,
+    steps: SolveSteps<T>,
+    resume: () => IteratorResult<SolveRequest, T>,
+  ) => {
+    const step = withRandom(tc, randoms.get(index) ?? tc.ctx.random, resume);
+    order.claim(index);
+    if (step.done) {
+      running.delete(index);
+      results.set(index, step.value);
+    } else {
+      running.set(index, { steps, request: step.value });
+    }
+  };
+
+  const pool = workers > 0 ? startSolverPool(workers) : null;
+  try {
+    while (results.size < jobs.length) {
+      // a job that needs no solve finishes as it starts and may unblock
+      // later ones, so keep starting until nothing changes
+      let started = true;
+      while (started) {
+        started = false;
+        for (const index of pending) {
+          const job = jobs[index];
+          const ready = (dependencies[index] ?? []).every((i) =>
+            results.has(i),
+          );
+          if (!job || !ready) break;
+          pending.delete(index);
+          started = true;
+          order.restore();
+          const random = jobRandom(tc, alone[index]);
+          randoms.set(index, random);
+          const steps = withRandom(tc, random, () => job.steps());
+          advance(index, steps, () => steps.next());
+        }
+      }
+      if (running.size === 0) break;
+
+      const batch = [...running].sort(([a], [b]) => a - b);
+      const solved = await Promise.all(
+        batch.map(([, { request }]) => solveRequest(request, pool)),
+      );
+      batch.forEach(([index, { steps }], i) => {
+        const result = solved[i];
+        if (result) advance(index, steps, () => steps.next(result));
+      });
+    }
+  } finally {
+    pool?.close();
+    order.restore();
+  }
+
+  return jobs.flatMap((_, k) => (results.has(k) ? [results.get(k) as T] : []));
+}
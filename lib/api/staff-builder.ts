@@ -1,18 +1,26 @@
 import { DateTime } from 'luxon';
 import type { ExecutionContext } from '@/engine';
+import { addAssignment, removeAssignments } from '@/engine/mutations';
 import {
   deduplicateGroups,
   getAllGroups,
   getGroupsForRoundCode,
 } from '../functions/groups-helpers';
 import { fisherYatesShuffle } from '../functions/utils';
+import type { CPModel } from '../solvers/ortools-bridge';
+import {
+  checkSolverResult,
+  type Solver,
+  type SolveSteps,
+  solveSteps,
+  withTimeLimit,
+} from '../solvers/solver';
 import type {
   Activity,
   JobDefinition,
   Person,
   PersonAssignment,
 } from '../types/core';
-import solver from '../types/lp-solver';
 import type { Assignment, RegistrantId } from '../types/wcif';
 import type { GroupFilter, PersonFilter } from './filters';
 import { allGroups, registered } from './filters';
@@ -29,6 +37,8 @@ export interface StaffResult {
   roundId: string;
 }
 
+const APPEND_FILL_BONUS = 1000;
+
 interface JobConfig {
   name: string;
   count: number;
@@ -43,6 +53,9 @@ export class StaffBuilder {
   private scorers: StaffScorer[] = [];
   private _overwrite: boolean = false;
   private _avoidConflicts: boolean = true;
+  private _append: boolean = false;
+  private _solver?: Solver;
+  private _timeLimit?: number;
   private unavailableFn: (
     person: Person,
   ) => ((activity: Activity) => boolean)[] = () => [];
@@ -129,6 +142,21 @@ export class StaffBuilder {
     return this;
   }
 
+  append(value: boolean = true): this {
+    this._append = value;
+    return this;
+  }
+
+  solver(solver: Solver): this {
+    this._solver = solver;
+    return this;
+  }
+
+  timeLimit(seconds: number): this {
+    this._timeLimit = seconds;
+    return this;
+  }
+
   avoidConflicts(value: boolean = true): this {
     this._avoidConflicts = value;
     return this;
@@ -142,6 +170,11 @@ export class StaffBuilder {
   }
 
   assign(): StaffResult {
+    return solveSteps(this.assignSteps());
+  }
+
+  // assign() as steps that yield each model, for runJobs
+  *assignSteps(): SolveSteps<StaffResult> {
     const { competition } = this.ctx;
 
     const allGroupsForRound = getGroupsForRoundCode(competition, this.roundId);
@@ -182,16 +215,18 @@ export class StaffBuilder {
       ),
     );
 
-    if (peopleAlreadyAssigned.length > 0) {
+    if (peopleAlreadyAssigned.length > 0 && !this._append) {
       if (this._overwrite) {
         console.log(
           `  Removing ${peopleAlreadyAssigned.length} existing staff assignments`,
         );
         peopleAlreadyAssigned.forEach((person) => {
-          person.assignments = (person.assignments ?? []).filter(
+          removeAssignments(
+            this.ctx,
+            person,
             (a) =>
-              a.assignmentCode === 'competitor' ||
-              !activityIds.includes(a.activityId),
+              a.assignmentCode !== 'competitor' &&
+              activityIds.includes(a.activityId),
           );
         });
       } else {
@@ -229,6 +264,10 @@ export class StaffBuilder {
     const combinedScorer =
       this.scorers.length > 0 ? combineStaffScorers(...this.scorers) : null;
     const warnings: string[] = [];
+    const solver = withTimeLimit(
+      this._solver ?? this.ctx.solver,
+      this._timeLimit,
+    );
     const assignmentMap = new Map<RegistrantId, PersonAssignment>();
     const allGroupsInComp = getAllGroups(competition);
     const assignmentsThisCall = new Map<RegistrantId, Set<number>>();
@@ -288,7 +327,25 @@ export class StaffBuilder {
         0,
       );
 
-      if (eligiblePeople.length < neededPeople) {
+      const existing = this._append
+        ? competition.persons.flatMap((person) =>
+            (person.assignments ?? []).filter(
+              (a) => a.activityId === activity.id,
+            ),
+          )
+        : [];
+      const openSlots = (job: JobDefinition, station?: number): number => {
+        const taken = existing.filter(
+          (a) =>
+            a.assignmentCode === job.name &&
+            (station === undefined || a.stationNumber === station),
+        ).length;
+        return Math.max(0, (station === undefined ? job.count : 1) - taken);
+      };
+
+      if (this._append && eligiblePeople.length === 0) continue;
+
+      if (!this._append && eligiblePeople.length < neededPeople) {
         const warning = `Not enough people for ${activity.name ?? activity.activityCode} (needed ${neededPeople}, got ${eligiblePeople.length})`;
         warnings.push(warning);
         console.warn(`⚠️  ${warning}`);
@@ -300,24 +357,28 @@ export class StaffBuilder {
         string,
         { min?: number; max?: number; equal?: number }
       > = {};
-      const ints: Record<string, number> = {};
+      const integers: string[] = [];
 
       jobDefinitions.forEach((job) => {
         if (job.assignStations) {
           for (let num = 0; num < job.count; num++) {
-            constraints[`job-${job.name}-${num + 1}`] = { equal: 1 };
+            constraints[`job-${job.name}-${num + 1}`] = this._append
+              ? { max: openSlots(job, num + 1) }
+              : { equal: 1 };
           }
         } else {
-          constraints[`job-${job.name}`] = { equal: job.count };
+          constraints[`job-${job.name}`] = this._append
+            ? { max: openSlots(job) }
+            : { equal: job.count };
         }
       });
 
-      const shuffled = fisherYatesShuffle(eligiblePeople);
+      const shuffled = fisherYatesShuffle(eligiblePeople, this.ctx.random);
 
       shuffled.forEach((person, idx) => {
         constraints[`person-${idx}`] = { min: 0, max: 1 };
 
-        let personScore = 0;
+        let personScore = this._append ? APPEND_FILL_BONUS : 0;
         if (combinedScorer && !combinedScorer.caresAboutJobs) {
           personScore += combinedScorer.score(competition, person, activity);
         }
@@ -365,20 +426,29 @@ export class StaffBuilder {
             };
 
             constraints[key] = { min: 0, max: 1 };
-            ints[key] = 1;
+            integers.push(key);
           });
         });
       });
 
-      const model = {
-        opType: 'max' as const,
+      const model: CPModel = {
+        opType: 'max',
         optimize: 'score',
         constraints,
         variables,
-        ints,
+        integers,
       };
 
-      const solution = solver.solve(model);
+      const solution = yield { model, solver };
+      const solverWarning = checkSolverResult(solution, {
+        roundId: this.roundId,
+        activity: activity.activityCode,
+      });
+      if (solverWarning) {
+        const warning = `${activity.name ?? activity.activityCode}: ${solverWarning}`;
+        warnings.push(warning);
+        console.warn(`⚠️  ${warning}`);
+      }
 
       if (!solution.feasible) {
         warnings.push(
@@ -387,16 +457,6 @@ export class StaffBuilder {
         continue;
       }
 
-      const variableMap = new Map<string, number>();
-      for (const [key, value] of Object.entries(solution)) {
-        if (
-          !['feasible', 'result', 'bounded', 'isIntegral'].includes(key) &&
-          typeof value === 'number'
-        ) {
-          variableMap.set(key, value);
-        }
-      }
-
       const keyToJobMap = new Map<
         string,
         { job: JobDefinition; stationNumber: number | null }
@@ -415,7 +475,7 @@ export class StaffBuilder {
         });
       });
 
-      variableMap.forEach((value, key) => {
+      Object.entries(solution.values).forEach(([key, value]) => {
         if (!key.startsWith('assignment-') || Math.round(value) !== 1) return;
 
         const jobInfo = keyToJobMap.get(key);
@@ -427,7 +487,6 @@ export class StaffBuilder {
         const person = shuffled[personIdx];
 
         if (!person) return;
-        if (!person.assignments) person.assignments = [];
 
         const newAssignment: Assignment = {
           activityId: activity.id,
@@ -435,7 +494,7 @@ export class StaffBuilder {
           stationNumber: stationNumber !== null ? stationNumber + 1 : null,
         };
 
-        person.assignments.push(newAssignment);
+        addAssignment(this.ctx, person, newAssignment, activity.activityCode);
         assignmentMap.set(
           person.registrantId,
           newAssignment as PersonAssignment,
@@ -1,5 +1,5 @@
 import { getStringProperty } from '../functions/extensions';
-import { getRoomByActivity } from '../functions/groups-helpers';
+import { getGroupStage, getRoomByActivity } from '../functions/groups-helpers';
 import type { Group, Person } from '../types/core';
 import type { Competition, Room } from '../types/wcif';
 import type { GroupFilter, PersonFilter } from './filters';
@@ -12,6 +12,8 @@ export interface StageConfig {
   isFinals?: boolean;
 
   isMain?: boolean;
+
+  stations?: number;
 }
 
 export const COMMON_STAGE_LAYOUTS = {
@@ -140,6 +142,12 @@ export class StageManager {
     };
   }
 
+  stationsForGroup(group: Group): number | null {
+    const stageName = this.getStageForGroup(group);
+    if (stageName === null) return null;
+    return this.stagesByName.get(stageName)?.stations ?? null;
+  }
+
   assignedTo(person: Person, date: string): string | null {
     return getStringProperty(person, `assigned-stage-${date}`);
   }
@@ -173,6 +181,9 @@ export class StageManager {
   }
 
   private getStageForGroup(group: Group): string | null {
+    const tagged = getGroupStage(group);
+    if (tagged !== null) return tagged;
+
     const activityName = group.name || '';
     for (const stage of this.allStages) {
       if (activityName.includes(stage.name)) {
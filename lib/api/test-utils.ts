@@ -0,0 +1,155 @@
+import { getGroupsForRound } from '../functions/groups-helpers';
+import type {
+  Activity,
+  AdvancementCondition,
+  Competition,
+  Person,
+} from '../types/wcif';
+
+export interface FixtureOptions {
+  persons?: number;
+
+  events?: string[];
+
+  rounds?: number;
+
+  // hour each event's first round starts; later rounds follow hourly
+  starts?: number[];
+
+  // the first room holds the round activities
+  rooms?: string[];
+
+  // applied to every round that has a next round
+  advancement?: AdvancementCondition;
+}
+
+const COUNTRIES = ['IE', 'IE', 'GB', 'FR', 'DE'];
+
+const hour = (h: number) => `${String(h).padStart(2, '0')}:00:00Z`;
+
+// Competitor n has the n-th fastest personal best in every event and is
+// registered for all of them.
+export function fixtureCompetition(options: FixtureOptions = {}): Competition {
+  const {
+    persons: personCount = 24,
+    events = ['333'],
+    rounds = 1,
+    starts = [],
+    rooms = ['Main Hall'],
+    advancement,
+  } = options;
+
+  const persons = Array.from({ length: personCount }, (_, i) => ({
+    registrantId: i + 1,
+    name: `Competitor ${i + 1}`,
+    wcaUserId: 100000 + i,
+    wcaId: `2020TEST${String(i + 1).padStart(2, '0')}`,
+    countryIso2: COUNTRIES[i % COUNTRIES.length] ?? 'IE',
+    gender: 'o',
+    birthdate: '2000-01-01',
+    email: `competitor${i + 1}@example.com`,
+    avatar: null,
+    roles: [],
+    registration: {
+      wcaRegistrationId: i + 1,
+      eventIds: [...events],
+      status: 'accepted',
+      isCompeting: true,
+    },
+    assignments: [],
+    personalBests: events.flatMap((eventId) =>
+      (['single', 'average'] as const).map((type) => ({
+        eventId,
+        best: 800 + i * 100 - (type === 'single' ? 100 : 0),
+        worldRanking: i + 1,
+        continentalRanking: i + 1,
+        nationalRanking: i + 1,
+        type,
+      })),
+    ),
+    extensions: [],
+  })) as unknown as Person[];
+
+  let nextId = 0;
+  const activities = events.flatMap((eventId, e) =>
+    Array.from({ length: rounds }, (_, r): Activity => {
+      const start = (starts[e] ?? 9 + e * rounds) + r;
+      return {
+        id: ++nextId,
+        name: `${eventId} Round ${r + 1}`,
+        activityCode: `${eventId}-r${r + 1}`,
+        startTime: `2026-03-01T${hour(start)}`,
+        endTime: `2026-03-01T${hour(start + 1)}`,
+        childActivities: [],
+        extensions: [],
+      };
+    }),
+  );
+
+  return {
+    formatVersion: '1.0',
+    id: 'Fixture2026',
+    name: 'Fixture 2026',
+    shortName: 'Fixture 2026',
+    persons,
+    events: events.map((id) => ({
+      id,
+      rounds: Array.from({ length: rounds }, (_, r) => ({
+        id: `${id}-r${r + 1}`,
+        format: 'a',
+        timeLimit: { centiseconds: 60000, cumulativeRoundIds: [] },
+        cutoff: null,
+        advancementCondition: r + 1 < rounds ? (advancement ?? null) : null,
+        results: [],
+        scrambleSetCount: 1,
+        extensions: [],
+      })),
+      extensions: [],
+      qualification: null,
+    })),
+    schedule: {
+      startDate: '2026-03-01',
+      numberOfDays: 1,
+      venues: [
+        {
+          id: 1,
+          name: 'Venue',
+          latitudeMicrodegrees: 0,
+          longitudeMicrodegrees: 0,
+          countryIso2: 'IE',
+          timezone: 'Europe/Dublin',
+          rooms: rooms.map((name, i) => ({
+            id: i + 1,
+            name,
+            color: '#ffffff',
+            activities: i === 0 ? activities : [],
+            extensions: [],
+          })),
+          extensions: [],
+        },
+      ],
+    },
+    competitorLimit: null,
+    extensions: [],
+  } as unknown as Competition;
+}
+
+// registrantId to the activity code of their competitor group in the round
+export function competitorGroups(
+  competition: Competition,
+  roundId: string,
+): Map<number, string> {
+  const groups = new Map(
+    getGroupsForRound(competition, roundId).map((g) => [g.id, g]),
+  );
+  const result = new Map<number, string>();
+  for (const person of competition.persons) {
+    for (const assignment of person.assignments ?? []) {
+      const group = groups.get(assignment.activityId);
+      if (group && assignment.assignmentCode === 'competitor') {
+        result.set(person.registrantId, group.activityCode);
+      }
+    }
+  }
+  return result;
+}
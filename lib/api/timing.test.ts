@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+import type { Activity } from '../types/wcif';
+import { createTypeCompFromWcif, type TypeComp } from './context';
+import { fixtureCompetition } from './test-utils';
+import { reflowGroupTimes } from './timing';
+
+const ROUND = '333-r1';
+
+function roundActivity(tc: TypeComp): Activity {
+  const round = tc.competition.schedule.venues[0]?.rooms[0]?.activities[0];
+  if (!round) throw new Error('missing round');
+  return round;
+}
+
+// competitors 1-8 in g1, 9-16 in g2 and 17-24 in g3, fastest first
+async function groupsBySpeed(): Promise<TypeComp> {
+  const tc = await createTypeCompFromWcif(fixtureCompetition(), { seed: 1 });
+  tc.round(ROUND).createGroups(3);
+  const groups = tc.groups(ROUND);
+  tc.competition.persons.forEach((person, i) => {
+    const group = groups[Math.floor(i / 8)];
+    if (!group) return;
+    person.assignments?.push({
+      activityId: group.id,
+      assignmentCode: 'competitor',
+      stationNumber: null,
+    });
+  });
+  return tc;
+}
+
+describe('group timing', () => {
+  test('re-timed groups stay inside the round and follow each other', async () => {
+    const tc = await createTypeCompFromWcif(fixtureCompetition(), { seed: 1 });
+    const { startTime, endTime } = roundActivity(tc);
+
+    const result = tc
+      .round(ROUND)
+      .createGroups(3)
+      .autoTiming({ scramblers: 10 })
+      .assign();
+    const groups = tc
+      .groups(ROUND)
+      .sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime));
+
+    expect(result.timing?.groups).toHaveLength(3);
+    expect(roundActivity(tc).endTime).toBe(endTime);
+    expect(Date.parse(groups[0]?.startTime ?? '')).toBe(Date.parse(startTime));
+    expect(Date.parse(groups[2]?.endTime ?? '')).toBe(Date.parse(endTime));
+    for (const [i, group] of groups.entries()) {
+      const next = groups[i + 1];
+      if (next) expect(next.startTime).toBe(group.endTime);
+    }
+  });
+
+  test('gives slower groups more time', async () => {
+    const tc = await groupsBySpeed();
+
+    const { groups } = reflowGroupTimes(tc.ctx, ROUND, { scramblers: 10 });
+    const minutes = groups.map(
+      (g) => (Date.parse(g.endTime) - Date.parse(g.startTime)) / 60_000,
+    );
+
+    expect(groups.map((g) => g.activityCode)).toEqual([
+      '333-r1-g1',
+      '333-r1-g2',
+      '333-r1-g3',
+    ]);
+    expect(minutes[0]).toBeLessThan(minutes[1] ?? 0);
+    expect(minutes[1]).toBeLessThan(minutes[2] ?? 0);
+  });
+
+  test('counts only the attempts before a missed cutoff', async () => {
+    const tc = await groupsBySpeed();
+    const round = tc.competition.events[0]?.rounds[0];
+    if (round) round.cutoff = { numberOfAttempts: 2, attemptResult: 2000 };
+
+    const { groups } = reflowGroupTimes(tc.ctx, ROUND, { scramblers: 10 });
+
+    expect(groups[2]?.estimatedMinutes).toBeLessThan(
+      groups[0]?.estimatedMinutes ?? 0,
+    );
+  });
+
+  test('extends the round when groups run back to back past its end', async () => {
+    const tc = await groupsBySpeed();
+    const { endTime } = roundActivity(tc);
+
+    const result = reflowGroupTimes(tc.ctx, ROUND, { fitToRound: false });
+    const last = result.groups[result.groups.length - 1];
+
+    expect(Date.parse(last?.endTime ?? '')).toBeGreaterThan(
+      Date.parse(endTime),
+    );
+    expect(Date.parse(roundActivity(tc).endTime)).toBe(
+      Date.parse(last?.endTime ?? ''),
+    );
+    expect(result.warnings).toEqual([
+      expect.stringMatching(/^333-r1 runs \d+ minutes past its scheduled end$/),
+    ]);
+  });
+});
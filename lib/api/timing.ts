@@ -0,0 +1,294 @@
+import { DateTime } from 'luxon';
+import type { ExecutionContext } from '@/engine';
+import { updateActivity } from '@/engine/mutations';
+import { isDistributedEvent, PersonalBest } from '../functions/events';
+import {
+  getGroupNumber,
+  getGroupStage,
+  getGroupsForRound,
+  getRoomByActivity,
+  getStationsByActivity,
+  getWcifRound,
+} from '../functions/groups-helpers';
+import type { Group, Person, Round } from '../types/core';
+import type { Activity, Competition } from '../types/wcif';
+import { parseRoundId } from '../utils/activity-utils';
+
+export interface GroupTimingOptions {
+  // inspection, judging and walking to and from the station
+  overheadSeconds?: number;
+
+  scrambleSeconds?: number;
+
+  // used when a group has no scrambler assignments
+  scramblers?: number;
+
+  changeoverMinutes?: number;
+
+  // solve time assumed for competitors without a PB
+  defaultSolveSeconds?: number;
+
+  // scale the estimates to fill the round's scheduled time (default), or
+  // run groups back to back and extend the round when they overrun
+  fitToRound?: boolean;
+}
+
+export interface GroupTiming {
+  activityCode: string;
+  stage: string | null;
+  competitors: number;
+  estimatedMinutes: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface GroupTimingResult {
+  roundId: string;
+  groups: GroupTiming[];
+  warnings: string[];
+}
+
+const ATTEMPTS_BY_FORMAT: Record<string, number> = {
+  '1': 1,
+  '2': 2,
+  '3': 3,
+  a: 5,
+  m: 3,
+};
+
+function competitorIn(person: Person, activities: Activity[]): boolean {
+  return (person.assignments ?? []).some(
+    (a) =>
+      a.assignmentCode === 'competitor' &&
+      activities.some((activity) => activity.id === a.activityId),
+  );
+}
+
+export function estimateCompetitorSeconds(
+  person: Person,
+  round: Round,
+  options: GroupTimingOptions = {},
+): { attempts: number; seconds: number } {
+  const eventId = parseRoundId(round.id)?.eventId ?? '';
+  const formatAttempts = ATTEMPTS_BY_FORMAT[round.format] ?? 5;
+  const limit = round.timeLimit;
+  const limitSeconds = limit
+    ? limit.centiseconds /
+      100 /
+      (limit.cumulativeRoundIds.length > 0 ? formatAttempts : 1)
+    : undefined;
+
+  const pb =
+    PersonalBest(person, eventId, 'average') ??
+    PersonalBest(person, eventId, 'single');
+  let solve =
+    pb !== null
+      ? pb / 100
+      : (options.defaultSolveSeconds ?? (limitSeconds ?? 120) / 2);
+  if (limitSeconds !== undefined) solve = Math.min(solve, limitSeconds);
+
+  const attempts =
+    round.cutoff && solve * 100 > round.cutoff.attemptResult
+      ? round.cutoff.numberOfAttempts
+      : formatAttempts;
+
+  return {
+    attempts,
+    seconds: attempts * (solve + (options.overheadSeconds ?? 30)),
+  };
+}
+
+export function estimateGroupMinutes(
+  competition: Competition,
+  activities: Activity[],
+  round: Round,
+  options: GroupTimingOptions = {},
+  stations?: number,
+): number {
+  const members = competition.persons.filter((p) =>
+    competitorIn(p, activities),
+  );
+  const changeover = options.changeoverMinutes ?? 2;
+  if (members.length === 0) return changeover;
+
+  const estimates = members.map((p) =>
+    estimateCompetitorSeconds(p, round, options),
+  );
+  const roomStations = activities.reduce(
+    (sum, activity) =>
+      sum + (getStationsByActivity(competition, activity.id) ?? 0),
+    0,
+  );
+  const parallel = Math.min(
+    members.length,
+    stations ?? (roomStations || members.length),
+  );
+  const total = estimates.reduce((sum, e) => sum + e.seconds, 0);
+  const competing = Math.max(
+    total / parallel,
+    ...estimates.map((e) => e.seconds),
+  );
+
+  const scramblers =
+    competition.persons.filter((p) =>
+      (p.assignments ?? []).some(
+        (a) =>
+          a.assignmentCode === 'staff-scrambler' &&
+          activities.some((activity) => activity.id === a.activityId),
+      ),
+    ).length ||
+    options.scramblers ||
+    1;
+  const attempts = estimates.reduce((sum, e) => sum + e.attempts, 0);
+  const scrambling = (attempts * (options.scrambleSeconds ?? 30)) / scramblers;
+
+  return Math.max(competing, scrambling) / 60 + changeover;
+}
+
+export function reflowGroupTimes(
+  ctx: ExecutionContext,
+  roundId: string,
+  options: GroupTimingOptions = {},
+  capacityOf?: (groupId: number) => number | undefined,
+): GroupTimingResult {
+  const { competition } = ctx;
+  const warnings: string[] = [];
+  const round = getWcifRound(competition, roundId);
+  const eventId = parseRoundId(roundId)?.eventId;
+
+  if (!round || !eventId) {
+    return { roundId, groups: [], warnings: [`Round ${roundId} not found`] };
+  }
+  if (isDistributedEvent(eventId)) {
+    return {
+      roundId,
+      groups: [],
+      warnings: [`${roundId} has fixed attempt durations, not re-timing`],
+    };
+  }
+
+  // a group number in several rooms is one slot; stages keep their own slots
+  const slots = new Map<string, Group[]>();
+  for (const group of getGroupsForRound(competition, roundId)) {
+    const key = `${getGroupStage(group) ?? ''}/${getGroupNumber(group)}`;
+    slots.set(key, [...(slots.get(key) ?? []), group]);
+  }
+
+  const lanes = new Map<string, Group[][]>();
+  for (const slot of slots.values()) {
+    const [first] = slot;
+    if (!first) continue;
+    const lane = getGroupStage(first) ?? '';
+    lanes.set(lane, [...(lanes.get(lane) ?? []), slot]);
+  }
+
+  const parents = competition.schedule.venues
+    .flatMap((v) => v.rooms)
+    .flatMap((room) =>
+      room.activities
+        .filter((a) => a.activityCode === roundId)
+        .map((activity) => ({ room, activity })),
+    );
+  const parentFor = (group: Group) => {
+    const room = getRoomByActivity(competition, group.id);
+    return parents.find((p) => p.room === room);
+  };
+
+  const timings: GroupTiming[] = [];
+
+  for (const [stage, laneSlots] of lanes) {
+    laneSlots.sort(
+      (a, b) =>
+        Date.parse(a[0]?.startTime ?? '') - Date.parse(b[0]?.startTime ?? ''),
+    );
+    const laneParents = laneSlots.flatMap((slot) =>
+      slot.flatMap((group) => parentFor(group) ?? []),
+    );
+    const start = DateTime.fromISO(laneSlots[0]?.[0]?.startTime ?? '', {
+      setZone: true,
+    });
+    const roundEnd = DateTime.max(
+      ...laneParents.map(({ activity }) =>
+        DateTime.fromISO(activity.endTime, { setZone: true }),
+      ),
+    );
+    if (!start.isValid || !roundEnd?.isValid) continue;
+
+    const estimates = laneSlots.map((slot) =>
+      estimateGroupMinutes(
+        competition,
+        slot,
+        round,
+        options,
+        slot[0] && capacityOf?.(slot[0].id),
+      ),
+    );
+    const estimated = estimates.reduce((sum, m) => sum + m, 0);
+    const available = roundEnd.diff(start, 'minutes').minutes;
+    const scale =
+      options.fitToRound === false || estimated === 0
+        ? 1
+        : available / estimated;
+
+    let elapsed = 0;
+    laneSlots.forEach((slot, idx) => {
+      const minutes = (estimates[idx] ?? 0) * scale;
+      const slotStart = start.plus({ minutes: Math.round(elapsed) });
+      elapsed += minutes;
+      const slotEnd = start.plus({ minutes: Math.round(elapsed) });
+      const startTime = slotStart.toISO() ?? '';
+      const endTime = slotEnd.toISO() ?? '';
+
+      for (const group of slot) {
+        updateActivity(
+          ctx,
+          group,
+          { startTime, endTime },
+          getRoomByActivity(competition, group.id)?.name,
+        );
+      }
+
+      timings.push({
+        activityCode: slot[0]?.activityCode ?? '',
+        stage: stage || null,
+        competitors: competition.persons.filter((p) => competitorIn(p, slot))
+          .length,
+        estimatedMinutes: Math.round(estimates[idx] ?? 0),
+        startTime,
+        endTime,
+      });
+    });
+
+    const laneEnd = start.plus({ minutes: Math.round(elapsed) });
+    if (laneEnd > roundEnd) {
+      warnings.push(
+        `${roundId}${stage ? ` on ${stage}` : ''} runs ${Math.round(laneEnd.diff(roundEnd, 'minutes').minutes)} minutes past its scheduled end`,
+      );
+      for (const { room, activity } of laneParents) {
+        if (DateTime.fromISO(activity.endTime) < laneEnd) {
+          updateActivity(
+            ctx,
+            activity,
+            { endTime: laneEnd.toISO() ?? activity.endTime },
+            room.name,
+          );
+        }
+      }
+    } else if (options.fitToRound !== false && scale < 1) {
+      warnings.push(
+        `${roundId}${stage ? ` on ${stage}` : ''} needs about ${Math.round(estimated)} minutes but only ${Math.round(available)} are scheduled`,
+      );
+    }
+  }
+
+  return { roundId, groups: timings, warnings };
+}
+
+export function formatGroupTimings(result: GroupTimingResult): string[] {
+  return result.groups.map((group) => {
+    const start = DateTime.fromISO(group.startTime, { setZone: true });
+    const end = DateTime.fromISO(group.endTime, { setZone: true });
+    const stage = group.stage ? ` ${group.stage}` : '';
+    return `${group.activityCode}${stage}: ${start.toFormat('HH:mm')}–${end.toFormat('HH:mm')} (${group.competitors} competitors, ~${group.estimatedMinutes} min)`;
+  });
+}
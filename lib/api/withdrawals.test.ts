@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import type { Person } from '../types/wcif';
+import { createTypeCompFromWcif, type TypeComp } from './context';
+import { competitorGroups, fixtureCompetition } from './test-utils';
+
+const ROUND = '333-r1';
+
+async function assignedRound(): Promise<TypeComp> {
+  const tc = await createTypeCompFromWcif(fixtureCompetition(), { seed: 1 });
+  tc.round(ROUND).createGroups(3).assign();
+  return tc;
+}
+
+const person = (tc: TypeComp, registrantId: number): Person =>
+  tc.persons.byId(registrantId) as Person;
+
+describe('handleWithdrawals', () => {
+  test('replaces the staff jobs of a deleted registration', async () => {
+    const tc = await assignedRound();
+    const groups = tc.groups(ROUND);
+    const withdrawnGroup = competitorGroups(tc.competition, ROUND).get(1);
+    const judged = groups.find((g) => g.activityCode !== withdrawnGroup);
+    if (!judged) throw new Error('missing group');
+
+    const judge = person(tc, 1);
+    judge.assignments?.push({
+      activityId: judged.id,
+      assignmentCode: 'staff-judge',
+      stationNumber: 3,
+    });
+    if (judge.registration) judge.registration.status = 'deleted';
+
+    const report = tc.withdrawals();
+
+    expect(report.withdrawals).toMatchObject([
+      { registrantId: 1, reason: 'deleted', removed: [{}, {}] },
+    ]);
+    expect(judge.assignments).toEqual([]);
+
+    const [replacement] = report.replacements;
+    expect(replacement).toMatchObject({
+      activityId: judged.id,
+      assignmentCode: 'staff-judge',
+      stationNumber: 3,
+      withdrawn: { registrantId: 1 },
+    });
+    const replacedBy = person(tc, replacement?.replacement?.registrantId ?? 0);
+    expect(replacedBy.registration?.status).toBe('accepted');
+    expect(replacedBy.assignments).toContainEqual({
+      activityId: judged.id,
+      assignmentCode: 'staff-judge',
+      stationNumber: 3,
+    });
+    expect(
+      replacedBy.assignments?.some(
+        (a) => a.activityId === judged.id && a.assignmentCode === 'competitor',
+      ),
+    ).toBe(false);
+    expect(report.notices).toMatchObject([
+      {
+        registrantId: replacedBy.registrantId,
+        changes: [
+          `New staff-judge assignment in ${judged.activityCode} (station 3)`,
+        ],
+      },
+    ]);
+  });
+
+  test('drops competitors from events they left and rebalances within the move cap', async () => {
+    const tc = await assignedRound();
+    const before = competitorGroups(tc.competition, ROUND);
+    const [leaving] = [...before.values()];
+    const dropped = [...before]
+      .filter(([, group]) => group === leaving)
+      .slice(0, 4)
+      .map(([id]) => id);
+    for (const id of dropped) {
+      const registration = person(tc, id).registration;
+      if (registration) registration.eventIds = [];
+    }
+
+    const report = tc.withdrawals({ rebalance: { maxMoves: 1 } });
+
+    expect(report.withdrawals.map((w) => [w.registrantId, w.reason])).toEqual(
+      dropped.map((id) => [id, 'dropped-event']),
+    );
+    expect(report.moves).toHaveLength(1);
+    expect(report.moves[0]?.to).toBe(leaving ?? '');
+
+    const after = competitorGroups(tc.competition, ROUND);
+    const moved = report.moves[0]?.registrantId;
+    for (const [id, group] of before) {
+      if (dropped.includes(id) || id === moved) continue;
+      expect(after.get(id)).toBe(group);
+    }
+  });
+});
@@ -0,0 +1,429 @@
+import type { ExecutionContext } from '@/engine';
+import { addAssignment, removeAssignments } from '@/engine/mutations';
+import { parseActivityCode } from '../functions/activity-code';
+import {
+  deduplicateGroups,
+  getGroupsForRound,
+} from '../functions/groups-helpers';
+import { fisherYatesShuffle } from '../functions/utils';
+import type { Group, Person, StaffScorer } from '../types/core';
+import type { Activity, Assignment, Competition } from '../types/wcif';
+import { extractRoundId } from '../utils/activity-utils';
+import { accepted, canScramble, type PersonFilter } from './filters';
+import { defaultStaffScorers } from './presets/scorers';
+import { type AssignmentMove, formatAssignmentMoves } from './round-builder';
+import { combineStaffScorers } from './staff-scorers';
+
+export interface WithdrawalOptions {
+  staffPool?: PersonFilter;
+
+  scorers?: StaffScorer[];
+
+  eligibility?: Record<string, (activity: Activity) => PersonFilter>;
+
+  rebalance?: { maxMoves: number; tolerance?: number };
+}
+
+export interface RemovedAssignment {
+  activityId: number;
+  activityCode: string;
+  assignmentCode: string;
+  stationNumber: number | null;
+}
+
+export interface Withdrawal {
+  registrantId: number;
+  name: string;
+  reason: 'deleted' | 'dropped-event';
+  removed: RemovedAssignment[];
+}
+
+export interface StaffReplacement extends RemovedAssignment {
+  withdrawn: { registrantId: number; name: string };
+  replacement: { registrantId: number; name: string } | null;
+}
+
+export interface WithdrawalNotice {
+  registrantId: number;
+  name: string;
+  email?: string;
+  changes: string[];
+}
+
+export interface WithdrawalReport {
+  withdrawals: Withdrawal[];
+  replacements: StaffReplacement[];
+  moves: AssignmentMove[];
+  notices: WithdrawalNotice[];
+  warnings: string[];
+}
+
+const DEFAULT_ELIGIBILITY: Record<
+  string,
+  (activity: Activity) => PersonFilter
+> = {
+  'staff-scrambler': (activity) => {
+    const eventId = parseActivityCode(activity.activityCode)?.eventId;
+    return eventId ? canScramble(eventId) : () => true;
+  },
+};
+
+function indexActivities(competition: Competition): Map<number, Activity> {
+  const byId = new Map<number, Activity>();
+  const visit = (activity: Activity): void => {
+    byId.set(activity.id, activity);
+    for (const child of activity.childActivities ?? []) visit(child);
+  };
+  for (const venue of competition.schedule.venues) {
+    for (const room of venue.rooms) {
+      for (const activity of room.activities) visit(activity);
+    }
+  }
+  return byId;
+}
+
+function overlapping(a: Activity, b: Activity): boolean {
+  return (
+    Date.parse(a.startTime) < Date.parse(b.endTime) &&
+    Date.parse(b.startTime) < Date.parse(a.endTime)
+  );
+}
+
+function isBusy(
+  person: Person,
+  activity: Activity,
+  activities: Map<number, Activity>,
+  ignore?: Assignment,
+): boolean {
+  return (person.assignments ?? []).some((a) => {
+    if (a === ignore) return false;
+    const other = activities.get(a.activityId);
+    return other !== undefined && overlapping(other, activity);
+  });
+}
+
+function withdrawalReason(
+  person: Person,
+  assignment: Assignment,
+  activities: Map<number, Activity>,
+): Withdrawal['reason'] | null {
+  if (person.registration?.status === 'deleted') return 'deleted';
+  if (assignment.assignmentCode !== 'competitor') return null;
+
+  const activity = activities.get(assignment.activityId);
+  const eventId = activity && parseActivityCode(activity.activityCode)?.eventId;
+  if (!eventId) return null;
+
+  const eventIds = person.registration?.eventIds ?? [];
+  return eventIds.some((id) => String(id) === eventId) ? null : 'dropped-event';
+}
+
+function stripWithdrawals(
+  ctx: ExecutionContext,
+  activities: Map<number, Activity>,
+): Withdrawal[] {
+  const withdrawals: Withdrawal[] = [];
+
+  for (const person of ctx.competition.persons) {
+    let reason: Withdrawal['reason'] | null = null;
+    const removed: RemovedAssignment[] = [];
+
+    removeAssignments(ctx, person, (assignment) => {
+      const why = withdrawalReason(person, assignment, activities);
+      if (!why) return false;
+      reason = why;
+      removed.push({
+        activityId: assignment.activityId,
+        activityCode:
+          activities.get(assignment.activityId)?.activityCode ??
+          String(assignment.activityId),
+        assignmentCode: assignment.assignmentCode,
+        stationNumber: assignment.stationNumber ?? null,
+      });
+      return true;
+    });
+
+    if (reason) {
+      withdrawals.push({
+        registrantId: person.registrantId,
+        name: person.name,
+        reason,
+        removed,
+      });
+    }
+  }
+
+  return withdrawals;
+}
+
+function replaceStaff(
+  ctx: ExecutionContext,
+  withdrawals: Withdrawal[],
+  activities: Map<number, Activity>,
+  options: WithdrawalOptions,
+  warnings: string[],
+): StaffReplacement[] {
+  const { competition } = ctx;
+  const scorer = combineStaffScorers(
+    ...(options.scorers ?? [defaultStaffScorers(competition)]),
+  );
+  const eligibility = { ...DEFAULT_ELIGIBILITY, ...options.eligibility };
+  const pool = competition.persons.filter(options.staffPool ?? accepted);
+  const replacements: StaffReplacement[] = [];
+
+  const vacancies = withdrawals
+    .flatMap((withdrawal) =>
+      withdrawal.removed
+        .filter((slot) => slot.assignmentCode !== 'competitor')
+        .map((slot) => ({ withdrawal, slot })),
+    )
+    .sort(
+      (a, b) =>
+        Date.parse(activities.get(a.slot.activityId)?.startTime ?? '') -
+        Date.parse(activities.get(b.slot.activityId)?.startTime ?? ''),
+    );
+
+  for (const { withdrawal, slot } of vacancies) {
+    const activity = activities.get(slot.activityId);
+    if (!activity) continue;
+
+    const eligible = eligibility[slot.assignmentCode]?.(activity);
+    const candidates = fisherYatesShuffle(
+      pool.filter(
+        (person) =>
+          (!eligible || eligible(person)) &&
+          !isBusy(person, activity, activities),
+      ),
+      ctx.random,
+    );
+
+    let best: Person | undefined;
+    let bestScore = -Infinity;
+    for (const person of candidates) {
+      const score = scorer.score(
+        competition,
+        person,
+        activity,
+        slot.assignmentCode,
+        slot.stationNumber ?? undefined,
+      );
+      if (score > bestScore) {
+        best = person;
+        bestScore = score;
+      }
+    }
+
+    if (best) {
+      addAssignment(
+        ctx,
+        best,
+        {
+          activityId: activity.id,
+          assignmentCode: slot.assignmentCode,
+          stationNumber: slot.stationNumber,
+        },
+        activity.activityCode,
+      );
+    } else {
+      warnings.push(
+        `No replacement for ${slot.assignmentCode} in ${slot.activityCode} (was ${withdrawal.name})`,
+      );
+    }
+
+    replacements.push({
+      ...slot,
+      withdrawn: {
+        registrantId: withdrawal.registrantId,
+        name: withdrawal.name,
+      },
+      replacement: best
+        ? { registrantId: best.registrantId, name: best.name }
+        : null,
+    });
+  }
+
+  return replacements;
+}
+
+function rebalanceRound(
+  ctx: ExecutionContext,
+  roundId: string,
+  activities: Map<number, Activity>,
+  maxMoves: number,
+  tolerance: number,
+): AssignmentMove[] {
+  const { competition } = ctx;
+  const groups = deduplicateGroups(getGroupsForRound(competition, roundId));
+  const moves: AssignmentMove[] = [];
+  if (groups.length < 2) return moves;
+
+  const competitorIn = (person: Person, group: Group) =>
+    (person.assignments ?? []).find(
+      (a) => a.assignmentCode === 'competitor' && a.activityId === group.id,
+    );
+  const membersOf = (group: Group) =>
+    competition.persons.filter((p) => competitorIn(p, group));
+
+  while (moves.length < maxMoves) {
+    const sized = groups
+      .map((group) => ({ group, members: membersOf(group) }))
+      .sort((a, b) => a.members.length - b.members.length);
+    const smallest = sized[0];
+    const largest = sized[sized.length - 1];
+    if (!smallest || !largest) break;
+    if (largest.members.length - smallest.members.length <= tolerance) break;
+
+    const target = smallest.group;
+    const person = fisherYatesShuffle(largest.members, ctx.random).find(
+      (p) => !isBusy(p, target, activities, competitorIn(p, largest.group)),
+    );
+    if (!person) break;
+
+    const stations = smallest.members.flatMap((member) => {
+      const station = competitorIn(member, target)?.stationNumber;
+      return station ? [station] : [];
+    });
+    const previous = competitorIn(person, largest.group);
+
+    removeAssignments(ctx, person, (a) => a === previous);
+    addAssignment(
+      ctx,
+      person,
+      {
+        activityId: target.id,
+        assignmentCode: 'competitor',
+        stationNumber:
+          stations.length > 0 || previous?.stationNumber
+            ? Math.max(0, ...stations) + 1
+            : null,
+      },
+      target.activityCode,
+    );
+
+    moves.push({
+      registrantId: person.registrantId,
+      name: person.name,
+      from: largest.group.activityCode,
+      to: target.activityCode,
+      reason: 'rebalanced',
+    });
+  }
+
+  return moves;
+}
+
+function buildNotices(
+  competition: Competition,
+  replacements: StaffReplacement[],
+  moves: AssignmentMove[],
+): WithdrawalNotice[] {
+  const notices = new Map<number, WithdrawalNotice>();
+  const noticeFor = (registrantId: number): WithdrawalNotice | undefined => {
+    const existing = notices.get(registrantId);
+    if (existing) return existing;
+    const person = competition.persons.find(
+      (p) => p.registrantId === registrantId,
+    );
+    if (!person) return undefined;
+    const notice: WithdrawalNotice = {
+      registrantId,
+      name: person.name,
+      email: person.email,
+      changes: [],
+    };
+    notices.set(registrantId, notice);
+    return notice;
+  };
+
+  for (const replacement of replacements) {
+    if (!replacement.replacement) continue;
+    const station = replacement.stationNumber
+      ? ` (station ${replacement.stationNumber})`
+      : '';
+    noticeFor(replacement.replacement.registrantId)?.changes.push(
+      `New ${replacement.assignmentCode} assignment in ${replacement.activityCode}${station}`,
+    );
+  }
+
+  for (const move of moves) {
+    noticeFor(move.registrantId)?.changes.push(
+      `Moved from ${move.from} to ${move.to}`,
+    );
+  }
+
+  return [...notices.values()];
+}
+
+export function handleWithdrawals(
+  ctx: ExecutionContext,
+  options: WithdrawalOptions = {},
+): WithdrawalReport {
+  const activities = indexActivities(ctx.competition);
+  const warnings: string[] = [];
+
+  const withdrawals = stripWithdrawals(ctx, activities);
+  const replacements = replaceStaff(
+    ctx,
+    withdrawals,
+    activities,
+    options,
+    warnings,
+  );
+
+  const moves: AssignmentMove[] = [];
+  if (options.rebalance) {
+    const rounds = new Set(
+      withdrawals.flatMap((w) =>
+        w.removed
+          .filter((slot) => slot.assignmentCode === 'competitor')
+          .flatMap((slot) => extractRoundId(slot.activityCode) ?? []),
+      ),
+    );
+    for (const roundId of rounds) {
+      const remaining = options.rebalance.maxMoves - moves.length;
+      if (remaining <= 0) break;
+      moves.push(
+        ...rebalanceRound(
+          ctx,
+          roundId,
+          activities,
+          remaining,
+          options.rebalance.tolerance ?? 1,
+        ),
+      );
+    }
+  }
+
+  return {
+    withdrawals,
+    replacements,
+    moves,
+    notices: buildNotices(ctx.competition, replacements, moves),
+    warnings,
+  };
+}
+
+export function formatWithdrawalReport(report: WithdrawalReport): string[] {
+  const lines: string[] = [];
+
+  for (const withdrawal of report.withdrawals) {
+    lines.push(
+      `${withdrawal.name} (${withdrawal.registrantId}): ${withdrawal.reason}, removed ${withdrawal.removed.length} assignment(s)`,
+    );
+  }
+
+  for (const replacement of report.replacements) {
+    const by = replacement.replacement
+      ? `${replacement.replacement.name} (${replacement.replacement.registrantId})`
+      : 'nobody';
+    lines.push(
+      `  ${replacement.assignmentCode} in ${replacement.activityCode}: ${replacement.withdrawn.name} → ${by}`,
+    );
+  }
+
+  for (const line of formatAssignmentMoves(report.moves)) {
+    lines.push(`  ${line}`);
+  }
+
+  return lines;
+}
@@ -1,5 +1,6 @@
+import type { CPModel } from '../solvers/ortools-bridge';
 import type { Group, Person, Scorer } from '../types/core';
-import type { LPSolverModel } from '../types/lp-solver';
+import type { RandomSource } from '../utils/random';
 import { fisherYatesShuffle } from './utils';
 
 interface QueueItem {
@@ -19,6 +20,99 @@ interface AssignmentsByGroup {
   [groupId: number]: { person: Person; set: string }[];
 }
 
+export interface PairingModel {
+  // groups each person must not be placed in
+  forbidden: { [personId: number]: number[] };
+  // people who must end up in the same group; each cluster is solved whole
+  together: number[][];
+}
+
+// Outweighs any score so the solver still places as many people as it can
+// once pairing constraints make a full chunk impossible
+const PAIRED_ASSIGN_BONUS = 100000;
+
+// Takes the first `size` people or clusters, pulling in the rest of a cluster
+// with its first member so no cluster is split across solves
+function chunkQueue(
+  queue: QueueItem[],
+  together: number[][],
+  size: number,
+): QueueItem[] {
+  const clusterOf = new Map<number, number[]>();
+  for (const members of together) {
+    for (const id of members) clusterOf.set(id, members);
+  }
+  const byId = new Map(queue.map((item) => [item.person.registrantId, item]));
+  const chunk: QueueItem[] = [];
+  const taken = new Set<number>();
+  let units = 0;
+
+  for (const item of queue) {
+    const id = item.person.registrantId;
+    if (taken.has(id)) continue;
+    if (units >= size) break;
+    units++;
+    for (const member of clusterOf.get(id) ?? [id]) {
+      const memberItem = byId.get(member);
+      if (!memberItem || taken.has(member)) continue;
+      taken.add(member);
+      chunk.push(memberItem);
+    }
+  }
+
+  return chunk;
+}
+
+// Scores each group the person can join, leaving out groups that clash with
+// their other competitor assignments or differ from their pre-assigned group
+export function groupScores(
+  person: Person,
+  groupsToUse: Group[],
+  scorers: Scorer[],
+  assignmentsByGroup: AssignmentsByGroup,
+  currentByGroup: CurrentByGroup,
+  conflictingActivitiesByGroup: { [groupId: number]: number[] },
+  preAssignedGroup?: number,
+): { [groupId: number]: number } {
+  const scores: { [groupId: number]: number } = {};
+
+  groupsToUse.forEach((group) => {
+    const groupId = group.id;
+
+    if (preAssignedGroup && preAssignedGroup !== groupId) {
+      return;
+    }
+
+    const hasConflict = (person.assignments || []).some((assignment) => {
+      if (assignment.assignmentCode !== 'competitor') {
+        return false;
+      }
+
+      return conflictingActivitiesByGroup[groupId]?.includes(
+        assignment.activityId,
+      );
+    });
+
+    if (hasConflict) {
+      return;
+    }
+
+    let newScore = 0;
+    const otherPeopleInGroup = [
+      ...(assignmentsByGroup[groupId]?.map((a) => a.person) || []),
+      ...(currentByGroup[groupId] || []),
+    ];
+
+    scorers.forEach((scorer) => {
+      newScore = newScore + scorer.getScore(person, group, otherPeopleInGroup);
+    });
+
+    scores[groupId] = newScore;
+  });
+
+  return scores;
+}
+
 export function constructAssignmentModel(
   queue: QueueItem[],
   groupsToUse: Group[],
@@ -27,66 +121,56 @@ export function constructAssignmentModel(
   currentByGroup: CurrentByGroup,
   preAssignedByPerson: PreAssignedByPerson,
   conflictingActivitiesByGroup: { [groupId: number]: number[] },
-  groupSizeLimit?: number,
-  preAssignedByGroup?: { [groupId: number]: number },
-): LPSolverModel {
-  const shuffledQueue = fisherYatesShuffle(queue);
+  groupSizeLimit: number | { [groupId: number]: number } | undefined,
+  preAssignedByGroup: { [groupId: number]: number } | undefined,
+  random: RandomSource,
+  priorByPerson?: { [personId: number]: number },
+  priorWeight = 0,
+  pairing?: PairingModel,
+): CPModel {
+  const shuffledQueue = fisherYatesShuffle(queue, random);
   const variables: Record<string, Record<string, number>> = {};
   const constraints: Record<
     string,
     { min?: number; max?: number; equal?: number }
   > = {};
-  const ints: Record<string, number> = {};
+  const integers: string[] = [];
+  const chunk = chunkQueue(shuffledQueue, pairing?.together ?? [], 100);
 
-  shuffledQueue.slice(0, 100).forEach((queueItem) => {
+  // Each follower is tied to its cluster's leader by x[leader,g] - x[f,g] = 0
+  // for every group. Only the leader counts towards the group's one place per
+  // solve, so a whole cluster lands in one group together.
+  const leaderOf = new Map<number, number>();
+  const followersOf = new Map<number, number[]>();
+  for (const members of pairing?.together ?? []) {
+    const [leader, ...followers] = members.filter((id) =>
+      chunk.some((item) => item.person.registrantId === id),
+    );
+    if (leader === undefined || followers.length === 0) continue;
+    followersOf.set(leader, followers);
+    for (const id of followers) leaderOf.set(id, leader);
+  }
+  const togetherKey = (followerId: number, groupKey: string) =>
+    `together${followerId}-${groupKey}`;
+
+  chunk.forEach((queueItem) => {
     const personKey = queueItem.person.registrantId.toString();
 
     constraints[personKey] = { min: 0, max: 1 };
 
-    const scores: { [groupId: number]: number } = {};
-    let total = 0;
-
-    groupsToUse.forEach((group) => {
-      const groupId = group.id;
-
-      if (
-        preAssignedByPerson[queueItem.person.registrantId] &&
-        preAssignedByPerson[queueItem.person.registrantId] !== groupId
-      ) {
-        return;
-      }
-
-      const hasConflict = (queueItem.person.assignments || []).some(
-        (assignment) => {
-          if (assignment.assignmentCode !== 'competitor') {
-            return false;
-          }
-
-          return conflictingActivitiesByGroup[groupId]?.includes(
-            assignment.activityId,
-          );
-        },
-      );
-
-      if (hasConflict) {
-        return;
-      }
-
-      let newScore = 0;
-      const otherPeopleInGroup = [
-        ...(assignmentsByGroup[groupId]?.map((a) => a.person) || []),
-        ...(currentByGroup[groupId] || []),
-      ];
-
-      scorers.forEach((scorer) => {
-        newScore =
-          newScore +
-          scorer.getScore(queueItem.person, group, otherPeopleInGroup);
-      });
-
-      total = total + newScore;
-      scores[groupId] = newScore;
-    });
+    const scores = groupScores(
+      queueItem.person,
+      groupsToUse,
+      scorers,
+      assignmentsByGroup,
+      currentByGroup,
+      conflictingActivitiesByGroup,
+      preAssignedByPerson[queueItem.person.registrantId],
+    );
+    const total = groupsToUse.reduce(
+      (sum, group) => sum + (scores[group.id] ?? 0),
+      0,
+    );
 
     groupsToUse.forEach((group) => {
       const groupId = group.id;
@@ -100,20 +184,49 @@ export function constructAssignmentModel(
       if (score === undefined) {
         return;
       }
-      const adjustedScore = score - total / groupsToUse.length - queueItem.idx;
+      const priorBonus =
+        priorByPerson?.[queueItem.person.registrantId] === groupId
+          ? priorWeight
+          : 0;
+      const adjustedScore =
+        score -
+        total / groupsToUse.length -
+        queueItem.idx +
+        priorBonus +
+        (pairing ? PAIRED_ASSIGN_BONUS : 0);
       const groupKey = `g${groupId}`;
       const key = `${personKey}-${groupKey}`;
+      const personId = queueItem.person.registrantId;
 
-      variables[key] = {
-        score: adjustedScore,
-        totalAssigned: 1,
-        [personKey]: 1,
-        [groupKey]: 1,
-        [key]: 1,
-      };
+      if (leaderOf.has(personId)) {
+        const rowKey = togetherKey(personId, groupKey);
+        constraints[rowKey] = { equal: 0 };
+        variables[key] = {
+          score: adjustedScore,
+          [personKey]: 1,
+          [key]: 1,
+          [rowKey]: -1,
+        };
+      } else {
+        const variable: Record<string, number> = {
+          score: adjustedScore,
+          totalAssigned: 1,
+          [personKey]: 1,
+          [groupKey]: 1,
+          [key]: 1,
+        };
+        for (const followerId of followersOf.get(personId) ?? []) {
+          const rowKey = togetherKey(followerId, groupKey);
+          constraints[rowKey] = { equal: 0 };
+          variable[rowKey] = 1;
+        }
+        variables[key] = variable;
+      }
 
-      constraints[key] = { min: 0, max: 1 };
-      ints[key] = 1;
+      const forbidden =
+        pairing?.forbidden[queueItem.person.registrantId]?.includes(groupId);
+      constraints[key] = { min: 0, max: forbidden ? 0 : 1 };
+      integers.push(key);
     });
   });
 
@@ -121,11 +234,16 @@ export function constructAssignmentModel(
     const groupId = group.id;
     const groupKey = `g${groupId}`;
 
-    if (groupSizeLimit !== undefined) {
+    const limit =
+      typeof groupSizeLimit === 'object'
+        ? groupSizeLimit[groupId]
+        : groupSizeLimit;
+
+    if (limit !== undefined) {
       const currentSize =
         (currentByGroup[groupId]?.length || 0) +
         (preAssignedByGroup?.[groupId] || 0);
-      const remainingSlots = Math.max(0, groupSizeLimit - currentSize);
+      const remainingSlots = Math.max(0, limit - currentSize);
 
       constraints[groupKey] = { min: 0, max: Math.min(1, remainingSlots) };
     } else {
@@ -137,13 +255,15 @@ export function constructAssignmentModel(
 
   const numToAssign = Math.min(shuffledQueue.length, groupsToUse.length);
 
-  constraints.totalAssigned = { equal: numToAssign };
+  constraints.totalAssigned = pairing
+    ? { max: numToAssign }
+    : { equal: numToAssign };
 
   return {
     opType: 'max',
     optimize: 'score',
     constraints,
     variables,
-    ints,
+    integers,
   };
 }
@@ -1,4 +1,5 @@
 import type { Competition, Person } from '../types/wcif';
+import type { RandomSource } from '../utils/random';
 import { parseActivityCode } from './activity-code';
 import { PersonalBest } from './events';
 import { getActivityById, getWcifRound } from './groups-helpers';
@@ -25,6 +26,7 @@ export function acceptedPeople(competition: Competition): Person[] {
 export function competitorsForRound(
   competition: Competition,
   roundId: string,
+  random: RandomSource,
 ): Person[] {
   const { eventId, roundNumber } = parseActivityCode(roundId) ?? {};
   if (!eventId) return [];
@@ -49,7 +51,7 @@ export function competitorsForRound(
             return eventIds.some((id) => String(id) === eventId);
           });
 
-    return sortByArray(fisherYatesShuffle(competitors), (p) => [
+    return sortByArray(fisherYatesShuffle(competitors, random), (p) => [
       ...bestAverageAndSingle(p, eventId).map((r) => -r),
       p.name,
     ]);
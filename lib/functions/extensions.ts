@@ -1,5 +1,7 @@
 export const GROUPIFIER_EXTENSION_PREFIX = 'groupifier.';
 
+export const TYPECOMP_EXTENSION_PREFIX = 'typecomp.';
+
 type ExtensibleEntity = {
   extensions?: Array<{ id: string; specUrl?: string; data: unknown }>;
 };
@@ -93,6 +95,16 @@ export interface GroupifierRoomConfig {
   stations?: number;
 }
 
+export interface StageExtensionData {
+  stage: string;
+}
+
+// set on an other-* activity that runs several groups side by side, such as
+// one wave of parallel events
+export interface WaveExtensionData {
+  activityIds: number[];
+}
+
 export const DEFAULT_COMPETITION_CONFIG: GroupifierCompetitionConfig = {
   competitorsSortingRule: 'ranks',
   noTasksForNewcomers: false,
@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+import { createContextFromWcif } from '@/engine';
+import { summarizeMutations } from '@/engine/mutations';
+import type { Activity, Competition } from '../types/wcif';
+import {
+  clearAllAssignmentsAndGroups,
+  clearEmptyGroups,
+  removeOrphanAssignments,
+} from './groups-helpers';
+
+function activity(
+  id: number,
+  activityCode: string,
+  childActivities: Activity[] = [],
+): Activity {
+  return {
+    id,
+    name: activityCode,
+    activityCode,
+    startTime: '2026-03-01T10:00:00Z',
+    endTime: '2026-03-01T11:00:00Z',
+    childActivities,
+    extensions: [],
+  };
+}
+
+// 333-r1 has two groups; only g1 has a competitor, and person 2 still holds
+// an assignment for a group that no longer exists
+function competition(): Competition {
+  return {
+    id: 'Helpers2026',
+    persons: [
+      {
+        registrantId: 1,
+        name: 'Person 1',
+        assignments: [
+          { activityId: 2, assignmentCode: 'competitor', stationNumber: null },
+          { activityId: 3, assignmentCode: 'staff-judge', stationNumber: 1 },
+        ],
+      },
+      {
+        registrantId: 2,
+        name: 'Person 2',
+        assignments: [
+          { activityId: 99, assignmentCode: 'competitor', stationNumber: null },
+        ],
+      },
+    ],
+    events: [],
+    schedule: {
+      venues: [
+        {
+          rooms: [
+            {
+              id: 1,
+              name: 'Room A',
+              activities: [
+                activity(1, '333-r1', [
+                  activity(2, '333-r1-g1'),
+                  activity(3, '333-r1-g2'),
+                ]),
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  } as unknown as Competition;
+}
+
+describe('cleanup helpers', () => {
+  test('removeOrphanAssignments records each removal', async () => {
+    const ctx = await createContextFromWcif(competition());
+
+    expect(removeOrphanAssignments(ctx)).toBe(1);
+    expect(ctx.competition.persons[1]?.assignments).toEqual([]);
+    expect(ctx.mutations.assignments).toMatchObject([
+      { type: 'delete', registrantId: 2, assignment: { activityId: 99 } },
+    ]);
+  });
+
+  test('clearEmptyGroups records the group and the assignments it drops', async () => {
+    const ctx = await createContextFromWcif(competition());
+
+    expect(clearEmptyGroups(ctx, '333-r1')).toBe(1);
+    expect(
+      ctx.competition.schedule.venues[0]?.rooms[0]?.activities[0]
+        ?.childActivities,
+    ).toMatchObject([{ id: 2 }]);
+    expect(summarizeMutations(ctx.mutations)).toEqual([
+      '1 staff assignment removed in 333-r1',
+      '1 competitor assignment removed in unknown activity',
+      '1 group removed in Room A',
+    ]);
+  });
+
+  test('clearAllAssignmentsAndGroups records everything it clears', async () => {
+    const ctx = await createContextFromWcif(competition());
+
+    clearAllAssignmentsAndGroups(ctx);
+
+    expect(ctx.competition.persons.flatMap((p) => p.assignments)).toEqual([]);
+    expect(ctx.mutations.assignments).toHaveLength(3);
+    expect(ctx.mutations.schedule).toMatchObject([
+      { type: 'delete', activity: { id: 2 }, roomName: 'Room A' },
+      { type: 'delete', activity: { id: 3 }, roomName: 'Room A' },
+    ]);
+  });
+});
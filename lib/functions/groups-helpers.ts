@@ -1,4 +1,6 @@
 import { DateTime } from 'luxon';
+import type { ExecutionContext } from '@/engine';
+import { removeAssignments, trackScheduleMutation } from '@/engine/mutations';
 import type { Group } from '../types/core';
 import type {
   Activity,
@@ -9,7 +11,11 @@ import type {
   Round,
 } from '../types/wcif';
 import { activityCodeContains, parseActivityCode } from './activity-code';
-import { getExtensionData } from './extensions';
+import {
+  getExtensionData,
+  type StageExtensionData,
+  TYPECOMP_EXTENSION_PREFIX,
+} from './extensions';
 
 function allRooms(competition: Competition): Room[] {
   return competition.schedule.venues.flatMap((v) => v.rooms);
@@ -19,15 +25,6 @@ function allActivities(competition: Competition): Activity[] {
   return allRooms(competition).flatMap((r) => r.activities);
 }
 
-function forEachActivity(
-  competition: Competition,
-  fn: (activity: Activity) => void,
-): void {
-  for (const activity of allActivities(competition)) {
-    fn(activity);
-  }
-}
-
 export function getAllGroups(competition: Competition): Group[] {
   return allActivities(competition).flatMap(
     (a) => (a.childActivities ?? []) as Group[],
@@ -178,7 +175,7 @@ export function getMiscActivityForId(
 }
 
 export function deduplicateGroups(groups: Group[]): Group[] {
-  const uniqueByNumber = new Map<number, Group>();
+  const uniqueByKey = new Map<string, { groupNum: number; group: Group }>();
 
   for (const group of groups) {
     const match = group.activityCode.match(/g(\d+)/);
@@ -188,15 +185,28 @@ export function deduplicateGroups(groups: Group[]): Group[] {
     }
 
     const groupNum = parseInt(match[1] ?? '0', 10);
+    // groups on different stages share numbers but are distinct groups
+    const stage = getGroupStage(group);
+    const key = stage ? `${stage}/${groupNum}` : String(groupNum);
 
-    if (groupNum > 0 && !uniqueByNumber.has(groupNum)) {
-      uniqueByNumber.set(groupNum, group);
+    if (groupNum > 0 && !uniqueByKey.has(key)) {
+      uniqueByKey.set(key, { groupNum, group });
     }
   }
 
-  return [...uniqueByNumber.entries()]
-    .sort((a, b) => a[0] - b[0])
-    .map(([_, group]) => group);
+  return [...uniqueByKey.values()]
+    .sort((a, b) => a.groupNum - b.groupNum)
+    .map(({ group }) => group);
+}
+
+export function getGroupStage(group: Activity): string | null {
+  return (
+    getExtensionData<StageExtensionData>(
+      'Stage',
+      group,
+      TYPECOMP_EXTENSION_PREFIX,
+    )?.stage ?? null
+  );
 }
 
 export function getGroupNumber(group: Group): number | null {
@@ -369,6 +379,38 @@ export function hasGroupAssignments(
   );
 }
 
+export function lateRegistrantsForRound(
+  competition: Competition,
+  roundId: string,
+): Person[] {
+  const parsed = parseActivityCode(roundId);
+  const groups = getGroupsForRound(competition, roundId);
+  if (!parsed || groups.length === 0) return [];
+
+  const activityIds = new Set(groups.map((g) => g.id));
+  const hasGroup = (person: Person): boolean =>
+    (person.assignments ?? []).some(
+      (a) => a.assignmentCode === 'competitor' && activityIds.has(a.activityId),
+    );
+
+  if (!competition.persons.some(hasGroup)) return [];
+
+  const round = getWcifRound(competition, roundId);
+  const resultIds = new Set((round?.results ?? []).map((r) => r.personId));
+
+  return competition.persons.filter((person) => {
+    if (hasGroup(person)) return false;
+    if (resultIds.size > 0) return resultIds.has(person.registrantId);
+    if (parsed.roundNumber !== 1) return false;
+    return (
+      person.registration?.status === 'accepted' &&
+      (person.registration.eventIds ?? []).some(
+        (id) => String(id) === parsed.eventId,
+      )
+    );
+  });
+}
+
 export function roundsMissingAssignments(
   competition: Competition,
   includeFirstRounds: boolean = false,
@@ -397,34 +439,56 @@ export function getAllActivityIds(competition: Competition): Set<number> {
   );
 }
 
-export function removeOrphanAssignments(competition: Competition): number {
-  const validIds = getAllActivityIds(competition);
+export function removeOrphanAssignments(ctx: ExecutionContext): number {
+  const validIds = getAllActivityIds(ctx.competition);
 
   let removed = 0;
-  for (const person of competition.persons) {
-    const before = person.assignments?.length ?? 0;
-    person.assignments = (person.assignments ?? []).filter((a) =>
-      validIds.has(a.activityId),
+  for (const person of ctx.competition.persons) {
+    removed += removeAssignments(
+      ctx,
+      person,
+      (a) => !validIds.has(a.activityId),
     );
-    removed += before - (person.assignments?.length ?? 0);
   }
 
   return removed;
 }
 
-export function clearAllAssignmentsAndGroups(competition: Competition): void {
-  for (const person of competition.persons) {
-    person.assignments = [];
+// drops the child activities of every top-level activity that match, so the
+// removal shows up in the mutation summary
+function removeChildActivities(
+  ctx: ExecutionContext,
+  predicate: (child: Activity) => boolean,
+): void {
+  for (const room of allRooms(ctx.competition)) {
+    for (const activity of room.activities) {
+      const children = activity.childActivities ?? [];
+      if (!children.some(predicate)) continue;
+      activity.childActivities = children.filter((child) => {
+        if (!predicate(child)) return true;
+        trackScheduleMutation(ctx.mutations, {
+          type: 'delete',
+          activity: child,
+          roomName: room.name,
+        });
+        return false;
+      });
+    }
   }
-  forEachActivity(competition, (a) => {
-    a.childActivities = [];
-  });
+}
+
+export function clearAllAssignmentsAndGroups(ctx: ExecutionContext): void {
+  for (const person of ctx.competition.persons) {
+    removeAssignments(ctx, person, () => true);
+  }
+  removeChildActivities(ctx, () => true);
 }
 
 export function clearEmptyGroups(
-  competition: Competition,
+  ctx: ExecutionContext,
   roundId: string,
 ): number {
+  const { competition } = ctx;
   const groups = getGroupsForRound(competition, roundId);
   const assigned = new Set(
     competition.persons.flatMap((p) =>
@@ -439,11 +503,12 @@ export function clearEmptyGroups(
   );
   if (emptyIds.size === 0) return 0;
 
-  forEachActivity(competition, (a) => {
-    if (a.childActivities) {
-      a.childActivities = a.childActivities.filter((c) => !emptyIds.has(c.id));
-    }
-  });
-  removeOrphanAssignments(competition);
+  // staff in the dropped groups go first, while their activity codes can
+  // still be looked up for the summary
+  for (const person of competition.persons) {
+    removeAssignments(ctx, person, (a) => emptyIds.has(a.activityId));
+  }
+  removeChildActivities(ctx, (child) => emptyIds.has(child.id));
+  removeOrphanAssignments(ctx);
   return emptyIds.size;
 }
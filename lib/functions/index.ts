@@ -48,8 +48,11 @@ export {
   PERSON_EXTENSION_PREFIX,
   type PersonExtensionData,
   removeExtensionData,
+  type StageExtensionData,
   setExtensionData,
   setPersonProperty,
+  TYPECOMP_EXTENSION_PREFIX,
+  type WaveExtensionData,
 } from './extensions';
 
 export {
@@ -65,6 +68,7 @@ export {
   getEndTime,
   getGroupForActivityId,
   getGroupNumber,
+  getGroupStage,
   getGroupsForRound,
   getGroupsForRoundCode,
   getMiscActivityForId,
@@ -76,11 +80,18 @@ export {
   hasDistributedAttempts,
   hasGroupAssignments,
   isRoundOpenForAssignment,
+  lateRegistrantsForRound,
   maxActivityId,
   overlaps,
   removeOrphanAssignments,
   roundsMissingAssignments,
 } from './groups-helpers';
+export {
+  formatIntegrityFindings,
+  type IntegrityFinding,
+  type IntegrityRule,
+  validateCompetition,
+} from './integrity';
 
 export * from './persons';
 
@@ -0,0 +1,155 @@
+import { describe, expect, test } from 'bun:test';
+import type { Activity, Assignment, Competition } from '../types/wcif';
+import {
+  setExtensionData,
+  TYPECOMP_EXTENSION_PREFIX,
+  type WaveExtensionData,
+} from './extensions';
+import { validateCompetition } from './integrity';
+
+const START = '2026-03-01T10:00:00Z';
+const END = '2026-03-01T11:00:00Z';
+
+function activity(
+  id: number,
+  activityCode: string,
+  childActivities: Activity[] = [],
+): Activity {
+  return {
+    id,
+    name: activityCode,
+    activityCode,
+    startTime: START,
+    endTime: END,
+    childActivities,
+    extensions: [],
+  };
+}
+
+function waveActivity(id: number, activityIds: number[]): Activity {
+  const wave = activity(id, 'other-misc');
+  setExtensionData<WaveExtensionData>(
+    'Wave',
+    wave,
+    { activityIds },
+    TYPECOMP_EXTENSION_PREFIX,
+  );
+  return wave;
+}
+
+function competition(
+  rooms: Activity[][],
+  assignments: Assignment[][],
+): Competition {
+  return {
+    id: 'Integrity2026',
+    persons: assignments.map((list, i) => ({
+      registrantId: i + 1,
+      name: `Person ${i + 1}`,
+      assignments: list,
+    })),
+    events: ['333', '222'].map((id) => ({
+      id,
+      rounds: [{ id: `${id}-r1`, scrambleSetCount: 1 }],
+    })),
+    schedule: {
+      venues: [
+        {
+          rooms: rooms.map((activities, i) => ({
+            id: i + 1,
+            name: `Room ${String.fromCharCode(65 + i)}`,
+            activities,
+          })),
+        },
+      ],
+    },
+  } as unknown as Competition;
+}
+
+const competitor = (activityId: number, stationNumber: number | null = null) =>
+  ({ activityId, assignmentCode: 'competitor', stationNumber }) as Assignment;
+
+const judge = (activityId: number, stationNumber: number | null = null) =>
+  ({ activityId, assignmentCode: 'staff-judge', stationNumber }) as Assignment;
+
+const rules = (c: Competition) => validateCompetition(c).map((f) => f.rule);
+
+describe('validateCompetition', () => {
+  test('accepts the groups of one parallel wave', () => {
+    const wave = waveActivity(5, [2, 4]);
+    const c = competition(
+      [
+        [
+          activity(1, '333-r1', [activity(2, '333-r1-g1')]),
+          activity(3, '222-r1', [activity(4, '222-r1-g1')]),
+          wave,
+        ],
+      ],
+      [[competitor(2, 1), competitor(4, 1), competitor(5, 1)]],
+    );
+
+    expect(rules(c)).toEqual([]);
+  });
+
+  test('reports same-numbered groups in two rooms at once', () => {
+    const c = competition(
+      [
+        [activity(1, '333-r1', [activity(2, '333-r1-g1')])],
+        [activity(3, '222-r1', [activity(4, '222-r1-g1')])],
+      ],
+      [
+        [competitor(2), competitor(4)],
+        [competitor(2), judge(4)],
+      ],
+    );
+
+    expect(rules(c)).toEqual([
+      'overlapping-assignments',
+      'overlapping-assignments',
+    ]);
+  });
+
+  test('reports staff work during a wave the person competes in', () => {
+    const wave = waveActivity(5, [2, 4]);
+    const c = competition(
+      [
+        [
+          activity(1, '333-r1', [activity(2, '333-r1-g1')]),
+          activity(3, '222-r1', [activity(4, '222-r1-g1')]),
+          wave,
+        ],
+      ],
+      [[competitor(2), judge(5)]],
+    );
+
+    expect(rules(c)).toEqual(['overlapping-assignments']);
+  });
+
+  test('compares assignments to activities that are not groups', () => {
+    const c = competition(
+      [
+        [activity(1, '333-r1', [activity(2, '333-r1-g1')])],
+        [activity(3, 'other-lunch')],
+      ],
+      [
+        [competitor(1), competitor(2)],
+        [competitor(2), judge(3)],
+      ],
+    );
+
+    expect(validateCompetition(c)).toMatchObject([
+      { rule: 'overlapping-assignments', registrantId: 2, activityId: 3 },
+    ]);
+  });
+
+  test('reports a staff station used twice', () => {
+    const c = competition(
+      [[activity(1, '333-r1', [activity(2, '333-r1-g1')])]],
+      [[judge(2, 3)], [judge(2, 3)], [competitor(2, 3)]],
+    );
+
+    expect(validateCompetition(c)).toMatchObject([
+      { rule: 'duplicate-station', registrantId: 2, activityId: 2 },
+    ]);
+  });
+});
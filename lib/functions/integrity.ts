@@ -0,0 +1,271 @@
+import type { Activity, Competition } from '../types/wcif';
+import { extractRoundId, isGroupActivityCode } from '../utils/activity-utils';
+import {
+  getExtensionData,
+  TYPECOMP_EXTENSION_PREFIX,
+  type WaveExtensionData,
+} from './extensions';
+
+export type IntegrityRule =
+  | 'duplicate-activity-id'
+  | 'orphan-assignment'
+  | 'child-outside-parent'
+  | 'scramble-set-count'
+  | 'duplicate-station'
+  | 'overlapping-assignments';
+
+export interface IntegrityFinding {
+  rule: IntegrityRule;
+
+  message: string;
+
+  activityId?: number;
+
+  registrantId?: number;
+
+  roundId?: string;
+}
+
+interface IndexedActivity {
+  activity: Activity;
+  parent: Activity | null;
+  roomName: string;
+}
+
+function indexActivities(competition: Competition): IndexedActivity[] {
+  const indexed: IndexedActivity[] = [];
+
+  const visit = (
+    activity: Activity,
+    parent: Activity | null,
+    roomName: string,
+  ): void => {
+    indexed.push({ activity, parent, roomName });
+    for (const child of activity.childActivities ?? []) {
+      visit(child, activity, roomName);
+    }
+  };
+
+  for (const venue of competition.schedule.venues) {
+    for (const room of venue.rooms) {
+      for (const activity of room.activities) {
+        visit(activity, null, room.name);
+      }
+    }
+  }
+
+  return indexed;
+}
+
+function checkActivityIds(
+  activities: IndexedActivity[],
+  findings: IntegrityFinding[],
+): void {
+  const seen = new Map<number, IndexedActivity>();
+
+  for (const entry of activities) {
+    const existing = seen.get(entry.activity.id);
+    if (existing) {
+      findings.push({
+        rule: 'duplicate-activity-id',
+        activityId: entry.activity.id,
+        message: `Activity id ${entry.activity.id} is used by ${existing.activity.activityCode} (${existing.roomName}) and ${entry.activity.activityCode} (${entry.roomName})`,
+      });
+    } else {
+      seen.set(entry.activity.id, entry);
+    }
+  }
+}
+
+function checkChildTimes(
+  activities: IndexedActivity[],
+  findings: IntegrityFinding[],
+): void {
+  for (const { activity, parent, roomName } of activities) {
+    if (!parent) continue;
+
+    const start = Date.parse(activity.startTime);
+    const end = Date.parse(activity.endTime);
+    if (
+      start < Date.parse(parent.startTime) ||
+      end > Date.parse(parent.endTime)
+    ) {
+      findings.push({
+        rule: 'child-outside-parent',
+        activityId: activity.id,
+        roundId: extractRoundId(activity.activityCode) ?? undefined,
+        message: `${activity.activityCode} (${roomName}, ${activity.startTime} - ${activity.endTime}) is outside ${parent.activityCode} (${parent.startTime} - ${parent.endTime})`,
+      });
+    }
+  }
+}
+
+function checkScrambleSets(
+  competition: Competition,
+  activities: IndexedActivity[],
+  findings: IntegrityFinding[],
+): void {
+  const groupCodes = new Map<string, Set<string>>();
+  for (const { activity } of activities) {
+    if (!isGroupActivityCode(activity.activityCode)) continue;
+    const roundId = extractRoundId(activity.activityCode);
+    if (!roundId) continue;
+    const codes = groupCodes.get(roundId) ?? new Set<string>();
+    codes.add(activity.activityCode);
+    groupCodes.set(roundId, codes);
+  }
+
+  for (const event of competition.events) {
+    for (const round of event.rounds) {
+      const groups = groupCodes.get(round.id)?.size ?? 0;
+      if (groups > 0 && (round.scrambleSetCount ?? 0) < groups) {
+        findings.push({
+          rule: 'scramble-set-count',
+          roundId: round.id,
+          message: `${round.id} has ${groups} groups but scrambleSetCount is ${round.scrambleSetCount ?? 0}`,
+        });
+      }
+    }
+  }
+}
+
+// A wave is an other-* activity that runs several groups side by side: its
+// own child activities, or the activities listed in its Wave extension
+function waveIds(activities: IndexedActivity[]): Map<number, number> {
+  const waves = new Map<number, number>();
+  for (const { activity, parent } of activities) {
+    if (parent?.activityCode.startsWith('other-')) {
+      waves.set(activity.id, parent.id);
+    }
+    const wave = getExtensionData<WaveExtensionData>(
+      'Wave',
+      activity,
+      TYPECOMP_EXTENSION_PREFIX,
+    );
+    if (!wave) continue;
+    waves.set(activity.id, activity.id);
+    for (const id of wave.activityIds) waves.set(id, activity.id);
+  }
+  return waves;
+}
+
+interface TimedAssignment {
+  activity: Activity;
+  code: string;
+}
+
+function checkAssignments(
+  competition: Competition,
+  activities: IndexedActivity[],
+  findings: IntegrityFinding[],
+): void {
+  const byId = new Map(activities.map((a) => [a.activity.id, a]));
+  const waves = waveIds(activities);
+  const stations = new Map<string, number>();
+
+  const isAncestor = (ancestor: Activity, activity: Activity): boolean => {
+    let parent = byId.get(activity.id)?.parent;
+    while (parent) {
+      if (parent.id === ancestor.id) return true;
+      parent = byId.get(parent.id)?.parent;
+    }
+    return false;
+  };
+
+  // a round contains its groups, and the groups of one wave run together, so
+  // the same role in both is one seat. Any other overlap is a double booking.
+  const compatible = (a: TimedAssignment, b: TimedAssignment): boolean => {
+    if (a.code !== b.code) return false;
+    if (isAncestor(a.activity, b.activity)) return true;
+    if (isAncestor(b.activity, a.activity)) return true;
+    const wave = waves.get(a.activity.id);
+    return wave !== undefined && wave === waves.get(b.activity.id);
+  };
+
+  for (const person of competition.persons) {
+    const timed: TimedAssignment[] = [];
+
+    for (const assignment of person.assignments ?? []) {
+      const activity = byId.get(assignment.activityId)?.activity;
+      if (!activity) {
+        findings.push({
+          rule: 'orphan-assignment',
+          activityId: assignment.activityId,
+          registrantId: person.registrantId,
+          message: `${person.name} (${person.registrantId}) has a ${assignment.assignmentCode} assignment for missing activity ${assignment.activityId}`,
+        });
+        continue;
+      }
+
+      timed.push({ activity, code: assignment.assignmentCode });
+
+      if (
+        assignment.stationNumber !== null &&
+        assignment.stationNumber !== undefined
+      ) {
+        const key = `${activity.id}:${assignment.assignmentCode}:${assignment.stationNumber}`;
+        const other = stations.get(key);
+        if (other !== undefined && other !== person.registrantId) {
+          findings.push({
+            rule: 'duplicate-station',
+            activityId: activity.id,
+            registrantId: person.registrantId,
+            message: `${assignment.assignmentCode} station ${assignment.stationNumber} in ${activity.activityCode} is assigned to registrants ${other} and ${person.registrantId}`,
+          });
+        } else {
+          stations.set(key, person.registrantId);
+        }
+      }
+    }
+
+    timed.sort(
+      (a, b) =>
+        Date.parse(a.activity.startTime) - Date.parse(b.activity.startTime),
+    );
+    for (let i = 0; i < timed.length; i++) {
+      const current = timed[i];
+      if (!current) continue;
+      const currentEnd = Date.parse(current.activity.endTime);
+      for (let j = i + 1; j < timed.length; j++) {
+        const next = timed[j];
+        if (!next) continue;
+        if (Date.parse(next.activity.startTime) >= currentEnd) break;
+        if (compatible(current, next)) continue;
+        findings.push({
+          rule: 'overlapping-assignments',
+          activityId: next.activity.id,
+          registrantId: person.registrantId,
+          message: `${person.name} (${person.registrantId}) is assigned ${current.code} in ${current.activity.activityCode} and ${next.code} in ${next.activity.activityCode} at the same time`,
+        });
+      }
+    }
+  }
+}
+
+export function validateCompetition(
+  competition: Competition,
+): IntegrityFinding[] {
+  const findings: IntegrityFinding[] = [];
+  const activities = indexActivities(competition);
+
+  checkActivityIds(activities, findings);
+  checkChildTimes(activities, findings);
+  checkScrambleSets(competition, activities, findings);
+  checkAssignments(competition, activities, findings);
+
+  return findings;
+}
+
+export function formatIntegrityFindings(
+  findings: IntegrityFinding[],
+  limit = 20,
+): string {
+  const lines = [`${findings.length} WCIF integrity problem(s):`];
+  for (const finding of findings.slice(0, limit)) {
+    lines.push(`  [${finding.rule}] ${finding.message}`);
+  }
+  if (findings.length > limit) {
+    lines.push(`  ... and ${findings.length - limit} more`);
+  }
+  return lines.join('\n');
+}
@@ -1,4 +1,5 @@
 import type { Competition, Person } from '../types/wcif';
+import type { RandomSource } from '../utils/random';
 import { parseActivityCode } from './activity-code';
 import { competitorsForRound } from './competitors';
 import { getGroupsForRound } from './groups-helpers';
@@ -30,8 +31,9 @@ export function sortedCompetitorsForRound(
   competition: Competition,
   roundId: string,
   sortingRule: SortingRule,
+  random: RandomSource,
 ): Person[] {
-  const sortedByRanks = competitorsForRound(competition, roundId);
+  const sortedByRanks = competitorsForRound(competition, roundId, random);
   const { eventId, roundNumber } = parseActivityCode(roundId) ?? {};
 
   if (roundNumber !== null && roundNumber !== undefined && roundNumber > 1) {
@@ -56,6 +58,8 @@ export function sortedCompetitorsForRound(
 
     if (groupCount === 0) return sortedByRanks;
 
+    const tieBreak = new Map(sortedByRanks.map((p) => [p, random()]));
+
     return sortedByRanks.slice().sort((a, b) => {
       const idxA = sortedByRanks.indexOf(a);
       const idxB = sortedByRanks.indexOf(b);
@@ -64,7 +68,7 @@ export function sortedCompetitorsForRound(
       const valB =
         groupCount - ((sortedByRanks.length - idxB - 1) % groupCount);
       if (valA === valB) {
-        return Math.random() - 0.5;
+        return (tieBreak.get(a) ?? 0) - (tieBreak.get(b) ?? 0);
       }
       return valA - valB;
     });
@@ -1,5 +1,8 @@
 import { DateTime } from 'luxon';
 import type { ExecutionContext } from '@/engine';
+import { addAssignment, removeAssignments } from '@/engine/mutations';
+import type { CPModel } from '../solvers/ortools-bridge';
+import { checkSolverResult } from '../solvers/solver';
 import type {
   Activity,
   Group,
@@ -10,7 +13,6 @@ import type {
   StaffAssignmentResult,
   StaffScorer,
 } from '../types/core';
-import solver from '../types/lp-solver';
 import type { RegistrantId } from '../types/wcif';
 import { parseActivityCode } from './activity-code';
 import {
@@ -98,10 +100,10 @@ function AssignImpl(
         `  Removing ${peopleAlreadyAssigned.length} existing staff assignments (overwrite=true)`,
       );
       peopleAlreadyAssigned.forEach((person) => {
-        person.assignments = (person.assignments || []).filter((assignment) => {
+        removeAssignments(ctx, person, (assignment) => {
           return (
-            assignment.assignmentCode === 'competitor' ||
-            !activityIds.includes(assignment.activityId)
+            assignment.assignmentCode !== 'competitor' &&
+            activityIds.includes(assignment.activityId)
           );
         });
       });
@@ -381,7 +383,7 @@ function AssignImpl(
       string,
       { min?: number; max?: number; equal?: number }
     > = {};
-    const ints: Record<string, number> = {};
+    const integers: string[] = [];
 
     jobs.forEach((job) => {
       if (job.assignStations) {
@@ -393,7 +395,7 @@ function AssignImpl(
       }
     });
 
-    const shuffledPeople = fisherYatesShuffle(eligiblePeople);
+    const shuffledPeople = fisherYatesShuffle(eligiblePeople, ctx.random);
 
     shuffledPeople.forEach((person, idx) => {
       constraints[`person-${idx}`] = { min: 0, max: 1 };
@@ -453,20 +455,30 @@ function AssignImpl(
           };
 
           constraints[key] = { min: 0, max: 1 };
-          ints[key] = 1;
+          integers.push(key);
         });
       });
     });
 
-    const model = {
-      opType: 'max' as const,
+    const model: CPModel = {
+      opType: 'max',
       optimize: 'score',
       constraints,
       variables,
-      ints,
+      integers,
     };
 
-    const solution = solver.solve(model);
+    const solution = ctx.solver.solve(model);
+    const solverWarning = checkSolverResult(solution, {
+      activity: activity.activityCode,
+    });
+
+    if (solverWarning) {
+      const warning = `${activity.name}: ${solverWarning}`;
+
+      warnings.push(warning);
+      console.warn(`⚠️  ${warning}`);
+    }
 
     if (!solution.feasible) {
       warnings.push(`Failed to find a solution for activity ${activity.name}`);
@@ -483,20 +495,6 @@ function AssignImpl(
       return;
     }
 
-    const variableMap = new Map<string, number>();
-
-    for (const [key, value] of Object.entries(solution)) {
-      if (
-        key !== 'feasible' &&
-        key !== 'result' &&
-        key !== 'bounded' &&
-        key !== 'isIntegral' &&
-        typeof value === 'number'
-      ) {
-        variableMap.set(key, value);
-      }
-    }
-
     const keyToJobMap = new Map<
       string,
       { job: JobDefinition; stationNumber: number | null }
@@ -517,7 +515,7 @@ function AssignImpl(
       });
     });
 
-    variableMap.forEach((value, key) => {
+    Object.entries(solution.values).forEach(([key, value]) => {
       if (!key.startsWith('assignment-') || Math.round(value) !== 1) {
         return;
       }
@@ -583,9 +581,6 @@ function AssignImpl(
         score: totalScore,
       });
 
-      if (!person.assignments) {
-        person.assignments = [];
-      }
       const newAssignment: PersonAssignment = {
         activityId: activity.id,
         assignmentCode: job.name,
@@ -593,11 +588,16 @@ function AssignImpl(
         stationNumber: stationNumber !== null ? stationNumber + 1 : null,
       };
 
-      person.assignments.push({
-        activityId: newAssignment.activityId,
-        assignmentCode: newAssignment.assignmentCode,
-        stationNumber: newAssignment.stationNumber ?? null,
-      });
+      addAssignment(
+        ctx,
+        person,
+        {
+          activityId: newAssignment.activityId,
+          assignmentCode: newAssignment.assignmentCode,
+          stationNumber: newAssignment.stationNumber ?? null,
+        },
+        activity.activityCode,
+      );
 
       assignmentMap.set(person.registrantId, newAssignment);
 
@@ -1,3 +1,5 @@
+import type { RandomSource } from '../utils/random';
+
 export function partition<T>(
   array: T[],
   predicate: (item: T) => boolean,
@@ -49,10 +51,13 @@ export function chunk<T>(arr: T[], size: number): T[][] {
   return result;
 }
 
-export function fisherYatesShuffle<T>(array: T[]): T[] {
+export function fisherYatesShuffle<T>(
+  array: T[],
+  random: RandomSource = Math.random,
+): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     const temp: T = shuffled[i] as T;
     const swapItem: T = shuffled[j] as T;
     shuffled[i] = swapItem;
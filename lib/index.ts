@@ -1,18 +1,48 @@
 export {
+  type ContextOptions,
   createContext,
+  createContextFromWcif,
+  createStoragePersistence,
   type ExecutionContext,
   loadWcif,
+  type PersistenceHooks,
   saveWcif,
   type TypeCompOptions,
 } from '@/engine';
 
+export {
+  createStorage,
+  FilesystemStorage,
+  getDefaultStorage,
+  MemoryStorage,
+  SqliteStorage,
+  type StorageBackend,
+  setDefaultStorage,
+} from '@/engine/storage';
+
 export {
   createTypeComp,
+  createTypeCompFromWcif,
   fromContext,
+  type LateRegistration,
   type PersonQuery,
   type TypeComp,
 } from './api/context';
-
+export {
+  type ExplainOptions,
+  type Explanation,
+  explainAssignment,
+  formatExplanation,
+  type GroupExplanation,
+  type PersonRef,
+  recordedScorerOptions,
+  recordedScorers,
+  recordScorers,
+  resolvePerson,
+  type ScorerContribution,
+  type ScorerRecord,
+  type ScorerSource,
+} from './api/explain';
 export {
   accepted,
   ageBetween,
@@ -78,23 +108,56 @@ export {
 export * as presets from './api/presets';
 export {
   assignAllRounds,
+  assignAllRoundsInParallel,
   assignBlindfolded,
   assignGroupifier,
+  assignGroupifierInParallel,
   assignRound,
   assignStaff,
   defaultGroupScorers,
   type GroupifierOptions,
   type GroupifierResult,
+  groupifierJobs,
+  type RoundOrder,
+  type RoundOrderOptions,
   simpleGroupScorers,
   simpleStaffScorers,
 } from './api/presets';
 export {
+  clearProvisional,
+  isProvisional,
+  markProvisional,
+  type ProjectedAdvancement,
+  type ProvisionalClearResult,
+  type ProvisionalData,
+  projectAdvancement,
+  unmarkProvisional,
+} from './api/projection';
+export {
+  type AssignmentMove,
   type AssignmentResult,
+  type DecompositionOptions,
+  type DecompositionStrategy,
+  formatAssignmentMoves,
   GroupByBuilder,
   type GroupOptions,
+  type GroupOverflow,
+  type LateAssignmentResult,
+  type LateOptions,
+  type MoveReason,
   RoundBuilder,
+  type StabilityOptions,
+  type StageGroupOptions,
   StationsBuilder,
 } from './api/round-builder';
+export {
+  type JobKind,
+  jobDependencies,
+  runJobs,
+  runJobsInOrder,
+  type ScheduledJob,
+  type ScheduleOptions,
+} from './api/scheduler';
 export {
   balancedScramblerScorer,
   byFilters,
@@ -117,9 +180,7 @@ export {
   spreadOut,
   staffScorer,
 } from './api/scorers';
-
 export { StaffBuilder, type StaffResult } from './api/staff-builder';
-
 export {
   COMMON_STAGE_LAYOUTS,
   defineStages,
@@ -128,6 +189,25 @@ export {
   singleStage,
   twoStages,
 } from './api/stages';
+export {
+  estimateCompetitorSeconds,
+  estimateGroupMinutes,
+  formatGroupTimings,
+  type GroupTiming,
+  type GroupTimingOptions,
+  type GroupTimingResult,
+  reflowGroupTimes,
+} from './api/timing';
+export {
+  formatWithdrawalReport,
+  handleWithdrawals,
+  type RemovedAssignment,
+  type StaffReplacement,
+  type Withdrawal,
+  type WithdrawalNotice,
+  type WithdrawalOptions,
+  type WithdrawalReport,
+} from './api/withdrawals';
 
 export {
   DISTRIBUTED_EVENTS,
@@ -159,17 +239,52 @@ export {
   getEndTime,
   getGroupForActivityId,
   getGroupNumber,
+  getGroupStage,
   getGroupsForRound,
   getGroupsForRoundCode,
   getStartTime,
   getWcifRound,
   hasGroupAssignments,
   isRoundOpenForAssignment,
+  lateRegistrantsForRound,
   removeOrphanAssignments,
   roundsMissingAssignments,
 } from './functions/groups-helpers';
 
-export { assignParallelEvents, assignStationsBySpeed } from './solvers';
+export {
+  formatIntegrityFindings,
+  type IntegrityFinding,
+  type IntegrityRule,
+  validateCompetition,
+} from './functions/integrity';
+
+export {
+  assignParallelEvents,
+  assignStationsBySpeed,
+  type CPModel,
+  checkSolverResult,
+  createSolver,
+  defaultWorkerCount,
+  type LocalSearchOptions,
+  localSearchSolver,
+  lpSolver,
+  type ORToolsOptions,
+  orToolsSolver,
+  type SolveOptions,
+  type SolveRequest,
+  type Solver,
+  type SolverName,
+  type SolverPool,
+  type SolverResult,
+  type SolverSpec,
+  type SolverStatus,
+  type SolveSteps,
+  solverFromSpec,
+  solveSteps,
+  startSolverPool,
+  withFallback,
+  withTimeLimit,
+} from './solvers';
 export type {
   AssignmentCode,
   AssignmentSet,
@@ -209,6 +324,13 @@ export type {
   Venue,
 } from './types/wcif';
 export { createLogger, logger } from './utils/logger';
+export {
+  createRandom,
+  forkRandom,
+  generateSeed,
+  parseSeed,
+  type RandomSource,
+} from './utils/random';
 export {
   assertExists,
   TypeCompError,
@@ -1,4 +1,6 @@
-import solver from '../types/lp-solver';
+import { lpSolver } from '../solvers/lp';
+import type { CPModel } from '../solvers/ortools-bridge';
+import { checkSolverResult, type Solver } from '../solvers/solver';
 import type { Event, Person } from '../types/wcif';
 
 export interface WaveOptimizationOptions {
@@ -7,6 +9,7 @@ export interface WaveOptimizationOptions {
   minimizeEvents: boolean;
   considerAvailability?: boolean;
   resolveConflicts?: boolean;
+  solver?: Solver;
 }
 
 export interface WaveAssignment {
@@ -15,19 +18,26 @@ export interface WaveAssignment {
   events: Event[];
 }
 
+// Plans the waves only: nothing is written to the competition. Write the
+// result with addAssignment so the changes reach the mutation summary.
 export function minimizeWaveEvents(
   competitors: Person[],
   events: Event[],
   options: WaveOptimizationOptions,
 ): WaveAssignment[] {
-  const { waves, waveSize, minimizeEvents: _minimizeEvents } = options;
+  const {
+    waves,
+    waveSize,
+    minimizeEvents: _minimizeEvents,
+    solver = lpSolver(),
+  } = options;
 
   const variables: Record<string, Record<string, number>> = {};
   const constraints: Record<
     string,
     { min?: number; max?: number; equal?: number }
   > = {};
-  const ints: Record<string, number> = {};
+  const integers: string[] = [];
 
   for (const competitor of competitors) {
     for (let wave = 1; wave <= waves; wave++) {
@@ -41,7 +51,7 @@ export function minimizeWaveEvents(
         events: countEventsInWave(competitor, events, wave),
       };
 
-      ints[varName] = 1;
+      integers.push(varName);
     }
   }
 
@@ -58,42 +68,29 @@ export function minimizeWaveEvents(
     };
   }
 
-  const model = {
-    opType: 'min' as const,
+  const model: CPModel = {
+    opType: 'min',
     optimize: 'events',
     constraints,
     variables,
-    ints,
+    integers,
   };
 
   const solution = solver.solve(model);
+  checkSolverResult(solution);
 
   if (!solution.feasible) {
     throw new Error(
-      `No feasible solution found for wave assignment. Feasible: ${solution.feasible}`,
+      `No feasible solution found for wave assignment. Status: ${solution.status}`,
     );
   }
 
-  const variableMap = new Map<string, number>();
-
-  for (const [key, value] of Object.entries(solution)) {
-    if (
-      key !== 'feasible' &&
-      key !== 'result' &&
-      key !== 'bounded' &&
-      key !== 'isIntegral' &&
-      typeof value === 'number'
-    ) {
-      variableMap.set(key, value);
-    }
-  }
-
   const assignments: WaveAssignment[] = [];
 
   for (const competitor of competitors) {
     for (let wave = 1; wave <= waves; wave++) {
       const varName = `person_${competitor.registrantId}_wave_${wave}`;
-      const value = variableMap.get(varName);
+      const value = solution.values[varName];
 
       if (value !== undefined && Math.round(value) === 1) {
         assignments.push({
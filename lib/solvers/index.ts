@@ -1,2 +1,6 @@
+export * from './local-search';
+export * from './lp';
 export * from './ortools-bridge';
 export * from './parallel-events';
+export * from './solver';
+export * from './solver-pool';
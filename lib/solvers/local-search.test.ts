@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import { localSearchSolver } from './local-search';
+import type { CPModel } from './ortools-bridge';
+
+// every person in exactly one of three groups of at most `size`, each person
+// preferring a group by their index so several optima tie
+function groupsModel(people: number, size: number): CPModel {
+  const groups = ['g1', 'g2', 'g3'];
+  const model: CPModel = {
+    optimize: 'cost',
+    constraints: Object.fromEntries(groups.map((g) => [g, { max: size }])),
+    variables: {},
+    integers: [],
+  };
+  for (let p = 0; p < people; p++) {
+    model.constraints[`p${p}`] = { equal: 1 };
+    groups.forEach((g, i) => {
+      const name = `p${p}_${g}`;
+      model.variables[name] = { [`p${p}`]: 1, [g]: 1, cost: (p + i) % 3 };
+      model.integers.push(name);
+    });
+  }
+  return model;
+}
+
+const placements = (values: Record<string, number>) =>
+  Object.keys(values)
+    .filter((name) => values[name] === 1)
+    .sort();
+
+describe('localSearchSolver', () => {
+  test('finds a feasible assignment that meets every constraint', () => {
+    const result = localSearchSolver({ seed: 1 }).solve(groupsModel(12, 4));
+
+    expect(result).toMatchObject({
+      solver: 'local',
+      status: 'feasible',
+      feasible: true,
+      timedOut: false,
+    });
+    const chosen = placements(result.values);
+    expect(chosen).toHaveLength(12);
+    for (const group of ['g1', 'g2', 'g3']) {
+      expect(chosen.filter((name) => name.endsWith(group))).toHaveLength(4);
+    }
+  });
+
+  test('gives the same answer for the same seed', () => {
+    const model = groupsModel(30, 10);
+
+    const first = localSearchSolver({ seed: 7 }).solve(model);
+    const second = localSearchSolver({ seed: 7 }).solve(model);
+    const reused = localSearchSolver({ seed: 7 });
+
+    expect(second.values).toEqual(first.values);
+    expect(second.objective).toBe(first.objective);
+    expect(reused.solve(model).values).toEqual(reused.solve(model).values);
+  });
+
+  test('reports a model it cannot satisfy as infeasible', () => {
+    const result = localSearchSolver({ seed: 1, iterations: 500 }).solve(
+      groupsModel(12, 3),
+    );
+
+    expect(result).toMatchObject({
+      status: 'infeasible',
+      feasible: false,
+      objective: null,
+    });
+  });
+
+  test('stops at the time limit', () => {
+    const result = localSearchSolver({ seed: 1 }).solve(groupsModel(12, 3), {
+      timeLimit: 0,
+    });
+
+    expect(result).toMatchObject({ status: 'timeout', timedOut: true });
+  });
+});
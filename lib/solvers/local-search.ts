@@ -0,0 +1,291 @@
+import { createRandom, type RandomSource } from '../utils/random';
+import type { CPModel } from './ortools-bridge';
+import type { SolveOptions, Solver, SolverResult } from './solver';
+
+export interface LocalSearchOptions extends SolveOptions {
+  // moves to try per solve; defaults to 100 per variable, at least 10000
+  iterations?: number;
+
+  // starting temperature in objective units; defaults to the mean absolute
+  // objective coefficient
+  temperature?: number;
+
+  // each solve starts a fresh random source from this seed (default 0), so
+  // the same model gives the same answer
+  seed?: number;
+
+  // used instead of the seed; shared across solves
+  random?: RandomSource;
+}
+
+const EPSILON = 1e-9;
+const FINAL_TEMPERATURE_RATIO = 1e-3;
+const DEADLINE_CHECK_INTERVAL = 256;
+const REPAIR_DEPTH = 4;
+
+interface Term {
+  row: number;
+  coeff: number;
+}
+
+interface Member {
+  v: number;
+  coeff: number;
+}
+
+// Variables are treated as 0/1, which covers every model TypeComp builds.
+// Constraint violations are weighted above any possible objective change, so
+// the search only trades objective for feasibility, never the reverse.
+class AnnealingState {
+  readonly names: string[];
+  readonly gains: Float64Array;
+  readonly terms: Term[][];
+  readonly rowMembers: Member[][];
+  readonly lo: Float64Array;
+  readonly hi: Float64Array;
+  readonly activity: Float64Array;
+  readonly value: Uint8Array;
+  readonly onPos: Int32Array;
+  readonly onList: number[] = [];
+  readonly penalty: number;
+  violation = 0;
+  gain = 0;
+
+  constructor(model: CPModel) {
+    const sign = model.opType === 'max' ? 1 : -1;
+    const rowNames = Object.keys(model.constraints);
+    const rowIndex = new Map(rowNames.map((name, idx) => [name, idx]));
+
+    this.names = Object.keys(model.variables);
+    this.gains = new Float64Array(this.names.length);
+    this.terms = this.names.map(() => []);
+    this.rowMembers = rowNames.map(() => []);
+    this.lo = new Float64Array(rowNames.length);
+    this.hi = new Float64Array(rowNames.length);
+    this.activity = new Float64Array(rowNames.length);
+    this.value = new Uint8Array(this.names.length);
+    this.onPos = new Int32Array(this.names.length).fill(-1);
+
+    rowNames.forEach((name, row) => {
+      const bounds = model.constraints[name] ?? {};
+      this.lo[row] = bounds.equal ?? bounds.min ?? -Infinity;
+      this.hi[row] = bounds.equal ?? bounds.max ?? Infinity;
+    });
+
+    let totalGain = 0;
+    this.names.forEach((name, v) => {
+      for (const [key, coeff] of Object.entries(model.variables[name] ?? {})) {
+        if (key === model.optimize) {
+          this.gains[v] = sign * coeff;
+          totalGain += Math.abs(coeff);
+        }
+        const row = rowIndex.get(key);
+        if (row === undefined || coeff === 0) continue;
+        this.terms[v]?.push({ row, coeff });
+        this.rowMembers[row]?.push({ v, coeff });
+      }
+    });
+    this.penalty = totalGain + 1;
+
+    for (let row = 0; row < rowNames.length; row++) {
+      this.violation += this.rowViolation(row, 0);
+    }
+  }
+
+  get energy(): number {
+    return this.violation * this.penalty - this.gain;
+  }
+
+  rowViolation(row: number, activity: number): number {
+    const over = Math.max(
+      (this.lo[row] ?? 0) - activity,
+      activity - (this.hi[row] ?? 0),
+    );
+    return over > EPSILON ? over : 0;
+  }
+
+  // returns whether any single constraint got worse
+  flip(v: number): boolean {
+    const on = this.value[v] === 0;
+    let worsened = false;
+    for (const { row, coeff } of this.terms[v] ?? []) {
+      const before = this.activity[row] ?? 0;
+      const after = before + (on ? coeff : -coeff);
+      const change =
+        this.rowViolation(row, after) - this.rowViolation(row, before);
+      if (change > EPSILON) worsened = true;
+      this.violation += change;
+      this.activity[row] = after;
+    }
+    this.gain += on ? (this.gains[v] ?? 0) : -(this.gains[v] ?? 0);
+    this.value[v] = on ? 1 : 0;
+
+    if (on) {
+      this.onPos[v] = this.onList.length;
+      this.onList.push(v);
+    } else {
+      const pos = this.onPos[v] ?? -1;
+      const last = this.onList.pop();
+      if (last !== undefined && last !== v) {
+        this.onList[pos] = last;
+        this.onPos[last] = pos;
+      }
+      this.onPos[v] = -1;
+    }
+    return worsened;
+  }
+
+  // switch on variables that reduce the violation, or improve the objective
+  // without breaking a constraint, best objective first
+  greedyStart(): void {
+    const order = this.names
+      .map((_, v) => v)
+      .sort((a, b) => (this.gains[b] ?? 0) - (this.gains[a] ?? 0));
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const v of order) {
+        if (this.value[v] === 1) continue;
+        const violation = this.violation;
+        const worsened = this.flip(v);
+        const dViolation = this.violation - violation;
+        const keep =
+          dViolation < -EPSILON ||
+          (!worsened && dViolation <= EPSILON && (this.gains[v] ?? 0) > 0);
+        if (keep) changed = true;
+        else this.flip(v);
+      }
+    }
+  }
+
+  // Flips one variable, or moves a 1 to another variable in one of its rows
+  // and then repairs the rows that broke, e.g. swapping two people between
+  // equally sized waves. Returns the flipped variables so the move can be
+  // undone.
+  applyRandomMove(random: RandomSource): number[] {
+    const pick = <T>(items: T[]): T | undefined =>
+      items[Math.floor(random() * items.length)];
+    const flipped: number[] = [];
+    const flip = (v: number) => {
+      this.flip(v);
+      flipped.push(v);
+    };
+
+    const v = random() < 0.5 ? pick(this.onList) : undefined;
+    const term = v !== undefined ? pick(this.terms[v] ?? []) : undefined;
+    const u = term
+      ? pick(
+          (this.rowMembers[term.row] ?? []).filter(
+            (m) => this.value[m.v] === 0,
+          ),
+        )
+      : undefined;
+    if (v === undefined || !u) {
+      flip(Math.floor(random() * this.names.length));
+      return flipped;
+    }
+
+    flip(v);
+    flip(u.v);
+    for (let step = 0; step < REPAIR_DEPTH; step++) {
+      const broken = pick(
+        flipped.flatMap((f) =>
+          (this.terms[f] ?? []).filter(
+            (t) => this.rowViolation(t.row, this.activity[t.row] ?? 0) > 0,
+          ),
+        ),
+      );
+      if (!broken) break;
+      const direction =
+        (this.activity[broken.row] ?? 0) > (this.hi[broken.row] ?? 0) ? -1 : 1;
+      const fix = pick(
+        (this.rowMembers[broken.row] ?? []).filter(
+          (m) =>
+            !flipped.includes(m.v) &&
+            Math.sign(this.value[m.v] === 1 ? -m.coeff : m.coeff) === direction,
+        ),
+      );
+      if (!fix) break;
+      flip(fix.v);
+    }
+    return flipped;
+  }
+}
+
+export function localSearchSolver(defaults: LocalSearchOptions = {}): Solver {
+  // a custom random source cannot be handed to another thread
+  const { random: _, ...data } = defaults;
+  return {
+    name: 'local',
+    ...(defaults.random === undefined && { spec: { name: 'local', ...data } }),
+    solve: (model, options = {}): SolverResult => {
+      const timeLimit = options.timeLimit ?? defaults.timeLimit;
+      const started = Date.now();
+      const deadline =
+        timeLimit !== undefined ? started + timeLimit * 1000 : Infinity;
+      const random = defaults.random ?? createRandom(defaults.seed ?? 0);
+
+      const state = new AnnealingState(model);
+      state.greedyStart();
+
+      const iterations =
+        defaults.iterations ?? Math.max(10000, 100 * state.names.length);
+      const nonZero = [...state.gains].filter((g) => g !== 0);
+      const startTemperature =
+        defaults.temperature ??
+        (nonZero.reduce((sum, g) => sum + Math.abs(g), 0) /
+          Math.max(1, nonZero.length) ||
+          1);
+      const finalTemperature = startTemperature * FINAL_TEMPERATURE_RATIO;
+
+      let best = state.value.slice();
+      let bestViolation = state.violation;
+      let bestEnergy = state.energy;
+      let timedOut = false;
+
+      for (let it = 0; it < iterations && state.names.length > 0; it++) {
+        if (it % DEADLINE_CHECK_INTERVAL === 0 && Date.now() >= deadline) {
+          timedOut = true;
+          break;
+        }
+        const temperature =
+          startTemperature *
+          (finalTemperature / startTemperature) ** (it / iterations);
+
+        const energy = state.energy;
+        const move = state.applyRandomMove(random);
+        const delta = state.energy - energy;
+
+        if (delta > 0 && random() >= Math.exp(-delta / temperature)) {
+          for (const v of [...move].reverse()) state.flip(v);
+          continue;
+        }
+        if (state.energy < bestEnergy - EPSILON) {
+          best = state.value.slice();
+          bestViolation = state.violation;
+          bestEnergy = state.energy;
+        }
+      }
+
+      const values: Record<string, number> = {};
+      let objective = 0;
+      state.names.forEach((name, v) => {
+        values[name] = best[v] ?? 0;
+        objective +=
+          (best[v] ?? 0) * (model.variables[name]?.[model.optimize] ?? 0);
+      });
+      const feasible = bestViolation <= EPSILON;
+
+      return {
+        solver: 'local',
+        status: feasible ? 'feasible' : timedOut ? 'timeout' : 'infeasible',
+        feasible,
+        objective: feasible ? objective : null,
+        values,
+        timedOut,
+        elapsedMs: Date.now() - started,
+      };
+    },
+  };
+}
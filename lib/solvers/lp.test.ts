@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import lp, { type LPSolverSolution } from '../types/lp-solver';
+import { lpSolver } from './lp';
+import type { CPModel } from './ortools-bridge';
+
+// two people, two groups of one; person a is faster in g1
+const model: CPModel = {
+  optimize: 'cost',
+  constraints: {
+    a: { equal: 1 },
+    b: { equal: 1 },
+    g1: { max: 1 },
+    g2: { max: 1 },
+  },
+  variables: {
+    a_g1: { a: 1, g1: 1, cost: 1 },
+    a_g2: { a: 1, g2: 1, cost: 3 },
+    b_g1: { b: 1, g1: 1, cost: 2 },
+    b_g2: { b: 1, g2: 1, cost: 2 },
+  },
+  integers: ['a_g1', 'a_g2', 'b_g1', 'b_g2'],
+};
+
+function solveWith(solution: Partial<LPSolverSolution>, timeLimit?: number) {
+  spyOn(lp, 'solve').mockReturnValue({
+    feasible: true,
+    bounded: true,
+    isIntegral: true,
+    result: 3,
+    a_g1: 1,
+    b_g2: 1,
+    ...solution,
+  });
+  return lpSolver().solve(model, { timeLimit });
+}
+
+describe('lpSolver', () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test('solves a small assignment model to optimality', () => {
+    const result = lpSolver().solve(model);
+
+    expect(result).toMatchObject({
+      solver: 'lp',
+      status: 'optimal',
+      feasible: true,
+      objective: 3,
+      timedOut: false,
+      values: { a_g1: 1, b_g2: 1 },
+    });
+  });
+
+  test('reports an infeasible model', () => {
+    const result = lpSolver().solve({
+      ...model,
+      constraints: { ...model.constraints, g1: { max: 0 }, g2: { max: 1 } },
+    });
+
+    expect(result).toMatchObject({
+      status: 'infeasible',
+      feasible: false,
+      objective: null,
+    });
+  });
+
+  test('drops solver flags from the values', () => {
+    expect(Object.keys(solveWith({}).values).sort()).toEqual(['a_g1', 'b_g2']);
+  });
+
+  test('maps an unbounded solution to unbounded', () => {
+    expect(solveWith({ bounded: false })).toMatchObject({
+      status: 'unbounded',
+      feasible: false,
+      objective: null,
+    });
+  });
+
+  test('maps a non-integral solution to infeasible', () => {
+    expect(solveWith({ isIntegral: false })).toMatchObject({
+      status: 'infeasible',
+      feasible: false,
+      timedOut: false,
+    });
+  });
+
+  test('maps a non-integral solution at the time limit to timeout', () => {
+    expect(solveWith({ isIntegral: false }, 0)).toMatchObject({
+      status: 'timeout',
+      feasible: false,
+      timedOut: true,
+      objective: null,
+    });
+  });
+
+  test('keeps an integral incumbent found before the time limit', () => {
+    expect(solveWith({}, 0)).toMatchObject({
+      status: 'feasible',
+      feasible: true,
+      timedOut: true,
+      objective: 3,
+    });
+  });
+
+  test('passes the time limit to the solver in milliseconds', () => {
+    solveWith({}, 2);
+
+    expect(lp.solve).toHaveBeenCalledWith(
+      expect.objectContaining({ options: { timeout: 2000 } }),
+    );
+  });
+});
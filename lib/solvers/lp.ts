@@ -0,0 +1,77 @@
+import lp, { type LPSolverModel } from '../types/lp-solver';
+import type { CPModel } from './ortools-bridge';
+import type { SolveOptions, Solver, SolverResult } from './solver';
+
+const SOLUTION_KEYS = new Set(['feasible', 'result', 'bounded', 'isIntegral']);
+
+export function toLPModel(model: CPModel, timeLimit?: number): LPSolverModel {
+  return {
+    opType: model.opType ?? 'min',
+    optimize: model.optimize,
+    constraints: model.constraints,
+    variables: model.variables,
+    ints: Object.fromEntries(model.integers.map((name) => [name, 1])),
+    ...(timeLimit !== undefined && { options: { timeout: timeLimit * 1000 } }),
+  };
+}
+
+// javascript-lp-solver stops branch and bound at the timeout and keeps the
+// best integral solution, or the last relaxation when it found none
+export function lpSolver(defaults: SolveOptions = {}): Solver {
+  return {
+    name: 'lp',
+    spec: { name: 'lp', ...defaults },
+    solve: (model, options = {}): SolverResult => {
+      const timeLimit = options.timeLimit ?? defaults.timeLimit;
+      const started = Date.now();
+      const solution = lp.solve(toLPModel(model, timeLimit));
+      const elapsedMs = Date.now() - started;
+
+      const values: Record<string, number> = {};
+      for (const [key, value] of Object.entries(solution)) {
+        if (!SOLUTION_KEYS.has(key) && typeof value === 'number') {
+          values[key] = value;
+        }
+      }
+
+      const integral = model.integers.length === 0 || solution.isIntegral;
+      const timedOut = timeLimit !== undefined && elapsedMs >= timeLimit * 1000;
+      const base = { solver: 'lp', values, timedOut, elapsedMs };
+
+      // without an integral incumbent the values are the last relaxation
+      if (timedOut && !(solution.feasible && integral)) {
+        return { ...base, status: 'timeout', feasible: false, objective: null };
+      }
+      if (!solution.feasible) {
+        return {
+          ...base,
+          status: 'infeasible',
+          feasible: false,
+          objective: null,
+        };
+      }
+      if (!solution.bounded) {
+        return {
+          ...base,
+          status: 'unbounded',
+          feasible: false,
+          objective: null,
+        };
+      }
+      if (!integral) {
+        return {
+          ...base,
+          status: 'infeasible',
+          feasible: false,
+          objective: null,
+        };
+      }
+      return {
+        ...base,
+        status: timedOut ? 'feasible' : 'optimal',
+        feasible: true,
+        objective: solution.result,
+      };
+    },
+  };
+}
@@ -1,7 +1,11 @@
-import { spawn } from 'node:child_process';
+import { spawn, spawnSync } from 'node:child_process';
 import { join, resolve } from 'node:path';
+import type { SolveOptions, Solver, SolverResult } from './solver';
 
 export interface CPModel {
+  // defaults to 'min'
+  opType?: 'max' | 'min';
+
   optimize: string;
 
   constraints: Record<string, { min?: number; max?: number; equal?: number }>;
@@ -20,18 +24,39 @@ export interface CPSolution {
 
   error?: string;
 
+  timedOut?: boolean;
+
   [varName: string]: unknown;
 }
 
+export interface ORToolsOptions extends SolveOptions {
+  python?: string;
+
+  script?: string;
+}
+
 const SOLVER_SCRIPT = 'solve_waves.py';
 
+// extra time for Python to start, build the model and report back
+const SPAWN_GRACE_SECONDS = 30;
+
+const SOLUTION_KEYS = new Set(['feasible', 'status', 'result', 'error']);
+
+function defaultPython(): string {
+  return join(process.cwd(), 'venv', 'bin', 'python3');
+}
+
+function defaultScript(): string {
+  return join(resolve(__dirname), SOLVER_SCRIPT);
+}
+
 export async function solveCP(
   model: CPModel,
   scriptPath?: string,
 ): Promise<CPSolution> {
-  const pythonScript = scriptPath ?? join(resolve(__dirname), SOLVER_SCRIPT);
+  const pythonScript = scriptPath ?? defaultScript();
 
-  const pythonExec = join(process.cwd(), 'venv', 'bin', 'python3');
+  const pythonExec = defaultPython();
 
   return new Promise<CPSolution>((resolve, reject) => {
     const pythonProcess = spawn(pythonExec, [pythonScript], {
@@ -74,8 +99,95 @@ export async function solveCP(
   });
 }
 
+function toSolverResult(solution: CPSolution, elapsedMs: number): SolverResult {
+  const values: Record<string, number> = {};
+  for (const [key, value] of Object.entries(solution)) {
+    if (!SOLUTION_KEYS.has(key) && typeof value === 'number') {
+      values[key] = value;
+    }
+  }
+
+  const status =
+    solution.status === 'optimal' ||
+    solution.status === 'feasible' ||
+    solution.status === 'infeasible' ||
+    solution.status === 'timeout'
+      ? solution.status
+      : 'error';
+
+  return {
+    solver: 'ortools',
+    status,
+    feasible: solution.feasible,
+    objective: solution.result,
+    values,
+    timedOut: solution.timedOut === true || status === 'timeout',
+    elapsedMs,
+    error:
+      solution.error ??
+      (status === 'error' ? `solver status ${solution.status}` : undefined),
+  };
+}
+
+export function orToolsSolver(defaults: ORToolsOptions = {}): Solver {
+  return {
+    name: 'ortools',
+    spec: { name: 'ortools', ...defaults },
+    solve: (model, options = {}): SolverResult => {
+      const timeLimit = options.timeLimit ?? defaults.timeLimit;
+      const started = Date.now();
+      const failed = (error: string, timedOut = false): SolverResult => ({
+        solver: 'ortools',
+        status: timedOut ? 'timeout' : 'error',
+        feasible: false,
+        objective: null,
+        values: {},
+        timedOut,
+        elapsedMs: Date.now() - started,
+        error,
+      });
+
+      const child = spawnSync(
+        defaults.python ?? defaultPython(),
+        [defaults.script ?? defaultScript()],
+        {
+          input: JSON.stringify({ ...model, timeLimit }),
+          encoding: 'utf8',
+          maxBuffer: 256 * 1024 * 1024,
+          timeout:
+            timeLimit !== undefined
+              ? (timeLimit + SPAWN_GRACE_SECONDS) * 1000
+              : undefined,
+        },
+      );
+
+      if (child.error) {
+        const timedOut =
+          (child.error as NodeJS.ErrnoException).code === 'ETIMEDOUT';
+        return failed(
+          timedOut
+            ? 'Python process did not return within the time limit'
+            : `Failed to spawn Python process: ${child.error.message}`,
+          timedOut,
+        );
+      }
+
+      try {
+        return toSolverResult(
+          JSON.parse(child.stdout) as CPSolution,
+          Date.now() - started,
+        );
+      } catch (_error) {
+        return failed(
+          `Python script failed with code ${child.status}: ${child.stderr || child.stdout}`,
+        );
+      }
+    },
+  };
+}
+
 export async function isORToolsAvailable(): Promise<boolean> {
-  const pythonExec = join(process.cwd(), 'venv', 'bin', 'python3');
+  const pythonExec = defaultPython();
 
   return new Promise<boolean>((resolve) => {
     const pythonProcess = spawn(pythonExec, ['-c', 'import ortools'], {
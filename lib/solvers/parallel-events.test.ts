@@ -0,0 +1,82 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from 'bun:test';
+import { createTypeCompFromWcif, type TypeComp } from '../api/context';
+import { fixtureCompetition } from '../api/test-utils';
+import type { EventId } from '../types/literals';
+import * as bridge from './ortools-bridge';
+import { assignParallelEvents } from './parallel-events';
+
+const EVENTS: EventId[] = ['333', '222', '444'];
+
+// competitors 1-6 only do 333, 7-12 only 222 and 13-18 only 444
+async function parallelCompetition(): Promise<TypeComp> {
+  const competition = fixtureCompetition({ persons: 18, events: EVENTS });
+  competition.persons.forEach((person, i) => {
+    if (person.registration) {
+      person.registration.eventIds = [EVENTS[Math.floor(i / 6)] ?? '333'];
+    }
+  });
+  return createTypeCompFromWcif(competition, { seed: 1 });
+}
+
+describe('assignParallelEvents', () => {
+  let log: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    spyOn(bridge, 'isORToolsAvailable').mockResolvedValue(false);
+    log = spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test('solves the wave model in process without OR-Tools', async () => {
+    const tc = await parallelCompetition();
+
+    const result = await assignParallelEvents(tc.ctx, EVENTS, {
+      groupCount: 3,
+      maxGroupSize: 6,
+      timeLimit: 5,
+      verbose: true,
+    });
+
+    expect(log).toHaveBeenCalledWith('Solving with lp+local...');
+    expect(result.totalAssigned).toBe(18);
+    expect(result.groupSizes).toEqual([6, 6, 6]);
+    expect(result.eventsPerGroup).toEqual([1, 1, 1]);
+  }, 20_000);
+
+  test('keeps people out of the waves they are excluded from', async () => {
+    const tc = await parallelCompetition();
+
+    const result = await assignParallelEvents(tc.ctx, EVENTS, {
+      groupCount: 3,
+      maxGroupSize: 6,
+      timeLimit: 5,
+      waveExclusions: new Map([
+        [1, [1, 2]],
+        [7, [2, 3]],
+      ]),
+    });
+
+    expect(result.assignments.get(1)).toBe(3);
+    expect(result.assignments.get(7)).toBe(1);
+    expect(result.eventsPerGroup).toEqual([1, 1, 1]);
+  }, 20_000);
+
+  test('rejects more competitors than the waves can hold', async () => {
+    const tc = await parallelCompetition();
+
+    await expect(
+      assignParallelEvents(tc.ctx, EVENTS, { groupCount: 3, maxGroupSize: 5 }),
+    ).rejects.toThrow('Cannot assign 18 competitors to 3 groups');
+  });
+});
@@ -4,7 +4,20 @@ import { competingIn, isDelegate, registered } from '../api/filters';
 import { PersonalBest } from '../functions/events';
 import { fisherYatesShuffle } from '../functions/utils';
 import type { Person } from '../types/core';
-import { type CPModel, type CPSolution, solveCP } from './ortools-bridge';
+import type { RandomSource } from '../utils/random';
+import { localSearchSolver } from './local-search';
+import { lpSolver } from './lp';
+import {
+  type CPModel,
+  isORToolsAvailable,
+  orToolsSolver,
+} from './ortools-bridge';
+import {
+  checkSolverResult,
+  type Solver,
+  type SolverResult,
+  withFallback,
+} from './solver';
 
 export interface ParallelAssignmentResult {
   assignments: Map<RegistrantId, number>;
@@ -21,13 +34,45 @@ export interface ParallelAssignmentOptions {
 
   groupCount: number;
 
+  // forces OR-Tools with this script
   solverScript?: string;
 
+  // defaults to the --solver option, then OR-Tools when installed, then the
+  // in-process solvers
+  solver?: Solver;
+
+  timeLimit?: number;
+
   verbose?: boolean;
 
   waveExclusions?: Map<RegistrantId, number[]>;
 }
 
+// the LP proves small models optimal quickly but rarely finds a first
+// solution for large ones, which local search then handles
+const IN_PROCESS_LP_SECONDS = 10;
+const LOCAL_SEARCH_ITERATIONS_PER_VARIABLE = 2000;
+
+async function parallelEventsSolver(
+  ctx: ExecutionContext,
+  model: CPModel,
+  solverScript?: string,
+): Promise<Solver> {
+  if (solverScript) return orToolsSolver({ script: solverScript });
+  if (ctx.options.solver) return ctx.solver;
+  if (await isORToolsAvailable()) return orToolsSolver();
+
+  return withFallback(
+    lpSolver({ timeLimit: IN_PROCESS_LP_SECONDS }),
+    localSearchSolver({
+      iterations:
+        Object.keys(model.variables).length *
+        LOCAL_SEARCH_ITERATIONS_PER_VARIABLE,
+      seed: ctx.seed,
+    }),
+  );
+}
+
 export async function assignParallelEvents(
   ctx: ExecutionContext,
   eventIds: string[],
@@ -37,6 +82,7 @@ export async function assignParallelEvents(
     maxGroupSize,
     groupCount,
     solverScript,
+    timeLimit,
     verbose = false,
     waveExclusions,
   } = options;
@@ -53,6 +99,7 @@ export async function assignParallelEvents(
     allCompetitors.filter((comp) =>
       eventIds.some((eventId) => competingIn(eventId)(comp)),
     ),
+    ctx.random,
   );
 
   if (verbose) {
@@ -95,21 +142,31 @@ export async function assignParallelEvents(
     maxGroupSize,
     delegates,
     waveExclusions,
+    ctx.random,
   );
 
   if (verbose) {
     console.log(
       `Model: ${Object.keys(model.variables).length} variables, ${Object.keys(model.constraints).length} constraints`,
     );
-    console.log('Solving...');
   }
 
-  const solution = await solveCP(model, solverScript);
+  const solver =
+    options.solver ?? (await parallelEventsSolver(ctx, model, solverScript));
+
+  if (verbose) {
+    console.log(`Solving with ${solver.name}...`);
+  }
+
+  const solution = solver.solve(model, { timeLimit });
+  const solverWarning = checkSolverResult(solution, { eventIds });
+
+  if (solverWarning) console.warn(`⚠️  ${solverWarning}`);
 
   if (verbose) {
     console.log(`Status: ${solution.status}, Feasible: ${solution.feasible}`);
-    if (solution.result !== null) {
-      console.log(`Objective: ${solution.result}`);
+    if (solution.objective !== null) {
+      console.log(`Objective: ${solution.objective}`);
     }
   }
 
@@ -190,10 +247,11 @@ function buildAssignmentModel(
   groupCount: number,
   targetSizes: number[],
   _maxGroupSize: number,
-  delegates: Person[] = [],
-  waveExclusions?: Map<RegistrantId, number[]>,
+  delegates: Person[],
+  waveExclusions: Map<RegistrantId, number[]> | undefined,
+  random: RandomSource,
 ): CPModel {
-  const shuffledCompetitors = fisherYatesShuffle(competitors);
+  const shuffledCompetitors = fisherYatesShuffle(competitors, random);
   const variables: Record<string, Record<string, number>> = {};
   const constraints: Record<
     string,
@@ -354,16 +412,16 @@ function buildAssignmentModel(
 function extractAssignments(
   competitors: Person[],
   groupCount: number,
-  solution: CPSolution,
+  solution: SolverResult,
 ): Map<RegistrantId, number> {
   const assignments = new Map<RegistrantId, number>();
 
   for (const competitor of competitors) {
     for (let group = 1; group <= groupCount; group++) {
       const varName = `p${competitor.registrantId}_w${group}`;
-      const value = solution[varName];
+      const value = solution.values[varName];
 
-      if (value !== undefined && Math.round(value as number) === 1) {
+      if (value !== undefined && Math.round(value) === 1) {
         assignments.set(competitor.registrantId, group);
         break;
       }
@@ -376,6 +434,7 @@ function extractAssignments(
 export function assignStationsBySpeed(
   persons: Person[],
   eventIds: string[],
+  random: RandomSource,
 ): Map<number, number> {
   const rankings = new Map<string, Map<number, number>>();
 
@@ -402,7 +461,7 @@ export function assignStationsBySpeed(
     rankings.set(eventId, eventRankMap);
   }
 
-  const scored = persons.map((person) => {
+  const scored = fisherYatesShuffle(persons, random).map((person) => {
     let bestRank = Infinity;
     let eventsWithBestRank = 0;
     let sumWorldRanks = 0;
@@ -452,7 +511,7 @@ export function assignStationsBySpeed(
     if (a.avgWorldRank !== b.avgWorldRank) {
       return a.avgWorldRank - b.avgWorldRank;
     }
-    return Math.random() - 0.5;
+    return 0;
   });
 
   const stations = new Map<RegistrantId, number>();
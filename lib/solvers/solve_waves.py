@@ -15,8 +15,10 @@ def solve_wave_assignment(model_json):
     
     variables = model_data['variables']
     constraints = model_data['constraints']
-    integers = model_data['integers']
+    integers = set(model_data['integers'])
     optimize = model_data.get('optimize', 'events')
+    op_type = model_data.get('opType', 'min')
+    time_limit = model_data.get('timeLimit') or 300.0
     
     
     cp_model_instance = cp_model.CpModel()
@@ -32,55 +34,49 @@ def solve_wave_assignment(model_json):
             cp_vars[var_name] = cp_model_instance.NewIntVar(0, 1, var_name)
     
     
+    terms_by_constraint = {}
+    for var_name, var_coeffs in variables.items():
+        for constraint_name, coeff in var_coeffs.items():
+            terms_by_constraint.setdefault(constraint_name, []).append(
+                cp_vars[var_name] * coeff
+            )
+    
+    
     for constraint_name, constraint_def in constraints.items():
+        terms = terms_by_constraint.get(constraint_name, [])
         if 'equal' in constraint_def:
-            
-            value = constraint_def['equal']
-            terms = []
-            for var_name, var_coeffs in variables.items():
-                if constraint_name in var_coeffs:
-                    coeff = var_coeffs[constraint_name]
-                    terms.append(cp_vars[var_name] * coeff)
-            cp_model_instance.Add(sum(terms) == value)
-            
-        elif 'min' in constraint_def:
-            
-            value = constraint_def['min']
-            terms = []
-            for var_name, var_coeffs in variables.items():
-                if constraint_name in var_coeffs:
-                    coeff = var_coeffs[constraint_name]
-                    terms.append(cp_vars[var_name] * coeff)
-            cp_model_instance.Add(sum(terms) >= value)
-            
-        elif 'max' in constraint_def:
-            
-            value = constraint_def['max']
-            terms = []
-            for var_name, var_coeffs in variables.items():
-                if constraint_name in var_coeffs:
-                    coeff = var_coeffs[constraint_name]
-                    terms.append(cp_vars[var_name] * coeff)
-            cp_model_instance.Add(sum(terms) <= value)
+            cp_model_instance.Add(sum(terms) == constraint_def['equal'])
+        
+        # a constraint may carry both bounds, e.g. {min: 0, max: 1}
+        if 'min' in constraint_def:
+            cp_model_instance.Add(sum(terms) >= constraint_def['min'])
+        
+        if 'max' in constraint_def:
+            cp_model_instance.Add(sum(terms) <= constraint_def['max'])
     
     
-    objective_terms = []
-    for var_name, var_coeffs in variables.items():
-        if optimize in var_coeffs:
-            coeff = var_coeffs[optimize]
-            objective_terms.append(cp_vars[var_name] * coeff)
+    objective_terms = terms_by_constraint.get(optimize, [])
     
-    cp_model_instance.Minimize(sum(objective_terms))
+    if op_type == 'max':
+        cp_model_instance.Maximize(sum(objective_terms))
+    else:
+        cp_model_instance.Minimize(sum(objective_terms))
     
     
     solver = cp_model.CpSolver()
-    solver.parameters.max_time_in_seconds = 300.0  
+    solver.parameters.max_time_in_seconds = float(time_limit)
     
     status = solver.Solve(cp_model_instance)
     
     
     solution = {}
     
+    # CP-SAT reports FEASIBLE or UNKNOWN when stopped by the time limit
+    solution['timedOut'] = (
+        status in (cp_model.FEASIBLE, cp_model.UNKNOWN)
+        and solver.WallTime() >= time_limit
+    )
+    
     if status == cp_model.OPTIMAL:
         solution['feasible'] = True
         solution['status'] = 'optimal'
@@ -108,6 +104,11 @@ def solve_wave_assignment(model_json):
         solution['status'] = 'model_invalid'
         solution['result'] = None
         
+    elif solution['timedOut']:
+        solution['feasible'] = False
+        solution['status'] = 'timeout'
+        solution['result'] = None
+        
     else:
         solution['feasible'] = False
         solution['status'] = 'unknown'
@@ -0,0 +1,117 @@
+import type { CPModel } from './ortools-bridge';
+import type { SolverResult, SolverSpec } from './solver';
+
+export interface SolveMessage {
+  id: number;
+  model: CPModel;
+  spec: SolverSpec;
+}
+
+export interface SolvedMessage {
+  id: number;
+  result: SolverResult;
+}
+
+export interface SolverPool {
+  readonly size: number;
+
+  solve(model: CPModel, spec: SolverSpec): Promise<SolverResult>;
+
+  // terminates the workers; solves still queued resolve with an error
+  close(): void;
+}
+
+interface Task {
+  message: SolveMessage;
+  resolve: (result: SolverResult) => void;
+}
+
+const WORKER_URL = new URL('./solver-worker.ts', import.meta.url);
+
+// leaves one core for the main thread, which builds the models
+export function defaultWorkerCount(): number {
+  return Math.max(1, (navigator.hardwareConcurrency ?? 2) - 1);
+}
+
+function failedResult(spec: SolverSpec, error: string): SolverResult {
+  return {
+    solver: spec.name,
+    status: 'error',
+    feasible: false,
+    objective: null,
+    values: {},
+    timedOut: false,
+    elapsedMs: 0,
+    error,
+  };
+}
+
+// Solves models on Bun worker threads, one model per worker at a time
+export function startSolverPool(size = defaultWorkerCount()): SolverPool {
+  const queue: Task[] = [];
+  const running = new Map<Worker, Task>();
+  const idle: Worker[] = [];
+  let nextId = 0;
+  let closed = false;
+
+  const dispatch = () => {
+    while (idle.length > 0 && queue.length > 0) {
+      const worker = idle.pop();
+      const task = queue.shift();
+      if (!worker || !task) return;
+      running.set(worker, task);
+      worker.postMessage(task.message);
+    }
+  };
+
+  const finish = (worker: Worker, result: SolverResult) => {
+    const task = running.get(worker);
+    running.delete(worker);
+    task?.resolve(result);
+  };
+
+  const spawn = (): Worker => {
+    const worker = new Worker(WORKER_URL);
+    worker.onmessage = ({ data }: MessageEvent<SolvedMessage>) => {
+      finish(worker, data.result);
+      idle.push(worker);
+      dispatch();
+    };
+    // a crashed worker is replaced so later solves still have a thread
+    worker.onerror = (event) => {
+      const task = running.get(worker);
+      if (task) finish(worker, failedResult(task.message.spec, event.message));
+      worker.terminate();
+      if (closed) return;
+      idle.push(spawn());
+      dispatch();
+    };
+    return worker;
+  };
+
+  for (let i = 0; i < size; i++) idle.push(spawn());
+
+  return {
+    size,
+    solve: (model, spec) =>
+      new Promise((resolve) => {
+        if (closed) {
+          resolve(failedResult(spec, 'solver pool is closed'));
+          return;
+        }
+        queue.push({ message: { id: nextId++, model, spec }, resolve });
+        dispatch();
+      }),
+    close: () => {
+      closed = true;
+      for (const worker of [...idle, ...running.keys()]) worker.terminate();
+      for (const [worker, task] of running) {
+        finish(worker, failedResult(task.message.spec, 'solver pool closed'));
+      }
+      for (const task of queue.splice(0)) {
+        task.resolve(failedResult(task.message.spec, 'solver pool closed'));
+      }
+      idle.length = 0;
+    },
+  };
+}
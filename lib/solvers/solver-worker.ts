@@ -0,0 +1,25 @@
+import { type SolverResult, solverFromSpec } from './solver';
+import type { SolvedMessage, SolveMessage } from './solver-pool';
+
+declare const self: Worker;
+
+self.onmessage = ({ data }: MessageEvent<SolveMessage>) => {
+  const started = Date.now();
+  let result: SolverResult;
+  try {
+    result = solverFromSpec(data.spec).solve(data.model);
+  } catch (e) {
+    result = {
+      solver: data.spec.name,
+      status: 'error',
+      feasible: false,
+      objective: null,
+      values: {},
+      timedOut: false,
+      elapsedMs: Date.now() - started,
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
+  const message: SolvedMessage = { id: data.id, result };
+  self.postMessage(message);
+};
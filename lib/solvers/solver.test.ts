@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import lp from '../types/lp-solver';
+import type { CPModel } from './ortools-bridge';
+import {
+  createSolver,
+  type Solver,
+  type SolverResult,
+  solverFromSpec,
+  withFallback,
+} from './solver';
+
+const model: CPModel = {
+  optimize: 'cost',
+  constraints: { a: { equal: 1 }, g1: { max: 1 } },
+  variables: {
+    a_g1: { a: 1, g1: 1, cost: 1 },
+    a_g2: { a: 1, cost: 2 },
+  },
+  integers: ['a_g1', 'a_g2'],
+};
+
+function stubSolver(name: string, result: Partial<SolverResult>): Solver {
+  return {
+    name,
+    solve: mock(() => ({
+      solver: name,
+      status: 'infeasible' as const,
+      feasible: false,
+      objective: null,
+      values: {},
+      timedOut: false,
+      elapsedMs: 0,
+      ...result,
+    })),
+  };
+}
+
+describe('withFallback', () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test('keeps the first usable solution', () => {
+    const primary = stubSolver('primary', {
+      status: 'optimal',
+      feasible: true,
+    });
+    const fallback = stubSolver('fallback', {});
+
+    const result = withFallback(primary, fallback).solve(model);
+
+    expect(result.solver).toBe('primary');
+    expect(fallback.solve).not.toHaveBeenCalled();
+  });
+
+  test('hands the model on when a solver fails or finds nothing', () => {
+    const failing = stubSolver('failing', { status: 'error', error: 'boom' });
+    const empty = stubSolver('empty', { status: 'timeout', timedOut: true });
+    const solver = withFallback(failing, empty, createSolver('local'));
+
+    const result = solver.solve(model, { timeLimit: 5 });
+
+    expect(solver.name).toBe('failing+empty+local');
+    expect(empty.solve).toHaveBeenCalledWith(model, { timeLimit: 5 });
+    expect(result).toMatchObject({
+      solver: 'local',
+      feasible: true,
+      values: { a_g1: 1, a_g2: 0 },
+    });
+  });
+
+  test('lp+local moves to local search when lp has no integral solution', () => {
+    spyOn(lp, 'solve').mockReturnValue({
+      feasible: true,
+      bounded: true,
+      isIntegral: false,
+      result: 1.5,
+      a_g1: 0.5,
+      a_g2: 0.5,
+    });
+
+    const result = createSolver('lp+local', { seed: 3 }).solve(model);
+
+    expect(lp.solve).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({
+      solver: 'local',
+      status: 'feasible',
+      objective: 1,
+    });
+  });
+
+  test('round-trips through its spec when every solver has one', () => {
+    const solver = createSolver('lp+local', { seed: 3, timeLimit: 10 });
+
+    expect(solver.spec).toEqual({
+      name: 'fallback',
+      solvers: [
+        { name: 'lp', timeLimit: 10 },
+        { name: 'local', seed: 3, timeLimit: 10 },
+      ],
+    });
+    expect(solverFromSpec(solver.spec ?? { name: 'lp' }).name).toBe('lp+local');
+    expect(
+      withFallback(createSolver('lp'), stubSolver('custom', {})).spec,
+    ).toBeUndefined();
+  });
+});
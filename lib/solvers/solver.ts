@@ -0,0 +1,206 @@
+import { TypeCompError } from '../utils/validation';
+import { type LocalSearchOptions, localSearchSolver } from './local-search';
+import { lpSolver } from './lp';
+import {
+  type CPModel,
+  type ORToolsOptions,
+  orToolsSolver,
+} from './ortools-bridge';
+
+export type SolverName = 'lp' | 'ortools' | 'local' | 'lp+local';
+
+export type SolverStatus =
+  | 'optimal'
+  | 'feasible'
+  | 'infeasible'
+  | 'unbounded'
+  | 'timeout'
+  | 'error';
+
+export interface SolveOptions {
+  // wall-clock limit in seconds
+  timeLimit?: number;
+}
+
+export interface SolverResult {
+  solver: string;
+
+  status: SolverStatus;
+
+  // true when values holds a usable assignment, proven optimal or not
+  feasible: boolean;
+
+  objective: number | null;
+
+  values: Record<string, number>;
+
+  // the time limit stopped the search; values is the best solution found
+  timedOut: boolean;
+
+  elapsedMs: number;
+
+  error?: string;
+}
+
+// Plain data that rebuilds a solver, e.g. in a worker thread
+export type SolverSpec =
+  | ({ name: 'lp' } & SolveOptions)
+  | ({ name: 'ortools' } & ORToolsOptions)
+  | ({ name: 'local' } & Omit<LocalSearchOptions, 'random'>)
+  | { name: 'fallback'; solvers: SolverSpec[] };
+
+export interface Solver {
+  readonly name: string;
+
+  // set when the solver can be rebuilt from data; custom solvers without it
+  // always run on the main thread
+  readonly spec?: SolverSpec;
+
+  solve(model: CPModel, options?: SolveOptions): SolverResult;
+}
+
+export interface SolveRequest {
+  model: CPModel;
+  solver: Solver;
+}
+
+// Assignment steps yield each model they need solved and resume with its
+// result, so a scheduler can solve models from several rounds at once
+export type SolveSteps<T> = Generator<SolveRequest, T, SolverResult>;
+
+const SOLVER_NAMES: SolverName[] = ['lp', 'ortools', 'local', 'lp+local'];
+
+export function parseSolverName(value: string): SolverName {
+  const name = SOLVER_NAMES.find((n) => n === value.toLowerCase());
+  if (!name) {
+    throw new TypeCompError(
+      `Unknown solver "${value}". Expected one of: ${SOLVER_NAMES.join(', ')}`,
+      'INVALID_SOLVER',
+      { solver: value },
+    );
+  }
+  return name;
+}
+
+export function parseTimeLimit(value: string): number {
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new TypeCompError(
+      `Invalid time limit "${value}". Expected a positive number of seconds`,
+      'INVALID_TIME_LIMIT',
+      { timeLimit: value },
+    );
+  }
+  return seconds;
+}
+
+// `seed` only affects local search
+export function createSolver(
+  name: SolverName = 'lp',
+  options: SolveOptions & { seed?: number } = {},
+): Solver {
+  const { seed, ...solveOptions } = options;
+  switch (name) {
+    case 'ortools':
+      return orToolsSolver(solveOptions);
+    case 'local':
+      return localSearchSolver({ ...solveOptions, seed });
+    case 'lp':
+      return lpSolver(solveOptions);
+    case 'lp+local':
+      return withFallback(
+        lpSolver(solveOptions),
+        localSearchSolver({ ...solveOptions, seed }),
+      );
+  }
+}
+
+export function solverFromSpec(spec: SolverSpec): Solver {
+  switch (spec.name) {
+    case 'ortools':
+      return orToolsSolver(spec);
+    case 'local':
+      return localSearchSolver(spec);
+    case 'lp':
+      return lpSolver(spec);
+    case 'fallback': {
+      const [primary, ...fallbacks] = spec.solvers.map(solverFromSpec);
+      if (!primary) {
+        throw new TypeCompError(
+          'A fallback solver needs at least one solver',
+          'INVALID_SOLVER',
+          { spec },
+        );
+      }
+      return withFallback(primary, ...fallbacks);
+    }
+  }
+}
+
+export function solveSteps<T>(steps: SolveSteps<T>): T {
+  let step = steps.next();
+  while (!step.done) {
+    const { model, solver } = step.value;
+    step = steps.next(solver.solve(model));
+  }
+  return step.value;
+}
+
+// Hands the model to the next solver whenever one finds no usable solution,
+// including when it fails to run
+export function withFallback(primary: Solver, ...fallbacks: Solver[]): Solver {
+  const solvers = [primary, ...fallbacks];
+  const specs = solvers.flatMap((s) => (s.spec ? [s.spec] : []));
+  return {
+    name: solvers.map((s) => s.name).join('+'),
+    ...(specs.length === solvers.length && {
+      spec: { name: 'fallback', solvers: specs },
+    }),
+    solve: (model, options) => {
+      let result = primary.solve(model, options);
+      for (const fallback of fallbacks) {
+        if (result.feasible) break;
+        result = fallback.solve(model, options);
+      }
+      return result;
+    },
+  };
+}
+
+export function withTimeLimit(solver: Solver, timeLimit?: number): Solver {
+  if (timeLimit === undefined) return solver;
+  return {
+    name: solver.name,
+    ...(solver.spec && { spec: specWithTimeLimit(solver.spec, timeLimit) }),
+    solve: (model, options) =>
+      solver.solve(model, { timeLimit: options?.timeLimit ?? timeLimit }),
+  };
+}
+
+function specWithTimeLimit(spec: SolverSpec, timeLimit: number): SolverSpec {
+  return spec.name === 'fallback'
+    ? {
+        ...spec,
+        solvers: spec.solvers.map((s) => specWithTimeLimit(s, timeLimit)),
+      }
+    : { ...spec, timeLimit };
+}
+
+// Throws when the solver could not run at all; returns a warning when the
+// time limit cut the search short
+export function checkSolverResult(
+  result: SolverResult,
+  context: Record<string, unknown> = {},
+): string | null {
+  if (result.status === 'error') {
+    throw new TypeCompError(
+      `${result.solver} solver failed: ${result.error ?? 'unknown error'}`,
+      'SOLVER_FAILED',
+      { ...context, solver: result.solver },
+    );
+  }
+  if (!result.timedOut) return null;
+  return result.feasible
+    ? `${result.solver} solver hit its time limit, using the best solution found`
+    : `${result.solver} solver hit its time limit without finding a solution`;
+}
@@ -65,6 +65,13 @@ export interface StaffAssignmentResult {
 
 export interface Scorer {
   getScore: (person: Person, group: Group, otherPeople: Person[]) => number;
+  name?: string;
+  description?: string;
+  components?: Scorer[];
+  // the score or penalty and cap the scorer was built with, recorded with
+  // each assignment so explain can rebuild it
+  weight?: number;
+  limit?: number;
 }
 
 export interface StaffScorer {
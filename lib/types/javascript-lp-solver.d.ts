@@ -5,6 +5,7 @@ declare module 'javascript-lp-solver' {
     constraints: Record<string, { min?: number; max?: number; equal?: number }>;
     variables: Record<string, Record<string, number>>;
     ints?: Record<string, number>;
+    options?: { timeout?: number; tolerance?: number };
   }
 
   interface LPSolverSolution {
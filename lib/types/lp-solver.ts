@@ -4,6 +4,7 @@ export interface LPSolverModel {
   constraints: Record<string, { min?: number; max?: number; equal?: number }>;
   variables: Record<string, Record<string, number>>;
   ints?: Record<string, number>;
+  options?: { timeout?: number; tolerance?: number };
 }
 
 export interface LPSolverSolution {
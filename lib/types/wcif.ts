@@ -2,6 +2,7 @@ import type { Competition } from '@wca/helpers';
 
 export type {
   Activity,
+  AdvancementCondition,
   Assignment,
   Competition,
   Event,
@@ -1,5 +1,6 @@
 export * from './activity-utils';
 export * from './group-cache';
 export * from './logger';
+export * from './random';
 export * from './time-utils';
 export * from './validation';
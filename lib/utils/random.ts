@@ -0,0 +1,39 @@
+import { TypeCompError } from './validation';
+
+export type RandomSource = () => number;
+
+const MAX_SEED = 2 ** 32;
+
+// mulberry32: small, fast and good enough for shuffling tie-breaks
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / MAX_SEED;
+  };
+}
+
+// an independent source seeded from another, so a consumer can take its own
+// stream without disturbing the draws that follow
+export function forkRandom(random: RandomSource): RandomSource {
+  return createRandom(Math.floor(random() * MAX_SEED));
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+export function parseSeed(value: string): number {
+  const seed = Number(value);
+  if (!Number.isInteger(seed) || seed < 0 || seed >= MAX_SEED) {
+    throw new TypeCompError(
+      `Invalid seed "${value}". Expected an integer between 0 and ${MAX_SEED - 1}`,
+      'INVALID_SEED',
+      { seed: value },
+    );
+  }
+  return seed;
+}
@@ -1,5 +1,10 @@
 import {
-  assignGroupifier,
+  addActivity,
+  addAssignment,
+  removeAssignments,
+} from '@/engine/mutations';
+import {
+  assignGroupifierInParallel,
   assignParallelEvents,
   assignStationsBySpeed,
   canScramble,
@@ -19,12 +24,18 @@ import {
   registered,
   removeOrphanAssignments,
 } from '@/lib';
+import {
+  setExtensionData,
+  TYPECOMP_EXTENSION_PREFIX,
+  type WaveExtensionData,
+} from '@/lib/functions/extensions';
 import {
   getRoomByActivity,
   maxActivityId,
 } from '@/lib/functions/groups-helpers';
 import { AssignMisc } from '@/lib/functions/staff';
 import type { JobDefinition } from '@/lib/types/core';
+import type { Activity } from '@/lib/types/wcif';
 import { ASSIGNMENT_OPTIONS, COMPETITION_ID, WAVE_EXCLUSIONS } from './config';
 import { classifyRounds } from './util';
 
@@ -95,25 +106,21 @@ if (normalRounds.includes(blindfoldedRoundId)) {
   assignBlindfoldedRound(blindfoldedRoundId);
 }
 
-for (const roundId of normalRounds) {
+const firstRounds = normalRounds.flatMap((roundId) => {
   const parsed = parseActivityCode(roundId);
-  if (!parsed || parsed.roundNumber !== 1) continue;
+  if (!parsed || parsed.roundNumber !== 1) return [];
 
-  if (roundId === blindfoldedRoundId) continue;
+  if (roundId === blindfoldedRoundId) return [];
 
   const competitors = tc.persons.filter(competingIn(parsed.eventId));
-  if (competitors.length === 0) continue;
+  if (competitors.length === 0) return [];
 
   const groupCount = Math.ceil(competitors.length / maxGroupSize);
-  const result = assignGroupifier(tc, roundId, {
-    ...ASSIGNMENT_OPTIONS,
-    groupCount,
-  });
+  return [{ roundId, options: { ...ASSIGNMENT_OPTIONS, groupCount } }];
+});
 
-  tc.round(roundId).scrambleSetCountFromUniqueGroups();
-  console.log(
-    `✓ ${roundId}: ${result.competitorsAssigned} competitors, ${result.staffAssigned} staff`,
-  );
+for (const result of await assignGroupifierInParallel(tc, firstRounds)) {
+  tc.round(result.roundId).scrambleSetCountFromUniqueGroups();
 }
 
 async function assignParallelWaveEvents(eventGroup: string[]) {
@@ -142,6 +149,7 @@ async function assignParallelWaveEvents(eventGroup: string[]) {
     for (const [pId, station] of assignStationsBySpeed(
       waveCompetitors,
       eventGroup,
+      tc.ctx.random,
     )) {
       stationAssignments.set(pId, station);
     }
@@ -158,12 +166,14 @@ async function assignParallelWaveEvents(eventGroup: string[]) {
       const person = tc.persons.byId(personId);
       const groupId = groupsByNumber.get(waveNum);
       if (person && groupId && competingIn(eventId)(person)) {
-        person.assignments = (person.assignments ?? []).filter(
+        removeAssignments(
+          tc.ctx,
+          person,
           (a) =>
-            a.assignmentCode !== 'competitor' ||
-            !groups.some((g) => g.id === a.activityId),
+            a.assignmentCode === 'competitor' &&
+            groups.some((g) => g.id === a.activityId),
         );
-        person.assignments.push({
+        addAssignment(tc.ctx, person, {
           activityId: groupId,
           assignmentCode: 'competitor',
           stationNumber: stationAssignments.get(personId) ?? null,
@@ -183,7 +193,7 @@ async function assignParallelWaveEvents(eventGroup: string[]) {
   assignStaffToWaves(eventGroup, staffWaveAssignment, numWaves);
 
   for (const eventId of eventGroup) {
-    const removed = clearEmptyGroups(tc.competition, `${eventId}-r1`);
+    const removed = clearEmptyGroups(tc.ctx, `${eventId}-r1`);
     if (removed > 0) {
       console.log(`  ↳ Cleared ${removed} empty group(s) for ${eventId}-r1`);
       tc.round(`${eventId}-r1`).scrambleSetCountFromUniqueGroups();
@@ -201,7 +211,7 @@ for (const eventGroup of parallelEventGroups) {
   if (eventGroup.length > 0) await assignParallelWaveEvents(eventGroup);
 }
 
-const orphansRemoved = removeOrphanAssignments(tc.competition);
+const orphansRemoved = removeOrphanAssignments(tc.ctx);
 if (orphansRemoved > 0) {
   console.log(`\n✓ Removed ${orphansRemoved} orphan assignment(s)`);
 }
@@ -311,8 +321,7 @@ function assignStaffToWaves(
     const waveActivityId = maxActivityId(tc.competition) + 1;
     const waveGroupIds = new Set(waveGroups.map((g) => g.id));
 
-    if (!room.activities) room.activities = [];
-    room.activities.push({
+    const waveActivity: Activity = {
       id: waveActivityId,
       name: `Wave ${waveNum}`,
       activityCode: `other-misc`,
@@ -320,7 +329,14 @@ function assignStaffToWaves(
       endTime,
       childActivities: [],
       extensions: [],
-    });
+    };
+    setExtensionData<WaveExtensionData>(
+      'Wave',
+      waveActivity,
+      { activityIds: [...waveGroupIds] },
+      TYPECOMP_EXTENSION_PREFIX,
+    );
+    addActivity(tc.ctx, room, waveActivity);
 
     const waveCompetitors = tc.persons
       .all()
@@ -333,11 +349,11 @@ function assignStaffToWaves(
     const waveStationAssignments = assignStationsBySpeed(
       waveCompetitors,
       eventGroup,
+      tc.ctx.random,
     );
 
     for (const person of waveCompetitors) {
-      if (!person.assignments) person.assignments = [];
-      person.assignments.push({
+      addAssignment(tc.ctx, person, {
         activityId: waveActivityId,
         assignmentCode: 'competitor',
         stationNumber: waveStationAssignments.get(person.registrantId) ?? null,
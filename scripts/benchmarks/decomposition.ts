@@ -0,0 +1,204 @@
+import { parseArgs } from 'node:util';
+import type { Competition, Person } from '@wca/helpers';
+import {
+  competingIn,
+  createRandom,
+  createTypeCompFromWcif,
+  type DecompositionStrategy,
+  getGroupsForRound,
+  lpSolver,
+  type Solver,
+} from '@/lib';
+
+const { values } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    competitors: { type: 'string', default: '1000' },
+    groups: { type: 'string', default: '12' },
+    strategy: { type: 'string', multiple: true },
+    seed: { type: 'string', default: '1' },
+  },
+});
+
+const COMPETITORS = Number(values.competitors);
+const GROUPS = Number(values.groups);
+const SEED = Number(values.seed);
+const STRATEGIES = (values.strategy ?? [
+  'monolithic',
+  'buckets',
+  'greedy',
+]) as DecompositionStrategy[];
+
+const COUNTRIES = ['IE', 'IE', 'IE', 'GB', 'GB', 'FR', 'DE', 'PL', 'ES', 'US'];
+const FIRST_NAMES = ['Alex', 'Sam', 'Chris', 'Jamie', 'Pat', 'Robin', 'Kim'];
+
+function syntheticCompetition(): Competition {
+  const random = createRandom(SEED);
+  const persons: Person[] = Array.from({ length: COMPETITORS }, (_, i) => ({
+    registrantId: i + 1,
+    name: `${FIRST_NAMES[i % FIRST_NAMES.length]} Benchmark${i}`,
+    wcaUserId: 100000 + i,
+    wcaId: null,
+    countryIso2: COUNTRIES[Math.floor(random() * COUNTRIES.length)] ?? 'IE',
+    gender: 'o',
+    birthdate: '2000-01-01',
+    email: `benchmark${i}@example.com`,
+    avatar: null,
+    roles: [],
+    registration: {
+      wcaRegistrationId: i + 1,
+      eventIds: ['333'],
+      status: 'accepted',
+      isCompeting: true,
+    },
+    assignments: [],
+    personalBests: [
+      {
+        eventId: '333',
+        best: Math.floor(600 + random() * 4000),
+        worldRanking: i + 1,
+        continentalRanking: i + 1,
+        nationalRanking: i + 1,
+        type: 'average',
+      },
+    ],
+    extensions: [],
+  }));
+
+  return {
+    formatVersion: '1.0',
+    id: 'Benchmark2026',
+    name: 'Benchmark 2026',
+    shortName: 'Benchmark 2026',
+    persons,
+    events: [
+      {
+        id: '333',
+        rounds: [
+          {
+            id: '333-r1',
+            format: 'a',
+            timeLimit: { centiseconds: 60000, cumulativeRoundIds: [] },
+            cutoff: null,
+            advancementCondition: null,
+            results: [],
+            scrambleSetCount: 1,
+            extensions: [],
+          },
+        ],
+        extensions: [],
+        qualification: null,
+      },
+    ],
+    schedule: {
+      startDate: '2026-03-01',
+      numberOfDays: 1,
+      venues: [
+        {
+          id: 1,
+          name: 'Venue',
+          latitudeMicrodegrees: 0,
+          longitudeMicrodegrees: 0,
+          countryIso2: 'IE',
+          timezone: 'Europe/Dublin',
+          rooms: [
+            {
+              id: 1,
+              name: 'Main Hall',
+              color: '#ffffff',
+              activities: [
+                {
+                  id: 1,
+                  name: '3x3x3 Cube, Round 1',
+                  activityCode: '333-r1',
+                  startTime: '2026-03-01T09:00:00Z',
+                  endTime: '2026-03-01T17:00:00Z',
+                  childActivities: [],
+                  extensions: [],
+                },
+              ],
+              extensions: [],
+            },
+          ],
+          extensions: [],
+        },
+      ],
+    },
+    series: [],
+    competitorLimit: null,
+    extensions: [],
+    registrationInfo: {
+      openTime: '2026-01-01T00:00:00Z',
+      closeTime: '2026-02-01T00:00:00Z',
+      baseEntryFee: 0,
+      currencyCode: 'EUR',
+      onTheSpotRegistration: false,
+      useWcaRegistration: true,
+    },
+  };
+}
+
+// counts solver calls; their objectives are not comparable across
+// strategies, so quality is scored on the final groups instead
+function countingSolver(): Solver & { calls: number } {
+  const inner = lpSolver();
+  const counter = {
+    name: inner.name,
+    calls: 0,
+    solve: (...args: Parameters<Solver['solve']>) => {
+      counter.calls++;
+      return inner.solve(...args);
+    },
+  };
+  return counter;
+}
+
+const wcif = syntheticCompetition();
+const rows = [];
+
+for (const strategy of STRATEGIES) {
+  const tc = await createTypeCompFromWcif(structuredClone(wcif), {
+    seed: SEED,
+  });
+  const solver = countingSolver();
+  const round = tc
+    .round('333-r1')
+    .createGroups(GROUPS, { room: 'Main Hall' })
+    .competitors(competingIn('333'))
+    .groupBy.sameCountry(4, 2)
+    .differentNames(-5)
+    .done()
+    .solver(solver)
+    .decompose(strategy);
+
+  const started = performance.now();
+  const result = round.assign();
+  const elapsedMs = Math.round(performance.now() - started);
+
+  const scorer = round.groupBy.getScorer();
+  const groups = getGroupsForRound(tc.competition, '333-r1');
+  let score = 0;
+  const sizes: number[] = [];
+  for (const group of groups) {
+    const members = tc.competition.persons.filter((person) =>
+      person.assignments?.some((a) => a.activityId === group.id),
+    );
+    sizes.push(members.length);
+    for (const person of members) {
+      const others = members.filter((p) => p !== person);
+      score += scorer?.getScore(person, group, others) ?? 0;
+    }
+  }
+
+  rows.push({
+    strategy,
+    ms: elapsedMs,
+    solves: solver.calls,
+    assigned: result.assigned,
+    score: Math.round(score),
+    sizes: `${Math.min(...sizes)}-${Math.max(...sizes)}`,
+  });
+}
+
+console.log(`\n${COMPETITORS} competitors in ${GROUPS} groups, seed ${SEED}\n`);
+console.table(rows);
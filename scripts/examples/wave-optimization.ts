@@ -1,3 +1,4 @@
+import { addAssignment, removeAssignments } from '@/engine/mutations';
 import { competingInAny, createTypeComp } from '@/lib/api';
 import { assignParallelEvents, assignStationsBySpeed } from '@/lib/solvers';
 
@@ -41,7 +42,11 @@ console.log(`\nAssigned ${result.totalAssigned} competitors to waves`);
 console.log('Group sizes:', result.groupSizes);
 console.log('Events per group:', result.eventsPerGroup);
 
-const stationNumbers = assignStationsBySpeed(waveCompetitors, waveEvents);
+const stationNumbers = assignStationsBySpeed(
+  waveCompetitors,
+  waveEvents,
+  tc.ctx.random,
+);
 
 for (const eventId of waveEvents) {
   const roundId = `${eventId}-r1`;
@@ -62,15 +67,15 @@ for (const eventId of waveEvents) {
     const groupId = groupsByNumber.get(groupNum);
 
     if (person && groupId) {
-      if (!person.assignments) person.assignments = [];
-
-      person.assignments = person.assignments.filter(
+      removeAssignments(
+        tc.ctx,
+        person,
         (a) =>
-          a.assignmentCode !== 'competitor' ||
-          !groups.some((g) => g.id === a.activityId),
+          a.assignmentCode === 'competitor' &&
+          groups.some((g) => g.id === a.activityId),
       );
 
-      person.assignments.push({
+      addAssignment(tc.ctx, person, {
         activityId: groupId,
         assignmentCode: 'competitor',
         stationNumber: stationNumbers.get(personId) ?? null,
@@ -0,0 +1,3 @@
+import { main } from '@/bin/typecomp';
+
+process.exit(await main(['history', ...process.argv.slice(2)]));
@@ -0,0 +1,45 @@
+import { parseArgs } from 'node:util';
+import type { Competition } from '@wca/helpers';
+import { type MockRoute, startMockWcaServer } from '@/engine/mock-server';
+
+const { values, positionals } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    port: { type: 'string', default: '4040' },
+    fail: { type: 'string', multiple: true },
+  },
+  allowPositionals: true,
+});
+
+if (positionals.length === 0) {
+  console.error(
+    'Usage: bun run scripts/mock-wca.ts <wcif-file...> [--port 4040] [--fail patch:500:2]',
+  );
+  process.exit(1);
+}
+
+const competitions: Competition[] = [];
+for (const path of positionals) {
+  competitions.push((await Bun.file(path).json()) as Competition);
+}
+
+const server = startMockWcaServer({
+  port: Number(values.port),
+  competitions,
+});
+
+for (const spec of values.fail ?? []) {
+  const [route, status, times] = spec.split(':');
+  server.fail(route as MockRoute, Number(status), Number(times ?? 1));
+}
+
+console.log(`Mock WCA API listening on ${server.url}`);
+for (const competition of competitions) {
+  console.log(`  ${competition.id}`);
+}
+console.log(
+  `Set WCA_API=${server.url} WCA_CLIENT=mock WCA_SECRET=mock to use it`,
+);
+console.log(
+  'Inject failures with POST /__mock/fail {"route","status","times"}',
+);